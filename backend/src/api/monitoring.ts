@@ -176,6 +176,7 @@ export async function registerMonitoringRoutes(fastify: FastifyInstance) {
           scanNewTokensInterval: environment.monitoring.scanNewTokensInterval,
           updatePriceInterval: environment.monitoring.updatePriceInterval,
           updateTradingInterval: environment.monitoring.updateTradingInterval,
+          metricsCheckpointInterval: environment.monitoring.metricsCheckpointInterval,
           checkAlertsInterval: environment.monitoring.checkAlertsInterval
         },
         alerts: {
@@ -4,10 +4,32 @@ import { twitterRoutes } from './twitter.js'
 import { DatabaseManager } from '../database/schema.js'
 import { dataSourceManager } from '../services/data-source-manager.js'
 import { TwitterAPIService } from '../services/twitter-api.js'
+import { rowToBondingCurveState } from '../services/bonding-curve.js'
+import type { SubscriptionReason } from '../services/subscription-manager.js'
+import { queryCandles, isCandleInterval } from '../services/candle-aggregator.js'
+import type { CandleAggregator } from '../services/candle-aggregator.js'
+import { queryLatestIndicatorSnapshots, toTechnicalIndicators } from '../services/technical-indicators.js'
+import { getSolPriceProvider } from '../services/sol-price.js'
+import { queryHolderAnalysis, queryHolders, queryHolderSnapshots } from '../services/holder-ledger.js'
+import { querySniperRisks, querySniperStats, querySnipers } from '../services/sniper-detector.js'
+import { queryBundledPercentages, queryBundleStats, queryBundledWallets } from '../services/bundle-detector.js'
+import { queryDevHolding } from '../services/dev-tracker.js'
+import { queryCreatorLaunches, queryCreatorProfile } from '../services/creator-reputation.js'
+import { queryLatestRiskAssessment, queryRiskAssessments } from '../services/risk-engine.js'
+import { queryVolumeAuthenticities, queryWashTradeStats } from '../services/wash-trade-detector.js'
+import { queryCopycatInfo, queryCopycats } from '../services/copycat-detector.js'
 import type { TokenInfo, PriceData, TradingData, Alert } from '../../../shared/types/index.js'
 import { enhancedErrorHandler } from '../utils/enhanced-error-handler.js'
 
-export async function registerRoutes(fastify: FastifyInstance, db: DatabaseManager, twitterService?: TwitterAPIService | null) {
+export async function registerRoutes(
+  fastify: FastifyInstance,
+  db: DatabaseManager,
+  twitterService?: TwitterAPIService | null,
+  candleAggregator?: CandleAggregator
+) {
+  // SOL 计价的数值同时返回按事件时间汇率换算的美元值
+  const solPrice = getSolPriceProvider()
+  
   // 注册监控路由
   await registerMonitoringRoutes(fastify)
   
@@ -41,6 +63,112 @@ export async function registerRoutes(fastify: FastifyInstance, db: DatabaseManag
     }
   })
 
+  // SOL/USD 汇率（当前值与历史，from/to 为 ISO 时间或毫秒时间戳）
+  fastify.get('/api/sol-price', async (request, reply) => {
+    try {
+      const query = request.query as { from?: string, to?: string, limit?: string }
+      const parseTime = (value?: string): Date | undefined => {
+        if (!value) return undefined
+        const date = /^\d+$/.test(value) ? new Date(parseInt(value)) : new Date(value)
+        return isNaN(date.getTime()) ? undefined : date
+      }
+      
+      return {
+        success: true,
+        data: {
+          ...solPrice.getStatus(),
+          history: solPrice.getHistory({
+            from: parseTime(query.from),
+            to: parseTime(query.to),
+            limit: Math.min(parseInt(query.limit || '1440') || 1440, 10000)
+          })
+        }
+      }
+    } catch (error) {
+      await enhancedErrorHandler.handleError(error as Error, 'GET /api/sol-price')
+      reply.code(500)
+      return {
+        success: false,
+        error: 'Failed to fetch SOL price'
+      }
+    }
+  })
+
+  // 代币交易订阅列表
+  fastify.get('/api/subscriptions', async (request, reply) => {
+    try {
+      const { reason } = request.query as { reason?: SubscriptionReason }
+      return {
+        success: true,
+        data: {
+          stats: dataSourceManager.getSubscriptionStats(),
+          subscriptions: dataSourceManager.getSubscriptions(reason)
+        }
+      }
+    } catch (error) {
+      await enhancedErrorHandler.handleError(error as Error, 'GET /api/subscriptions')
+      reply.code(500)
+      return {
+        success: false,
+        error: 'Failed to fetch subscriptions'
+      }
+    }
+  })
+
+  // 强制订阅代币交易（不受上限限制，不会被淘汰）
+  fastify.post('/api/subscriptions', async (request, reply) => {
+    try {
+      const { tokenAddress } = (request.body || {}) as { tokenAddress?: string }
+      if (!tokenAddress) {
+        reply.code(400)
+        return {
+          success: false,
+          error: 'tokenAddress is required'
+        }
+      }
+
+      const subscribed = dataSourceManager.subscribeTokenTrades(tokenAddress, 'manual', true)
+      return {
+        success: subscribed,
+        data: { tokenAddress, subscribed }
+      }
+    } catch (error) {
+      await enhancedErrorHandler.handleError(error as Error, 'POST /api/subscriptions')
+      reply.code(500)
+      return {
+        success: false,
+        error: 'Failed to subscribe token'
+      }
+    }
+  })
+
+  // 取消代币交易订阅
+  fastify.delete('/api/subscriptions/:address', async (request, reply) => {
+    try {
+      const { address } = request.params as { address: string }
+      const unsubscribed = dataSourceManager.unsubscribeTokenTrades(address)
+      if (!unsubscribed) {
+        reply.code(404)
+        return {
+          success: false,
+          error: 'Subscription not found'
+        }
+      }
+
+      return {
+        success: true,
+        data: { tokenAddress: address }
+      }
+    } catch (error) {
+      await enhancedErrorHandler.handleError(error as Error, 'DELETE /api/subscriptions/:address')
+      reply.code(500)
+      return {
+        success: false,
+        error: 'Failed to unsubscribe token'
+      }
+    }
+  })
+
 
 
   // 获取所有代币
@@ -52,10 +180,12 @@ export async function registerRoutes(fastify: FastifyInstance, db: DatabaseManag
         search?: string
         sortBy?: string
         sortOrder?: string
+        graduationStatus?: string
+        lifecycleState?: string
       }
       
-      const page = parseInt(query.page || '1')
-      const limit = parseInt(query.limit || '20')
+      const page = Math.max(parseInt(query.page || '1') || 1, 1)
+      const limit = Math.min(parseInt(query.limit || '20') || 20, 100)
       const offset = (page - 1) * limit
       const search = query.search || ''
       const sortBy = query.sortBy || 'created_at'
@@ -63,9 +193,9 @@ export async function registerRoutes(fastify: FastifyInstance, db: DatabaseManag
       
       const database = db.getDb()
       
-      // 构建查询条件
-      let whereClause = 'WHERE is_active = 1'
-      const params: any[] = []
+      // 构建查询条件（指定生命周期状态时可查询已停用的代币）
+      let whereClause = query.lifecycleState ? 'WHERE lifecycle_state = ?' : 'WHERE is_active = 1'
+      const params: any[] = query.lifecycleState ? [query.lifecycleState] : []
       
       if (search) {
         whereClause += ' AND (name LIKE ? OR symbol LIKE ? OR address LIKE ?)'
@@ -73,6 +203,11 @@ export async function registerRoutes(fastify: FastifyInstance, db: DatabaseManag
         params.push(searchPattern, searchPattern, searchPattern)
       }
       
+      if (query.graduationStatus) {
+        whereClause += ' AND graduation_status = ?'
+        params.push(query.graduationStatus)
+      }
+      
       // 获取总数
       const countStmt = database.prepare(`SELECT COUNT(*) as total FROM tokens ${whereClause}`)
       const countResult = countStmt.get(...params) as { total: number }
@@ -87,6 +222,12 @@ export async function registerRoutes(fastify: FastifyInstance, db: DatabaseManag
       
       const tokens = tokensStmt.all(...params, limit, offset) as any[]
       
+      // 风险指标按本页代币批量查询
+      const addresses = tokens.map(token => token.address as string)
+      const sniperRisks = querySniperRisks(db, addresses)
+      const bundledPercentages = queryBundledPercentages(db, addresses)
+      const authenticities = queryVolumeAuthenticities(db, addresses)
+      
       // 转换数据格式
       const formattedTokens = tokens.map(token => ({
         address: token.address,
@@ -97,8 +238,24 @@ export async function registerRoutes(fastify: FastifyInstance, db: DatabaseManag
         createdAt: new Date(token.created_at),
         creatorAddress: token.creator_address,
         initialLiquidity: token.initial_liquidity,
+        initialLiquidityUsd: solPrice.toUsd(token.initial_liquidity, token.created_at),
         socialLinks: token.social_links ? JSON.parse(token.social_links) : undefined,
-        isActive: Boolean(token.is_active)
+        isActive: Boolean(token.is_active),
+        description: token.description || undefined,
+        imageUri: token.image_uri || undefined,
+        metadataUri: token.metadata_uri || undefined,
+        initialMarketCapSol: token.initial_market_cap_sol ?? null,
+        initialMarketCapUsd: solPrice.toUsd(token.initial_market_cap_sol, token.first_seen_at ?? token.created_at),
+        firstSeenAt: token.first_seen_at ? new Date(token.first_seen_at) : null,
+        lifecycleState: token.lifecycle_state || 'new',
+        lastTradeAt: token.last_trade_at ? new Date(token.last_trade_at) : null,
+        graduationStatus: token.graduation_status || 'bonding',
+        graduatedAt: token.graduated_at ? new Date(token.graduated_at) : null,
+        migratedAt: token.migrated_at ? new Date(token.migrated_at) : null,
+        sniperRisk: sniperRisks.get(token.address) ?? 0,
+        bundledPercentage: bundledPercentages.get(token.address) ?? 0,
+        volumeAuthenticity: authenticities.get(token.address) ?? 1,
+        copycatOf: token.copycat_of || null
       }))
       
       return {
@@ -153,6 +310,18 @@ export async function registerRoutes(fastify: FastifyInstance, db: DatabaseManag
       `)
       const latestTrading = tradingStmt.get(address) as any
       
+      // 获取联合曲线状态（价格、市值、流动性以曲线为准）
+      const curveStmt = database.prepare('SELECT * FROM bonding_curve_state WHERE token_address = ?')
+      const curveRow = curveStmt.get(address) as any
+      const curve = curveRow ? rowToBondingCurveState(curveRow) : null
+      const price = curve ? curve.priceSol : (latestPrice?.price ?? null)
+      const priceAt = curve ? curve.updatedAt : latestPrice?.timestamp
+      const liquidity = curve ? curve.realSolReserves : (latestTrading?.liquidity ?? null)
+      const liquidityAt = curve ? curve.updatedAt : latestTrading?.timestamp
+      const sniperStats = querySniperStats(db, address)
+      const bundleStats = queryBundleStats(db, address)
+      const washStats = queryWashTradeStats(db, address)
+      
       const tokenData = {
         address: token.address,
         name: token.name,
@@ -162,10 +331,40 @@ export async function registerRoutes(fastify: FastifyInstance, db: DatabaseManag
         createdAt: new Date(token.created_at),
         creatorAddress: token.creator_address,
         initialLiquidity: token.initial_liquidity,
+        initialLiquidityUsd: solPrice.toUsd(token.initial_liquidity, token.created_at),
         socialLinks: token.social_links ? JSON.parse(token.social_links) : undefined,
         isActive: Boolean(token.is_active),
+        description: token.description || undefined,
+        imageUri: token.image_uri || undefined,
+        metadataUri: token.metadata_uri || undefined,
+        initialMarketCapSol: token.initial_market_cap_sol ?? null,
+        initialMarketCapUsd: solPrice.toUsd(token.initial_market_cap_sol, token.first_seen_at ?? token.created_at),
+        firstSeenAt: token.first_seen_at ? new Date(token.first_seen_at) : null,
+        lifecycleState: token.lifecycle_state || 'new',
+        lastTradeAt: token.last_trade_at ? new Date(token.last_trade_at) : null,
+        graduationStatus: token.graduation_status || 'bonding',
+        graduatedAt: token.graduated_at ? new Date(token.graduated_at) : null,
+        migratedAt: token.migrated_at ? new Date(token.migrated_at) : null,
+        sniperRisk: sniperStats.sniperRisk,
+        snipers: sniperStats,
+        bundledPercentage: bundleStats.bundledPercentage,
+        bundle: bundleStats,
+        dev: queryDevHolding(db, address),
+        creatorReputation: token.creator_address ? queryCreatorProfile(db, token.creator_address).reputation : null,
+        risk: queryLatestRiskAssessment(db, address),
+        volumeAuthenticity: washStats?.authenticity ?? 1,
+        washTrading: washStats,
+        copycat: queryCopycatInfo(db, address),
+        price,
+        priceUsd: solPrice.toUsd(price, priceAt),
+        marketCapSol: curve ? curve.marketCapSol : null,
+        marketCapUsd: curve ? solPrice.toUsd(curve.marketCapSol, curve.updatedAt) : null,
+        liquidity,
+        liquidityUsd: solPrice.toUsd(liquidity, liquidityAt),
+        bondingCurve: curve,
         latestPrice: latestPrice ? {
-          price: latestPrice.price,
+          price,
+          priceUsd: solPrice.toUsd(price, priceAt),
           priceChange1m: latestPrice.price_change_1m,
           priceChange5m: latestPrice.price_change_5m,
           priceChange15m: latestPrice.price_change_15m,
@@ -175,10 +374,12 @@ export async function registerRoutes(fastify: FastifyInstance, db: DatabaseManag
         } : null,
         latestTrading: latestTrading ? {
           volume24h: latestTrading.volume_24h,
+          volume24hUsd: solPrice.toUsd(latestTrading.volume_24h, latestTrading.timestamp),
           volumeChange: latestTrading.volume_change,
           txCount24h: latestTrading.tx_count_24h,
           activeTraders: latestTrading.active_traders,
-          liquidity: latestTrading.liquidity,
+          liquidity,
+          liquidityUsd: solPrice.toUsd(liquidity, liquidityAt),
           liquidityChange: latestTrading.liquidity_change,
           timestamp: new Date(latestTrading.timestamp)
         } : null
@@ -246,6 +447,7 @@ export async function registerRoutes(fastify: FastifyInstance, db: DatabaseManag
       const formattedData = priceData.map(data => ({
         tokenAddress: data.token_address,
         price: data.price,
+        priceUsd: solPrice.toUsd(data.price, data.timestamp),
         priceChange1m: data.price_change_1m,
         priceChange5m: data.price_change_5m,
         priceChange15m: data.price_change_15m,
@@ -311,10 +513,12 @@ export async function registerRoutes(fastify: FastifyInstance, db: DatabaseManag
       const formattedData = tradingData.map(data => ({
         tokenAddress: data.token_address,
         volume24h: data.volume_24h,
+        volume24hUsd: solPrice.toUsd(data.volume_24h, data.timestamp),
         volumeChange: data.volume_change,
         txCount24h: data.tx_count_24h,
         activeTraders: data.active_traders,
         liquidity: data.liquidity,
+        liquidityUsd: solPrice.toUsd(data.liquidity, data.timestamp),
         liquidityChange: data.liquidity_change,
         timestamp: new Date(data.timestamp)
       }))
@@ -334,6 +538,284 @@ export async function registerRoutes(fastify: FastifyInstance, db: DatabaseManag
     }
   })
 
+  // 获取代币K线（interval: 1s/1m/5m/15m/1h/4h，from/to 为 ISO 时间或毫秒时间戳）
+  fastify.get('/api/tokens/:address/candles', async (request, reply) => {
+    try {
+      const { address } = request.params as { address: string }
+      const query = request.query as { interval?: string, from?: string, to?: string, limit?: string }
+      const interval = query.interval || '1m'
+      
+      if (!isCandleInterval(interval)) {
+        reply.code(400)
+        return {
+          success: false,
+          error: 'Invalid interval, expected one of 1s, 1m, 5m, 15m, 1h, 4h'
+        }
+      }
+      
+      const parseTime = (value?: string): Date | undefined => {
+        if (!value) return undefined
+        const date = /^\d+$/.test(value) ? new Date(parseInt(value)) : new Date(value)
+        return isNaN(date.getTime()) ? undefined : date
+      }
+      
+      const options = {
+        from: parseTime(query.from),
+        to: parseTime(query.to),
+        limit: Math.min(parseInt(query.limit || '500') || 500, 2000)
+      }
+      // 经聚合器查询会先写入该代币未落库的增量，最新一根K线不会滞后
+      const candles = candleAggregator
+        ? candleAggregator.getCandles(address, interval, options)
+        : queryCandles(db, address, interval, options)
+      
+      // 按每根K线开盘时的汇率换算美元
+      const data = candles.map(candle => {
+        const rate = solPrice.getPriceAt(candle.openTime)
+        return {
+          ...candle,
+          openUsd: candle.open * rate,
+          highUsd: candle.high * rate,
+          lowUsd: candle.low * rate,
+          closeUsd: candle.close * rate,
+          volumeUsd: candle.volumeSol * rate,
+          buyVolumeUsd: candle.buyVolumeSol * rate,
+          sellVolumeUsd: candle.sellVolumeSol * rate
+        }
+      })
+      
+      return {
+        success: true,
+        data
+      }
+    } catch (error) {
+      await enhancedErrorHandler.handleError(error as Error, `GET /api/tokens/${request.params}/candles`)
+      reply.code(500)
+      return {
+        success: false,
+        error: 'Failed to fetch candles'
+      }
+    }
+  })
+
+  // 获取代币持币分析（limit 为持有人数量，history 为快照数量）
+  fastify.get('/api/tokens/:address/holders', async (request, reply) => {
+    try {
+      const { address } = request.params as { address: string }
+      const query = request.query as { limit?: string, history?: string }
+      
+      const token = db.getDb().prepare('SELECT address FROM tokens WHERE address = ?').get(address)
+      if (!token) {
+        reply.code(404)
+        return {
+          success: false,
+          error: 'Token not found'
+        }
+      }
+      
+      return {
+        success: true,
+        data: {
+          analysis: queryHolderAnalysis(db, address),
+          holders: queryHolders(db, address, Math.min(parseInt(query.limit || '20') || 20, 200)),
+          snapshots: queryHolderSnapshots(db, address, {
+            limit: Math.min(parseInt(query.history || '100') || 100, 1000)
+          })
+        }
+      }
+    } catch (error) {
+      await enhancedErrorHandler.handleError(error as Error, `GET /api/tokens/${request.params}/holders`)
+      reply.code(500)
+      return {
+        success: false,
+        error: 'Failed to fetch holders'
+      }
+    }
+  })
+
+  // 获取代币的狙击钱包及其出货情况
+  fastify.get('/api/tokens/:address/snipers', async (request, reply) => {
+    try {
+      const { address } = request.params as { address: string }
+      
+      return {
+        success: true,
+        data: {
+          stats: querySniperStats(db, address),
+          snipers: querySnipers(db, address)
+        }
+      }
+    } catch (error) {
+      await enhancedErrorHandler.handleError(error as Error, `GET /api/tokens/${request.params}/snipers`)
+      reply.code(500)
+      return {
+        success: false,
+        error: 'Failed to fetch snipers'
+      }
+    }
+  })
+
+  // 获取代币发射阶段的捆绑钱包
+  fastify.get('/api/tokens/:address/bundles', async (request, reply) => {
+    try {
+      const { address } = request.params as { address: string }
+      
+      return {
+        success: true,
+        data: {
+          stats: queryBundleStats(db, address),
+          wallets: queryBundledWallets(db, address)
+        }
+      }
+    } catch (error) {
+      await enhancedErrorHandler.handleError(error as Error, `GET /api/tokens/${request.params}/bundles`)
+      reply.code(500)
+      return {
+        success: false,
+        error: 'Failed to fetch bundles'
+      }
+    }
+  })
+
+  // 获取代币风险评估历史（limit 为返回的评估条数）
+  fastify.get('/api/tokens/:address/risk', async (request, reply) => {
+    try {
+      const { address } = request.params as { address: string }
+      const query = request.query as { limit?: string }
+      
+      const history = queryRiskAssessments(db, address, Math.min(parseInt(query.limit || '100') || 100, 1000))
+      
+      return {
+        success: true,
+        data: {
+          latest: history[0] ?? null,
+          history
+        }
+      }
+    } catch (error) {
+      await enhancedErrorHandler.handleError(error as Error, `GET /api/tokens/${request.params}/risk`)
+      reply.code(500)
+      return {
+        success: false,
+        error: 'Failed to fetch risk assessments'
+      }
+    }
+  })
+
+  // 获取被标记为仿冒该代币的代币
+  fastify.get('/api/tokens/:address/copycats', async (request, reply) => {
+    try {
+      const { address } = request.params as { address: string }
+      const query = request.query as { limit?: string }
+      
+      return {
+        success: true,
+        data: {
+          copycatOf: queryCopycatInfo(db, address),
+          copycats: queryCopycats(db, address, Math.min(parseInt(query.limit || '50') || 50, 500))
+        }
+      }
+    } catch (error) {
+      await enhancedErrorHandler.handleError(error as Error, `GET /api/tokens/${request.params}/copycats`)
+      reply.code(500)
+      return {
+        success: false,
+        error: 'Failed to fetch copycats'
+      }
+    }
+  })
+
+  // 获取代币生命周期变更历史
+  fastify.get('/api/tokens/:address/lifecycle', async (request, reply) => {
+    try {
+      const { address } = request.params as { address: string }
+      const query = request.query as { limit?: string }
+      const limit = Math.min(parseInt(query.limit || '50') || 50, 500)
+      
+      const database = db.getDb()
+      
+      const tokenStmt = database.prepare('SELECT lifecycle_state, last_trade_at FROM tokens WHERE address = ?')
+      const token = tokenStmt.get(address) as any
+      
+      if (!token) {
+        reply.code(404)
+        return {
+          success: false,
+          error: 'Token not found'
+        }
+      }
+      
+      const historyStmt = database.prepare(`
+        SELECT * FROM token_lifecycle_history 
+        WHERE token_address = ? 
+        ORDER BY timestamp DESC 
+        LIMIT ?
+      `)
+      const history = historyStmt.all(address, limit) as any[]
+      
+      return {
+        success: true,
+        data: {
+          tokenAddress: address,
+          lifecycleState: token.lifecycle_state || 'new',
+          lastTradeAt: token.last_trade_at ? new Date(token.last_trade_at) : null,
+          history: history.map(row => ({
+            fromState: row.from_state,
+            toState: row.to_state,
+            reason: row.reason,
+            timestamp: new Date(row.timestamp)
+          }))
+        }
+      }
+    } catch (error) {
+      await enhancedErrorHandler.handleError(error as Error, `GET /api/tokens/${request.params}/lifecycle`)
+      reply.code(500)
+      return {
+        success: false,
+        error: 'Failed to fetch token lifecycle'
+      }
+    }
+  })
+
+  // 获取创建者信誉档案（基于其发过的全部代币，limit 为返回的发币记录数）
+  fastify.get('/api/creators/:address', async (request, reply) => {
+    try {
+      const { address } = request.params as { address: string }
+      const query = request.query as { limit?: string }
+      
+      const profile = queryCreatorProfile(db, address)
+      if (profile.launchCount === 0) {
+        reply.code(404)
+        return {
+          success: false,
+          error: 'Creator not found'
+        }
+      }
+      
+      const launches = queryCreatorLaunches(db, address, Math.min(parseInt(query.limit || '50') || 50, 500))
+      
+      return {
+        success: true,
+        data: {
+          ...profile,
+          // 峰值出现时间未记录，按当前汇率换算
+          medianPeakMarketCapUsd: solPrice.toUsd(profile.medianPeakMarketCapSol),
+          launches: launches.map(launch => ({
+            ...launch,
+            peakMarketCapUsd: solPrice.toUsd(launch.peakMarketCapSol)
+          }))
+        }
+      }
+    } catch (error) {
+      await enhancedErrorHandler.handleError(error as Error, `GET /api/creators/${request.params}`)
+      reply.code(500)
+      return {
+        success: false,
+        error: 'Failed to fetch creator profile'
+      }
+    }
+  })
+
   // 获取预警列表
   fastify.get('/api/alerts', async (request, reply) => {
     try {
@@ -535,6 +1017,7 @@ export async function registerRoutes(fastify: FastifyInstance, db: DatabaseManag
         amount: row.amount,
         price: row.price,
         valueSol: row.value_sol,
+        valueUsd: solPrice.toUsd(row.value_sol, row.timestamp),
         timestamp: new Date(row.timestamp),
         profitLoss: row.profit_loss,
         holdingPeriod: row.holding_period
@@ -610,20 +1093,13 @@ export async function registerRoutes(fastify: FastifyInstance, db: DatabaseManag
    fastify.get('/api/analysis/:tokenAddress', async (request, reply) => {
      try {
        const { tokenAddress } = request.params as { tokenAddress: string }
+       const { timeframe = '5m' } = request.query as { timeframe?: string }
        
-       // 获取技术指标数据
-       const database = db.getDb()
-       const techStmt = database.prepare(`
-         SELECT *
-         FROM technical_indicators 
-         WHERE token_address = ? 
-         ORDER BY timestamp DESC
-         LIMIT 1
-       `)
-       
-       const techRow = techStmt.get(tokenAddress) as any
+       // 获取各周期最新的技术指标，指定周期不存在时取最短周期
+       const snapshots = queryLatestIndicatorSnapshots(db, tokenAddress)
+       const snapshot = snapshots.find(item => item.timeframe === timeframe) || snapshots[0]
        
-       if (!techRow) {
+       if (!snapshot) {
          return {
            success: true,
            data: null,
@@ -631,27 +1107,41 @@ export async function registerRoutes(fastify: FastifyInstance, db: DatabaseManag
          }
        }
        
+       const indicators = toTechnicalIndicators(snapshot)
+       const net = indicators.reduce((sum, indicator) =>
+         sum + (indicator.signal === 'buy' ? 1 : indicator.signal === 'sell' ? -1 : 0), 0)
+       
        const analysisData = {
-         tokenAddress: techRow.token_address,
+         tokenAddress: snapshot.tokenAddress,
+         timeframe: snapshot.timeframe,
+         availableTimeframes: snapshots.map(item => item.timeframe),
          technicalIndicators: {
-           rsi: techRow.rsi,
-           macd: techRow.macd,
-           macdSignal: techRow.macd_signal,
-           macdHistogram: techRow.macd_histogram,
-           bollingerUpper: techRow.bollinger_upper,
-           bollingerMiddle: techRow.bollinger_middle,
-           bollingerLower: techRow.bollinger_lower,
-           sma20: techRow.sma_20,
-           sma50: techRow.sma_50,
-           ema12: techRow.ema_12,
-           ema26: techRow.ema_26,
-           volume: techRow.volume,
-           volumeAvg: techRow.volume_avg
+           rsi: snapshot.rsi14,
+           macd: snapshot.macdLine,
+           macdSignal: snapshot.macdSignal,
+           macdHistogram: snapshot.macdHistogram,
+           bollingerUpper: snapshot.bbUpper,
+           bollingerMiddle: snapshot.bbMiddle,
+           bollingerLower: snapshot.bbLower,
+           sma20: snapshot.priceSma20,
+           ema12: snapshot.priceEma12,
+           ema26: snapshot.priceEma26,
+           close: snapshot.close,
+           volume: snapshot.volume,
+           volumeAvg: snapshot.volumeSma20,
+           support: snapshot.support,
+           resistance: snapshot.resistance
          },
-         signals: JSON.parse(techRow.signals || '[]'),
-         overallSignal: techRow.overall_signal,
-         confidenceLevel: techRow.confidence_level,
-         timestamp: new Date(techRow.timestamp)
+         signals: indicators.map(indicator => ({
+           type: indicator.indicatorType,
+           signal: indicator.signal,
+           strength: indicator.strength
+         })),
+         overallSignal: net > 0 ? 'buy' : net < 0 ? 'sell' : 'hold',
+         confidenceLevel: indicators.length > 0
+           ? indicators.reduce((sum, indicator) => sum + indicator.strength, 0) / indicators.length
+           : 0,
+         timestamp: snapshot.timestamp
        }
        
        return {
@@ -793,6 +1283,7 @@ export async function registerRoutes(fastify: FastifyInstance, db: DatabaseManag
            activeTokens: activeTokensResult.count,
            goldenDogs: goldenDogsResult.count,
            totalVolume: totalVolumeResult.total,
+           totalVolumeUsd: solPrice.toUsd(totalVolumeResult.total),
            avgPrice: 0, // 暂时设为0，因为需要更复杂的计算
            priceChange24h: avgPriceChangeResult.avg
          }
@@ -3,8 +3,29 @@ export interface APIConfig {
   pumpportal: {
     websocketUrl: string
     enabled: boolean
-    reconnectAttempts: number
-    reconnectDelay: number
+    reconnectDelay: number // 首次重连等待，之后指数退避
+    maxReconnectDelay: number
+    staleTimeout: number // 超过该时长无消息视为连接停滞
+    recorder: {
+      enabled: boolean
+      dir: string
+      maxFileSize: number
+      maxFiles: number
+    }
+    replay: {
+      file?: string
+      speed: string
+    }
+    ingestion: {
+      batchSize: number
+      flushInterval: number
+      maxQueueSize: number
+    }
+    subscriptions: {
+      maxSubscriptions: number
+      idleTimeout: number
+      sweepInterval: number
+    }
   }
   jupiter: {
     baseUrl: string
@@ -23,8 +44,28 @@ export const defaultConfig: APIConfig = {
   pumpportal: {
     websocketUrl: 'wss://pumpportal.fun/api/data',
     enabled: true,
-    reconnectAttempts: 5,
-    reconnectDelay: 5000
+    reconnectDelay: 1000,
+    maxReconnectDelay: 60000,
+    staleTimeout: 30000,
+    recorder: {
+      enabled: false,
+      dir: './data/captures',
+      maxFileSize: 50 * 1024 * 1024, // 50MB
+      maxFiles: 48
+    },
+    replay: {
+      speed: '1'
+    },
+    ingestion: {
+      batchSize: 500,
+      flushInterval: 250, // 毫秒
+      maxQueueSize: 50000
+    },
+    subscriptions: {
+      maxSubscriptions: 2000,
+      idleTimeout: 30 * 60 * 1000, // 30分钟
+      sweepInterval: 60 * 1000
+    }
   },
   jupiter: {
     baseUrl: 'https://lite-api.jup.ag/v4',
@@ -46,7 +87,30 @@ export const getConfig = (): APIConfig => {
     pumpportal: {
       ...defaultConfig.pumpportal,
       websocketUrl: process.env.PUMPPORTAL_WS_URL || defaultConfig.pumpportal.websocketUrl,
-      enabled: process.env.PUMPPORTAL_ENABLED !== 'false'
+      enabled: process.env.PUMPPORTAL_ENABLED !== 'false',
+      reconnectDelay: parseInt(process.env.PUMPPORTAL_RECONNECT_DELAY || '') || defaultConfig.pumpportal.reconnectDelay,
+      maxReconnectDelay: parseInt(process.env.PUMPPORTAL_MAX_RECONNECT_DELAY || '') || defaultConfig.pumpportal.maxReconnectDelay,
+      staleTimeout: parseInt(process.env.PUMPPORTAL_STALE_TIMEOUT || '') || defaultConfig.pumpportal.staleTimeout,
+      recorder: {
+        enabled: process.env.PUMPPORTAL_RECORD === 'true',
+        dir: process.env.PUMPPORTAL_RECORD_DIR || defaultConfig.pumpportal.recorder.dir,
+        maxFileSize: parseInt(process.env.PUMPPORTAL_RECORD_MAX_FILE_SIZE || '') || defaultConfig.pumpportal.recorder.maxFileSize,
+        maxFiles: parseInt(process.env.PUMPPORTAL_RECORD_MAX_FILES || '') || defaultConfig.pumpportal.recorder.maxFiles
+      },
+      replay: {
+        file: process.env.PUMPPORTAL_REPLAY_FILE || undefined,
+        speed: process.env.PUMPPORTAL_REPLAY_SPEED || defaultConfig.pumpportal.replay.speed
+      },
+      ingestion: {
+        batchSize: parseInt(process.env.PUMPPORTAL_TRADE_BATCH_SIZE || '') || defaultConfig.pumpportal.ingestion.batchSize,
+        flushInterval: parseInt(process.env.PUMPPORTAL_TRADE_FLUSH_INTERVAL || '') || defaultConfig.pumpportal.ingestion.flushInterval,
+        maxQueueSize: parseInt(process.env.PUMPPORTAL_TRADE_QUEUE_SIZE || '') || defaultConfig.pumpportal.ingestion.maxQueueSize
+      },
+      subscriptions: {
+        ...defaultConfig.pumpportal.subscriptions,
+        maxSubscriptions: parseInt(process.env.PUMPPORTAL_MAX_SUBSCRIPTIONS || '') || defaultConfig.pumpportal.subscriptions.maxSubscriptions,
+        idleTimeout: parseInt(process.env.PUMPPORTAL_SUBSCRIPTION_IDLE_TIMEOUT || '') || defaultConfig.pumpportal.subscriptions.idleTimeout
+      }
     },
     jupiter: {
       ...defaultConfig.jupiter,
@@ -25,6 +25,11 @@ export interface EnvironmentConfig {
       baseUrl: string
       cacheDuration: number
     }
+    solPrice: {
+      source: 'jupiter' | 'static' // static 时不请求网络，只使用本地历史与固定价格
+      refreshInterval: number // SOL/USD 刷新间隔（毫秒）
+      fallbackPrice: number // 没有任何历史价格时使用的 SOL/USD
+    }
     solana: {
       rpcUrl: string
       commitment: string
@@ -37,6 +42,22 @@ export interface EnvironmentConfig {
     updatePriceInterval: number
     updateTradingInterval: number
     checkAlertsInterval: number
+    lifecycleCheckInterval: number
+    tokenDormantAfter: number // 无交易多久后标记为休眠（毫秒）
+    tokenDeadAfter: number // 无交易多久后标记为死亡（毫秒）
+    candleFlushInterval: number
+    candleRetention1s: number // 秒级K线保留时长（毫秒）
+    metricsCheckpointInterval: number // 窗口指标写入数据库的间隔（毫秒）
+    priceSampleInterval: number // 毕业代币 Jupiter 价格采样间隔（毫秒）
+    priceSampleRetention: number // 价格采样保留时长（毫秒）
+    holderSnapshotInterval: number // 持币分析快照间隔（毫秒）
+    holderWhalePercent: number // 持仓占总供应量达到该百分比视为巨鲸
+    sniperWindow: number // 代币创建后该时长内的买入视为狙击（毫秒）
+    bundleEarlyTrades: number // 在创建后的前多少笔交易中识别捆绑买入
+    bundleTimeTolerance: number // 相隔不超过该时长的买入视为同一时刻（毫秒）
+    riskAssessmentRetention: number // 风险评估历史保留时长（毫秒）
+    washTradeWindow: number // 买入后该时长内的相近金额卖出视为一次往返（毫秒）
+    washAnalysisInterval: number // 对倒检测间隔（毫秒）
   }
   
   // 预警阈值配置
@@ -50,7 +71,25 @@ export interface EnvironmentConfig {
     risk: {
       priceDrop5m: number
       volumeDrop: number
-      liquidityDrop: number
+      liquidityDrop: number // 曲线储备较峰值减少该数量（SOL）视为流动性流失
+      highRiskScore: number // 综合风险达到该值发出高风险预警
+      mediumRiskScore: number // 综合风险达到该值发出中风险预警
+    }
+    graduation: {
+      nearProgress: number
+    }
+    bundle: {
+      supplyPercent: number // 捆绑买入占供应量达到该百分比时发出高风险预警
+    }
+    dev: {
+      minSellPercent: number // 开发者单次卖出达到持仓的该百分比时预警（清仓总是预警）
+    }
+    abnormal: {
+      zScore: number // 成交量、成交笔数偏离自身基线的 z 分数阈值
+      priceImpact: number // 单笔交易造成的价格变动（%）
+    }
+    copycat: {
+      similarity: number // 名称、代号归一化后的相似度（0-1）达到该值视为相近
     }
   }
   
@@ -168,6 +207,11 @@ export const environment: EnvironmentConfig = {
       baseUrl: getEnvVar('JUPITER_API_URL', 'https://lite-api.jup.ag/v4'),
       cacheDuration: getEnvNumber('JUPITER_CACHE_DURATION', 30000)
     },
+    solPrice: {
+      source: getEnvVar('SOL_PRICE_SOURCE', 'jupiter') === 'static' ? 'static' : 'jupiter',
+      refreshInterval: getEnvNumber('SOL_PRICE_REFRESH_INTERVAL', 60000),
+      fallbackPrice: getEnvNumber('SOL_PRICE_FALLBACK', 150)
+    },
     solana: {
       rpcUrl: getEnvVar('SOLANA_RPC_URL', 'https://api.mainnet-beta.solana.com'),
       commitment: getEnvVar('SOLANA_COMMITMENT', 'confirmed')
@@ -178,7 +222,23 @@ export const environment: EnvironmentConfig = {
     scanNewTokensInterval: getEnvNumber('SCAN_NEW_TOKENS_INTERVAL', 30000),
     updatePriceInterval: getEnvNumber('UPDATE_PRICE_INTERVAL', 120000),
     updateTradingInterval: getEnvNumber('UPDATE_TRADING_INTERVAL', 300000),
-    checkAlertsInterval: getEnvNumber('CHECK_ALERTS_INTERVAL', 30000)
+    checkAlertsInterval: getEnvNumber('CHECK_ALERTS_INTERVAL', 30000),
+    lifecycleCheckInterval: getEnvNumber('LIFECYCLE_CHECK_INTERVAL', 60000),
+    tokenDormantAfter: getEnvNumber('TOKEN_DORMANT_AFTER', 30 * 60 * 1000),
+    tokenDeadAfter: getEnvNumber('TOKEN_DEAD_AFTER', 24 * 60 * 60 * 1000),
+    candleFlushInterval: getEnvNumber('CANDLE_FLUSH_INTERVAL', 1000),
+    candleRetention1s: getEnvNumber('CANDLE_RETENTION_1S', 6 * 60 * 60 * 1000),
+    metricsCheckpointInterval: getEnvNumber('METRICS_CHECKPOINT_INTERVAL', 30000),
+    priceSampleInterval: getEnvNumber('PRICE_SAMPLE_INTERVAL', 60000),
+    priceSampleRetention: getEnvNumber('PRICE_SAMPLE_RETENTION', 48 * 60 * 60 * 1000),
+    holderSnapshotInterval: getEnvNumber('HOLDER_SNAPSHOT_INTERVAL', 60000),
+    holderWhalePercent: getEnvNumber('HOLDER_WHALE_PERCENT', 1),
+    sniperWindow: getEnvNumber('SNIPER_WINDOW', 5000),
+    bundleEarlyTrades: getEnvNumber('BUNDLE_EARLY_TRADES', 30),
+    bundleTimeTolerance: getEnvNumber('BUNDLE_TIME_TOLERANCE', 400),
+    riskAssessmentRetention: getEnvNumber('RISK_ASSESSMENT_RETENTION', 24 * 60 * 60 * 1000),
+    washTradeWindow: getEnvNumber('WASH_TRADE_WINDOW', 5 * 60 * 1000),
+    washAnalysisInterval: getEnvNumber('WASH_ANALYSIS_INTERVAL', 5 * 60 * 1000)
   },
   
   alerts: {
@@ -191,7 +251,25 @@ export const environment: EnvironmentConfig = {
     risk: {
       priceDrop5m: getEnvNumber('RISK_PRICE_DROP_5M', -30),
       volumeDrop: getEnvNumber('RISK_VOLUME_DROP', -50),
-      liquidityDrop: getEnvNumber('RISK_LIQUIDITY_DROP', 5)
+      liquidityDrop: getEnvNumber('RISK_LIQUIDITY_DROP', 5),
+      highRiskScore: getEnvNumber('RISK_HIGH_SCORE', 70),
+      mediumRiskScore: getEnvNumber('RISK_MEDIUM_SCORE', 50)
+    },
+    graduation: {
+      nearProgress: getEnvNumber('GRADUATION_NEAR_PROGRESS', 90)
+    },
+    bundle: {
+      supplyPercent: getEnvNumber('BUNDLE_ALERT_SUPPLY_PERCENT', 15)
+    },
+    dev: {
+      minSellPercent: getEnvNumber('DEV_SELL_ALERT_PERCENT', 10)
+    },
+    abnormal: {
+      zScore: getEnvNumber('ABNORMAL_ZSCORE', 3),
+      priceImpact: getEnvNumber('ABNORMAL_PRICE_IMPACT', 15)
+    },
+    copycat: {
+      similarity: getEnvNumber('COPYCAT_SIMILARITY', 0.85)
     }
   },
   
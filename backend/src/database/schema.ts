@@ -25,6 +25,19 @@ export class DatabaseManager {
         initial_liquidity REAL NOT NULL,
         social_links TEXT,
         is_active BOOLEAN DEFAULT 1,
+        graduation_status TEXT DEFAULT 'bonding', -- 'bonding', 'near_graduation', 'graduated', 'migrated'
+        graduated_at DATETIME,
+        migrated_at DATETIME,
+        lifecycle_state TEXT DEFAULT 'new', -- 'new', 'trading', 'near_graduation', 'graduated', 'dormant', 'dead'
+        last_trade_at DATETIME,
+        description TEXT,
+        image_uri TEXT,
+        metadata_uri TEXT,
+        initial_market_cap_sol REAL,
+        first_seen_at DATETIME,
+        copycat_of TEXT, -- 疑似仿冒的原始代币地址
+        copycat_similarity REAL,
+        copycat_reasons TEXT, -- JSON 数组
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )
     `)
@@ -166,6 +179,9 @@ export class DatabaseManager {
       CREATE TABLE IF NOT EXISTS technical_indicators (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         token_address TEXT NOT NULL,
+        timeframe TEXT, -- K线周期 '1m', '5m', '15m', '1h', '4h'
+        close_price REAL,
+        volume REAL, -- 最新K线成交量（SOL）
         rsi_14 REAL,
         macd_line REAL,
         macd_signal REAL,
@@ -231,23 +247,251 @@ export class DatabaseManager {
         sol_amount REAL NOT NULL,
         token_amount REAL NOT NULL,
         price_per_token REAL NOT NULL,
-        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP, -- 交易发生时间（事件时间）
+        received_at DATETIME, -- 本地接收时间
+        FOREIGN KEY (token_address) REFERENCES tokens (address)
+      )
+    `)
+
+    // 联合曲线状态表（每个代币一行，随交易更新）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS bonding_curve_state (
+        token_address TEXT PRIMARY KEY,
+        virtual_sol_reserves REAL NOT NULL,
+        virtual_token_reserves REAL NOT NULL,
+        real_sol_reserves REAL NOT NULL,
+        real_token_reserves REAL NOT NULL,
+        price_sol REAL NOT NULL,
+        market_cap_sol REAL NOT NULL,
+        progress REAL NOT NULL, -- 毕业进度 0-100
+        peak_market_cap_sol REAL, -- 曲线上出现过的最高市值
+        updated_at DATETIME NOT NULL,
+        FOREIGN KEY (token_address) REFERENCES tokens (address)
+      )
+    `)
+
+    // 代币生命周期变更记录表
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS token_lifecycle_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        token_address TEXT NOT NULL,
+        from_state TEXT NOT NULL,
+        to_state TEXT NOT NULL,
+        reason TEXT,
+        timestamp DATETIME NOT NULL,
+        FOREIGN KEY (token_address) REFERENCES tokens (address)
+      )
+    `)
+
+    // K线表（由交易增量聚合，first/last_trade_at 用于乱序交易合并开收盘价）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS candles (
+        token_address TEXT NOT NULL,
+        interval TEXT NOT NULL, -- '1s', '1m', '5m', '15m', '1h', '4h'
+        open_time DATETIME NOT NULL,
+        open REAL NOT NULL,
+        high REAL NOT NULL,
+        low REAL NOT NULL,
+        close REAL NOT NULL,
+        volume_sol REAL DEFAULT 0,
+        volume_token REAL DEFAULT 0,
+        buy_volume_sol REAL DEFAULT 0,
+        sell_volume_sol REAL DEFAULT 0,
+        buy_count INTEGER DEFAULT 0,
+        sell_count INTEGER DEFAULT 0,
+        first_trade_at DATETIME NOT NULL,
+        last_trade_at DATETIME NOT NULL,
+        PRIMARY KEY (token_address, interval, open_time),
+        FOREIGN KEY (token_address) REFERENCES tokens (address)
+      )
+    `)
+
+    // 价格采样表（毕业后的代币定期采样 Jupiter 价格）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS price_samples (
+        token_address TEXT NOT NULL,
+        price REAL NOT NULL,
+        source TEXT NOT NULL, -- 'jupiter'
+        timestamp DATETIME NOT NULL,
+        PRIMARY KEY (token_address, timestamp),
+        FOREIGN KEY (token_address) REFERENCES tokens (address)
+      )
+    `)
+
+    // SOL/USD 历史汇率（按事件时间换算美元）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sol_price_history (
+        timestamp DATETIME PRIMARY KEY,
+        price_usd REAL NOT NULL,
+        source TEXT NOT NULL -- 'jupiter'
+      )
+    `)
+
+    // 持仓账本（由交易记录重建的每个钱包余额）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS token_holders (
+        token_address TEXT NOT NULL,
+        wallet_address TEXT NOT NULL,
+        balance REAL NOT NULL DEFAULT 0,
+        bought_tokens REAL DEFAULT 0,
+        sold_tokens REAL DEFAULT 0,
+        buy_count INTEGER DEFAULT 0,
+        sell_count INTEGER DEFAULT 0,
+        first_acquired_at DATETIME, -- 首次买入时间
+        last_trade_at DATETIME NOT NULL,
+        PRIMARY KEY (token_address, wallet_address),
         FOREIGN KEY (token_address) REFERENCES tokens (address)
       )
     `)
 
+    // 持币分析快照
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS holder_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        token_address TEXT NOT NULL,
+        total_holders INTEGER NOT NULL,
+        new_holders_5m INTEGER DEFAULT 0,
+        new_holders_1h INTEGER DEFAULT 0,
+        new_holders_24h INTEGER DEFAULT 0,
+        holder_growth_rate REAL DEFAULT 0,
+        top10_percentage REAL DEFAULT 0,
+        top20_percentage REAL DEFAULT 0,
+        gini_coefficient REAL DEFAULT 0,
+        whale_count INTEGER DEFAULT 0,
+        bonding_curve_balance REAL DEFAULT 0,
+        bonding_curve_percentage REAL DEFAULT 0,
+        timestamp DATETIME NOT NULL,
+        FOREIGN KEY (token_address) REFERENCES tokens (address)
+      )
+    `)
+
+    // 狙击钱包（代币创建后狙击窗口内买入的钱包，当前持仓取自 token_holders）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS token_snipers (
+        token_address TEXT NOT NULL,
+        wallet_address TEXT NOT NULL,
+        first_buy_at DATETIME NOT NULL,
+        delay_ms INTEGER NOT NULL, -- 首次买入距创建的毫秒数
+        bought_tokens REAL NOT NULL DEFAULT 0, -- 狙击窗口内买入的数量
+        PRIMARY KEY (token_address, wallet_address),
+        FOREIGN KEY (token_address) REFERENCES tokens (address)
+      )
+    `)
+
+    // 捆绑钱包（发射阶段同一时刻、金额相近买入的多个钱包，当前持仓取自 token_holders）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS token_bundles (
+        token_address TEXT NOT NULL,
+        wallet_address TEXT NOT NULL,
+        cluster_at DATETIME NOT NULL, -- 所属捆绑簇的起始时间
+        bought_tokens REAL NOT NULL DEFAULT 0,
+        sol_amount REAL NOT NULL DEFAULT 0,
+        PRIMARY KEY (token_address, wallet_address),
+        FOREIGN KEY (token_address) REFERENCES tokens (address)
+      )
+    `)
+
+    // 开发者（创建者钱包）在自己代币上的买卖汇总
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS token_dev_activity (
+        token_address TEXT PRIMARY KEY,
+        creator_address TEXT NOT NULL,
+        initial_buy_tokens REAL NOT NULL DEFAULT 0, -- 首笔买入（通常是创建时的初始买入）
+        initial_buy_sol REAL NOT NULL DEFAULT 0,
+        initial_buy_at DATETIME,
+        bought_tokens REAL NOT NULL DEFAULT 0,
+        sold_tokens REAL NOT NULL DEFAULT 0,
+        balance REAL NOT NULL DEFAULT 0,
+        buy_count INTEGER NOT NULL DEFAULT 0,
+        sell_count INTEGER NOT NULL DEFAULT 0,
+        first_sell_at DATETIME,
+        last_sell_at DATETIME,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (token_address) REFERENCES tokens (address)
+      )
+    `)
+
+    // 风险评估历史（由风险评估引擎定期写入）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS risk_assessments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        token_address TEXT NOT NULL,
+        contract_security INTEGER NOT NULL,
+        liquidity_risk INTEGER NOT NULL,
+        whale_risk INTEGER NOT NULL,
+        volatility_risk INTEGER NOT NULL,
+        overall_risk INTEGER NOT NULL,
+        risk_factors TEXT, -- JSON 数组
+        timestamp DATETIME NOT NULL,
+        FOREIGN KEY (token_address) REFERENCES tokens (address)
+      )
+    `)
+
+    // 对倒交易统计（每个代币一行，由对倒检测服务定期覆盖）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS token_wash_stats (
+        token_address TEXT PRIMARY KEY,
+        total_volume REAL NOT NULL DEFAULT 0, -- 24 小时成交额（SOL）
+        wash_volume REAL NOT NULL DEFAULT 0, -- 其中对倒成交额（SOL）
+        authenticity REAL NOT NULL DEFAULT 1, -- 真实成交占比 0-1
+        tx_count INTEGER NOT NULL DEFAULT 0,
+        wash_tx_count INTEGER NOT NULL DEFAULT 0,
+        trader_count INTEGER NOT NULL DEFAULT 0,
+        wash_wallet_count INTEGER NOT NULL DEFAULT 0,
+        self_loops INTEGER NOT NULL DEFAULT 0,
+        cluster_loops INTEGER NOT NULL DEFAULT 0,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (token_address) REFERENCES tokens (address)
+      )
+    `)
+
+    // 旧数据库补充新增的列
+    this.addColumnIfMissing('tokens', 'graduation_status', "TEXT DEFAULT 'bonding'")
+    this.addColumnIfMissing('tokens', 'graduated_at', 'DATETIME')
+    this.addColumnIfMissing('tokens', 'migrated_at', 'DATETIME')
+    this.addColumnIfMissing('tokens', 'lifecycle_state', "TEXT DEFAULT 'new'")
+    this.addColumnIfMissing('tokens', 'last_trade_at', 'DATETIME')
+    this.addColumnIfMissing('tokens', 'description', 'TEXT')
+    this.addColumnIfMissing('tokens', 'image_uri', 'TEXT')
+    this.addColumnIfMissing('tokens', 'metadata_uri', 'TEXT')
+    this.addColumnIfMissing('tokens', 'initial_market_cap_sol', 'REAL')
+    this.addColumnIfMissing('tokens', 'first_seen_at', 'DATETIME')
+    this.addColumnIfMissing('tokens', 'copycat_of', 'TEXT')
+    this.addColumnIfMissing('tokens', 'copycat_similarity', 'REAL')
+    this.addColumnIfMissing('tokens', 'copycat_reasons', 'TEXT')
+    this.addColumnIfMissing('trades', 'received_at', 'DATETIME')
+    this.addColumnIfMissing('bonding_curve_state', 'peak_market_cap_sol', 'REAL')
+    this.addColumnIfMissing('technical_indicators', 'timeframe', 'TEXT')
+    this.addColumnIfMissing('technical_indicators', 'close_price', 'REAL')
+    this.addColumnIfMissing('technical_indicators', 'volume', 'REAL')
+
     // 创建索引
     this.db.exec('CREATE INDEX IF NOT EXISTS idx_price_data_token_time ON price_data (token_address, timestamp)')
     this.db.exec('CREATE INDEX IF NOT EXISTS idx_trading_data_token_time ON trading_data (token_address, timestamp)')
     this.db.exec('CREATE INDEX IF NOT EXISTS idx_alerts_token_time ON alerts (token_address, timestamp)')
     this.db.exec('CREATE INDEX IF NOT EXISTS idx_trades_token_time ON trades (token_address, timestamp)')
     this.db.exec('CREATE INDEX IF NOT EXISTS idx_trades_signature ON trades (transaction_signature)')
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_tokens_graduation ON tokens (graduation_status)')
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_tokens_lifecycle ON tokens (lifecycle_state)')
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_tokens_first_seen ON tokens (first_seen_at)')
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_tokens_creator ON tokens (creator_address)')
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_tokens_copycat_of ON tokens (copycat_of)')
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_tokens_last_trade ON tokens (last_trade_at)')
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_token_lifecycle_history_token_time ON token_lifecycle_history (token_address, timestamp)')
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_candles_interval_time ON candles (interval, open_time)')
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_price_samples_time ON price_samples (timestamp)')
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_token_holders_balance ON token_holders (token_address, balance)')
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_holder_snapshots_token_time ON holder_snapshots (token_address, timestamp)')
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_risk_assessments_token_time ON risk_assessments (token_address, timestamp)')
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_risk_assessments_time ON risk_assessments (timestamp)')
     
     // KOL相关索引
     this.db.exec('CREATE INDEX IF NOT EXISTS idx_kol_info_wallet ON kol_info (wallet_address)')
     this.db.exec('CREATE INDEX IF NOT EXISTS idx_kol_info_category ON kol_info (category, is_active)')
     this.db.exec('CREATE INDEX IF NOT EXISTS idx_kol_transactions_wallet_time ON kol_transactions (kol_wallet_address, timestamp)')
     this.db.exec('CREATE INDEX IF NOT EXISTS idx_kol_transactions_token_time ON kol_transactions (token_address, timestamp)')
+    this.dedupeKOLTransactions()
+    this.db.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_kol_transactions_hash ON kol_transactions (transaction_hash)')
     
     // 情绪分析索引
     this.db.exec('CREATE INDEX IF NOT EXISTS idx_sentiment_token_platform_time ON sentiment_data (token_address, platform, timestamp)')
@@ -257,6 +501,7 @@ export class DatabaseManager {
     
     // 技术指标索引
     this.db.exec('CREATE INDEX IF NOT EXISTS idx_technical_indicators_token_time ON technical_indicators (token_address, timestamp)')
+    this.db.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_technical_indicators_token_timeframe_time ON technical_indicators (token_address, timeframe, timestamp)')
     
     // Twitter相关索引
     this.db.exec('CREATE INDEX IF NOT EXISTS idx_twitter_sentiment_tweet_id ON twitter_sentiment (tweet_id)')
@@ -275,6 +520,26 @@ export class DatabaseManager {
     console.log('✅ Database initialized successfully')
   }
 
+  /**
+   * 为已存在的表补充列（CREATE TABLE IF NOT EXISTS 不会修改旧表结构）
+   */
+  private addColumnIfMissing(table: string, column: string, definition: string) {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]
+    if (!columns.some(c => c.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+    }
+  }
+
+  /**
+   * 旧数据库中重复记录的 KOL 交易只保留最早一行，以便建立签名唯一索引
+   */
+  private dedupeKOLTransactions() {
+    this.db.exec(`
+      DELETE FROM kol_transactions
+      WHERE id NOT IN (SELECT MIN(id) FROM kol_transactions GROUP BY transaction_hash)
+    `)
+  }
+
   close() {
     this.db.close()
   }
@@ -9,12 +9,28 @@ import { AlertConfigService } from './services/alert-config.js'
 import { SmartAnalyzer } from './services/smart-analyzer.js'
 import { TwitterAPIService } from './services/twitter-api.js'
 import { TokenMappingService } from './services/token-mapping.js'
-import { PriceCalculator } from './services/price-calculator.js'
+import { TradeMetricsEngine } from './services/trade-metrics.js'
+import { GraduationDetector } from './services/graduation-detector.js'
+import { TokenLifecycleManager } from './services/token-lifecycle.js'
+import { CandleAggregator } from './services/candle-aggregator.js'
+import { PriceHistoryService } from './services/price-history.js'
+import { HolderLedger } from './services/holder-ledger.js'
+import { SniperDetector } from './services/sniper-detector.js'
+import { BundleDetector } from './services/bundle-detector.js'
+import { DevTracker } from './services/dev-tracker.js'
+import { RiskEngine } from './services/risk-engine.js'
+import { AnomalyDetector } from './services/anomaly-detector.js'
+import { WashTradeDetector } from './services/wash-trade-detector.js'
+import { CopycatDetector } from './services/copycat-detector.js'
+import { TechnicalIndicatorService } from './services/technical-indicators.js'
+import { jupiterAPI } from './services/jupiter-api.js'
 import { registerRoutes } from './api/routes.js'
 import { logger } from './utils/logger.js'
 import { enhancedErrorHandler } from './utils/enhanced-error-handler.js'
 import { environment } from './config/environment.js'
-import { initializePumpPortalAPI } from './services/pumpportal-api.js'
+import { getConfig } from './config/api-config.js'
+import { initializePumpPortalAPI, getPumpPortalAPI } from './services/pumpportal-api.js'
+import { initializeSolPriceProvider } from './services/sol-price.js'
 import path from 'path'
 import { fileURLToPath } from 'url'
 
@@ -45,6 +61,9 @@ fastify.register(import('@fastify/static'), {
 // 初始化数据库
 const db = new DatabaseManager()
 
+// SOL/USD 汇率（路由注册前初始化）
+const solPriceProvider = initializeSolPriceProvider(db)
+
 // 初始化服务
 const dataSourceManager = new DataSourceManager()
 const alertService = new AlertEngine(db)
@@ -53,7 +72,20 @@ const sentimentAnalyzer = new SentimentAnalyzer(db)
 const alertConfigService = new AlertConfigService(db)
 const smartAnalyzer = new SmartAnalyzer(db)
 const tokenMapping = new TokenMappingService(db)
-const priceCalculator = new PriceCalculator(db)
+const tradeMetrics = new TradeMetricsEngine(db)
+const graduationDetector = new GraduationDetector(db)
+const tokenLifecycle = new TokenLifecycleManager(db)
+const candleAggregator = new CandleAggregator(db)
+const technicalIndicators = new TechnicalIndicatorService(db)
+const priceHistory = new PriceHistoryService(db)
+const holderLedger = new HolderLedger(db)
+const sniperDetector = new SniperDetector(db)
+const bundleDetector = new BundleDetector(db)
+const devTracker = new DevTracker(db)
+const riskEngine = new RiskEngine(db)
+const anomalyDetector = new AnomalyDetector(db)
+const washTradeDetector = new WashTradeDetector(db)
+const copycatDetector = new CopycatDetector(db)
 
 // 初始化Twitter API服务（如果配置了）
 let twitterService: TwitterAPIService | null = null
@@ -87,23 +119,52 @@ const io = new Server(fastify.server, {
   }
 })
 
+// 客户端关注的代币保持交易订阅，最后一个客户端离开后释放
+const watchToken = (tokenAddress: string) => {
+  try {
+    dataSourceManager.subscribeTokenTrades(tokenAddress, 'watchlist')
+  } catch (error) {
+    logger.error('❌ 订阅关注代币失败:', error)
+  }
+}
+
+const releaseWatchedToken = (tokenAddress: string) => {
+  if (io.sockets.adapter.rooms.get(`token:${tokenAddress}`)?.size) return
+  try {
+    dataSourceManager.releaseTokenTrades(tokenAddress, 'watchlist')
+  } catch (error) {
+    logger.error('❌ 释放关注代币失败:', error)
+  }
+}
+
 // Socket.io 连接处理
 io.on('connection', (socket) => {
   logger.info(`🔌 Client connected: ${socket.id}`)
   
+  // 断开前记录关注的代币（disconnect 时已离开所有房间）
+  let watchedTokens: string[] = []
+  socket.on('disconnecting', () => {
+    watchedTokens = Array.from(socket.rooms)
+      .filter(room => room.startsWith('token:'))
+      .map(room => room.slice('token:'.length))
+  })
+  
   socket.on('disconnect', () => {
     logger.info(`🔌 Client disconnected: ${socket.id}`)
+    watchedTokens.forEach(releaseWatchedToken)
   })
   
   // 发送实时数据
   socket.on('subscribe_token', (tokenAddress: string) => {
     logger.info(`📡 Client subscribed to token: ${tokenAddress}`)
     socket.join(`token:${tokenAddress}`)
+    watchToken(tokenAddress)
   })
   
   socket.on('unsubscribe_token', (tokenAddress: string) => {
     logger.info(`📡 Client unsubscribed from token: ${tokenAddress}`)
     socket.leave(`token:${tokenAddress}`)
+    releaseWatchedToken(tokenAddress)
   })
   
   // 订阅预警
@@ -125,7 +186,7 @@ const start = async () => {
     
     // 注册API路由
     const { registerRoutes } = await import('./api/routes.js')
-    await registerRoutes(fastify, db, twitterService)
+    await registerRoutes(fastify, db, twitterService, candleAggregator)
     
     await fastify.listen({ port: environment.server.port, host: '0.0.0.0' })
     logger.info('🚀 PumpFun Golden Dog Alert System Backend Started')
@@ -142,6 +203,13 @@ const start = async () => {
     sentimentAnalyzer.setSocketIO(io)
     alertConfigService.setSocketIO(io)
     smartAnalyzer.setSocketIO(io)
+    graduationDetector.setSocketIO(io)
+    tokenLifecycle.setSocketIO(io)
+    tradeMetrics.setSocketIO(io)
+    holderLedger.setSocketIO(io)
+    bundleDetector.setSocketIO(io)
+    devTracker.setSocketIO(io)
+    copycatDetector.setSocketIO(io)
     
     if (twitterService) {
       twitterService.setSocketIO(io)
@@ -150,6 +218,21 @@ const start = async () => {
     // 设置服务依赖关系
     smartAnalyzer.setKOLTracker(kolTracker)
     smartAnalyzer.setSentimentAnalyzer(sentimentAnalyzer)
+    graduationDetector.setAlertEngine(alertService)
+    graduationDetector.setLifecycleManager(tokenLifecycle)
+    bundleDetector.setAlertEngine(alertService)
+    devTracker.setAlertEngine(alertService)
+    copycatDetector.setAlertEngine(alertService)
+    alertService.setRiskEngine(riskEngine)
+    alertService.setAnomalyDetector(anomalyDetector)
+    alertConfigService.setDataSourceManager(dataSourceManager)
+    kolTracker.setDataSourceManager(dataSourceManager)
+    jupiterAPI.setCandleAggregator(candleAggregator)
+    jupiterAPI.setPriceHistory(priceHistory)
+    
+    // 启动SOL汇率服务（其他服务按事件时间换算美元）
+    logger.info('💵 启动SOL汇率服务...')
+    await solPriceProvider.start()
     
     // 初始化PumpPortal API
     logger.info('🔌 初始化PumpPortal API...')
@@ -179,9 +262,57 @@ const start = async () => {
     logger.info('🗺️ 启动代币映射服务...')
     await tokenMapping.start()
     
-    // 启动价格计算服务
-    logger.info('💰 启动价格计算服务...')
-    await priceCalculator.start()
+    // 启动交易指标引擎
+    logger.info('💰 启动交易指标引擎...')
+    await tradeMetrics.start()
+    
+    // 启动代币生命周期服务
+    logger.info('♻️ 启动代币生命周期服务...')
+    await tokenLifecycle.start()
+    
+    // 启动K线聚合服务
+    logger.info('🕯️ 启动K线聚合服务...')
+    await candleAggregator.start()
+    
+    // 启动技术指标服务
+    logger.info('📐 启动技术指标服务...')
+    await technicalIndicators.start()
+    
+    // 启动价格历史服务
+    logger.info('📈 启动价格历史服务...')
+    await priceHistory.start()
+    
+    // 启动持仓账本服务
+    logger.info('👥 启动持仓账本服务...')
+    await holderLedger.start()
+    
+    // 启动狙击检测服务
+    logger.info('🎯 启动狙击检测服务...')
+    await sniperDetector.start()
+    
+    // 启动捆绑检测服务
+    logger.info('📦 启动捆绑检测服务...')
+    await bundleDetector.start()
+    
+    // 启动开发者行为跟踪服务
+    logger.info('👨‍💻 启动开发者行为跟踪服务...')
+    await devTracker.start()
+    
+    // 启动风险评估引擎（由预警引擎定期触发评估）
+    logger.info('🛡️ 启动风险评估引擎...')
+    await riskEngine.start()
+    
+    // 启动异常交易检测服务（由预警引擎定期取出异常）
+    logger.info('📊 启动异常交易检测服务...')
+    await anomalyDetector.start()
+    
+    // 启动对倒检测服务（定期计算成交真实占比）
+    logger.info('🧼 启动对倒检测服务...')
+    await washTradeDetector.start()
+    
+    // 启动仿盘检测服务（加载候选代币索引）
+    logger.info('🎭 启动仿盘检测服务...')
+    await copycatDetector.start()
     
     // 启动Twitter API服务（如果配置了）
     if (twitterService) {
@@ -195,50 +326,118 @@ const start = async () => {
     logger.info('🧠 启动智能分析引擎...')
     await smartAnalyzer.start()
     
-    // 监听新代币事件并写入数据库
+    // 监听新代币事件并广播（入库由 PumpPortal API 完成）
     dataSourceManager.onNewToken(async (token) => {
       try {
-        const dbInstance = db.getDb()
-        const stmt = dbInstance.prepare(`
-          INSERT OR REPLACE INTO tokens (
-            address, name, symbol, decimals, total_supply,
-            created_at, creator_address, initial_liquidity,
-            social_links, is_active
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `)
+        logger.info(`✅ 新代币: ${token.symbol} (${token.address})`)
         
-        stmt.run(
-          token.address,
-          token.name,
-          token.symbol,
-          token.decimals || 6,
-          token.totalSupply || '1000000000',
-          token.createdTimestamp || new Date().toISOString(),
-          token.creator || '',
-          token.initialLiquidity || 0,
-          JSON.stringify({
-            twitter: token.twitter || '',
-            telegram: token.telegram || '',
-            website: token.website || ''
-          }),
-          1
-        )
+        // 记录创建时间，用于识别狙击与捆绑买入
+        sniperDetector.recordLaunch(token.address, token.createdAt, token.creatorAddress)
+        bundleDetector.recordLaunch(token.address, token.createdAt, token.creatorAddress)
+        devTracker.recordLaunch(token.address, token.creatorAddress)
         
-        logger.info(`✅ 新代币已保存到数据库: ${token.symbol} (${token.address})`)
+        // 比对名称、代号与社交链接，识别仿盘
+        await copycatDetector.checkToken(token)
         
         // 通过Socket.io广播新代币
         io.emit('new_token', token)
       } catch (error) {
-        logger.error('❌ 保存新代币到数据库失败:', error)
+        logger.error('❌ 广播新代币失败:', error)
       }
     })
     
     // 监听交易事件并更新价格数据
     dataSourceManager.onTrade(async (trade) => {
       try {
-        // 使用价格计算服务更新价格数据
+        // 增量更新滚动窗口指标
         const pricePerToken = trade.tokenAmount > 0 ? trade.solAmount / trade.tokenAmount : 0
-        await priceCalculator.updatePrice(trade.mint, pricePerToken)
+        tradeMetrics.recordTrade({
+          tokenAddress: trade.mint,
+          trader: trade.traderPublicKey,
+          price: pricePerToken,
+          solAmount: trade.solAmount,
+          isBuy: trade.isBuy,
+          timestamp: trade.eventTime,
+          liquidity: trade.bondingCurve?.realSolReserves
+        })
+        
+        // 检查单笔交易的价格冲击
+        anomalyDetector.recordTrade({
+          tokenAddress: trade.mint,
+          wallet: trade.traderPublicKey || trade.user,
+          isBuy: trade.isBuy,
+          solAmount: trade.solAmount,
+          price: trade.bondingCurve?.priceSol ?? pricePerToken,
+          timestamp: trade.eventTime
+        })
+        
+        // 按事件时间聚合K线
+        candleAggregator.addTrade({
+          tokenAddress: trade.mint,
+          price: pricePerToken,
+          solAmount: trade.solAmount,
+          tokenAmount: trade.tokenAmount,
+          isBuy: trade.isBuy,
+          timestamp: trade.eventTime
+        })
+        
+        // 更新钱包持仓
+        holderLedger.recordTrade({
+          tokenAddress: trade.mint,
+          wallet: trade.traderPublicKey || trade.user,
+          isBuy: trade.isBuy,
+          tokenAmount: trade.tokenAmount,
+          timestamp: trade.eventTime
+        })
+        
+        // 检查是否为创建后数秒内的狙击买入
+        sniperDetector.recordTrade({
+          tokenAddress: trade.mint,
+          wallet: trade.traderPublicKey || trade.user,
+          isBuy: trade.isBuy,
+          tokenAmount: trade.tokenAmount,
+          timestamp: trade.eventTime
+        })
+        
+        // 检查发射阶段是否存在捆绑买入
+        await bundleDetector.recordTrade({
+          tokenAddress: trade.mint,
+          wallet: trade.traderPublicKey || trade.user,
+          isBuy: trade.isBuy,
+          tokenAmount: trade.tokenAmount,
+          solAmount: trade.solAmount,
+          timestamp: trade.eventTime
+        })
+        
+        // 跟踪开发者钱包的买卖
+        await devTracker.recordTrade({
+          tokenAddress: trade.mint,
+          wallet: trade.traderPublicKey || trade.user,
+          isBuy: trade.isBuy,
+          tokenAmount: trade.tokenAmount,
+          solAmount: trade.solAmount,
+          timestamp: trade.eventTime
+        })
+        
+        // 记录KOL钱包的交易并实时生成信号（非KOL钱包直接忽略）
+        await kolTracker.recordKOLTransaction({
+          kolWalletAddress: trade.traderPublicKey || trade.user,
+          tokenAddress: trade.mint,
+          transactionHash: trade.signature,
+          action: trade.isBuy ? 'buy' : 'sell',
+          amount: trade.tokenAmount,
+          price: pricePerToken,
+          valueSol: trade.solAmount,
+          timestamp: new Date(trade.eventTime)
+        })
+        
+        // 更新代币活跃度
+        tokenLifecycle.recordTrade(trade.mint, new Date(trade.eventTime))
+        
+        // 检查联合曲线是否接近完成
+        if (trade.bondingCurve) {
+          await graduationDetector.handleCurveUpdate(trade.bondingCurve)
+        }
         
         // 通过Socket.io广播交易数据
         io.to(`token:${trade.mint}`).emit('trade_update', trade)
@@ -247,6 +446,11 @@ const start = async () => {
       }
     })
     
+    // 监听迁移事件并更新毕业状态
+    dataSourceManager.onMigration(async (event) => {
+      await graduationDetector.handleMigration(event)
+    })
+    
     // 启动预警引擎
     logger.info('🔄 启动预警引擎...')
     const { AlertEngine } = await import('./services/alert-engine.js')
@@ -255,6 +459,15 @@ const start = async () => {
     
     await alertEngine.start()
     
+    // 回放模式：所有监听器注册完成后再开始投递录制数据
+    const { replay } = getConfig().pumpportal
+    if (replay.file) {
+      logger.info(`⏯️ 回放模式，数据源: ${replay.file}`)
+      getPumpPortalAPI().replay(replay.file, replay.speed).catch(error => {
+        logger.error('❌ PumpPortal 回放失败:', error)
+      })
+    }
+    
     // 定期发送错误统计
     setInterval(() => {
       io.emit('error_stats', enhancedErrorHandler.getErrorStats())
@@ -278,8 +491,47 @@ const gracefulShutdown = async () => {
     // 停止智能分析引擎
     await smartAnalyzer.stop()
     
-    // 停止价格计算服务
-    await priceCalculator.stop()
+    // 停止SOL汇率服务
+    await solPriceProvider.stop()
+    
+    // 停止交易指标引擎（写入最后一次检查点）
+    await tradeMetrics.stop()
+    
+    // 停止代币生命周期服务
+    await tokenLifecycle.stop()
+    
+    // 停止技术指标服务
+    await technicalIndicators.stop()
+    
+    // 停止价格历史服务
+    await priceHistory.stop()
+    
+    // 停止持仓账本服务（写入剩余增量与最后一次快照）
+    await holderLedger.stop()
+    
+    // 停止狙击检测服务
+    await sniperDetector.stop()
+    
+    // 停止捆绑检测服务
+    await bundleDetector.stop()
+    
+    // 停止开发者行为跟踪服务
+    await devTracker.stop()
+    
+    // 停止风险评估引擎
+    await riskEngine.stop()
+    
+    // 停止异常交易检测服务
+    await anomalyDetector.stop()
+    
+    // 停止对倒检测服务
+    await washTradeDetector.stop()
+    
+    // 停止仿盘检测服务
+    await copycatDetector.stop()
+    
+    // 停止K线聚合服务（写入剩余增量）
+    await candleAggregator.stop()
     
     // 停止Twitter API服务
     if (twitterService) {
@@ -301,6 +553,9 @@ const gracefulShutdown = async () => {
     // 停止数据源管理器
     await dataSourceManager.stop()
     
+    // 断开 PumpPortal 连接（同时关闭录制文件）
+    await getPumpPortalAPI().disconnect()
+    
     // 关闭数据库连接
     await db.close()
     
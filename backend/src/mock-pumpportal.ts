@@ -0,0 +1,35 @@
+import { PumpPortalMockServer, loadScenarioFile } from './mock/pumpportal-server.js'
+import { createDefaultScenario } from './mock/scenarios.js'
+import { logger } from './utils/logger.js'
+
+// 本地 PumpPortal 替身服务入口
+// 使用方式：启动后将后端的 PUMPPORTAL_WS_URL 指向输出的地址
+const scenarioFile = process.env.MOCK_PUMPPORTAL_SCENARIO
+const server = new PumpPortalMockServer({
+  port: parseInt(process.env.MOCK_PUMPPORTAL_PORT || '8787'),
+  host: process.env.MOCK_PUMPPORTAL_HOST || '127.0.0.1',
+  scenario: scenarioFile ? loadScenarioFile(scenarioFile) : createDefaultScenario(),
+  speed: parseFloat(process.env.MOCK_PUMPPORTAL_SPEED || '1') || 1,
+  loop: process.env.MOCK_PUMPPORTAL_LOOP === 'true',
+  seed: parseInt(process.env.MOCK_PUMPPORTAL_SEED || '42')
+})
+
+const start = async () => {
+  try {
+    const url = await server.start()
+    logger.info(`👉 PUMPPORTAL_WS_URL=${url}`)
+  } catch (error) {
+    logger.error('❌ PumpPortal 模拟服务启动失败:', error)
+    process.exit(1)
+  }
+}
+
+const shutdown = async () => {
+  await server.stop()
+  process.exit(0)
+}
+
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
+
+start()
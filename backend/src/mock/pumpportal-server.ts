@@ -0,0 +1,411 @@
+import WebSocket, { WebSocketServer } from 'ws'
+import { readFileSync } from 'fs'
+import { logger } from '../utils/logger.js'
+import {
+  INITIAL_VIRTUAL_SOL_RESERVES,
+  INITIAL_VIRTUAL_TOKEN_RESERVES,
+  INITIAL_REAL_TOKEN_RESERVES,
+  TOKEN_TOTAL_SUPPLY
+} from '../services/bonding-curve.js'
+import type { PumpPortalScenario, ScenarioStep } from './scenarios.js'
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
+
+export interface MockServerOptions {
+  port: number
+  host?: string
+  scenario: PumpPortalScenario
+  speed?: number // 剧本播放倍速
+  loop?: boolean // 剧本结束后重新开始（使用新的代币地址）
+  seed?: number // 地址与签名生成的随机种子
+}
+
+// 单个客户端的订阅状态
+interface ClientSubscriptions {
+  newTokens: boolean
+  migrations: boolean
+  tokenKeys: Set<string>
+  accountKeys: Set<string>
+}
+
+// 模拟代币的联合曲线状态
+interface MockToken {
+  mint: string
+  bondingCurveKey: string
+  vSol: number
+  vTokens: number
+  balances: Map<string, number>
+  migrated: boolean
+}
+
+/**
+ * 本地 PumpPortal 替身服务 - 实现 PumpPortal 数据订阅协议并按剧本推送帧
+ */
+export class PumpPortalMockServer {
+  private options: Required<MockServerOptions>
+  private wss: WebSocketServer | null = null
+  private clients: Map<WebSocket, ClientSubscriptions> = new Map()
+  private timers: Set<NodeJS.Timeout> = new Set() // 尚未触发的定时器，触发后自行移除
+  private tokens: Map<string, MockToken> = new Map()
+  private wallets: Map<string, string> = new Map()
+  private rngState: number
+  private scenarioStarted = false
+  private framesSent = 0
+
+  constructor(options: MockServerOptions) {
+    this.options = {
+      host: '127.0.0.1',
+      speed: 1,
+      loop: false,
+      seed: 42,
+      ...options
+    }
+    this.rngState = this.options.seed
+  }
+
+  /**
+   * 启动服务，返回可用于 PUMPPORTAL_WS_URL 的地址
+   */
+  async start(): Promise<string> {
+    this.wss = new WebSocketServer({
+      port: this.options.port,
+      host: this.options.host,
+      path: '/api/data'
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      this.wss!.once('listening', resolve)
+      this.wss!.once('error', reject)
+    })
+
+    this.wss.on('connection', (ws) => this.handleConnection(ws))
+
+    const url = `ws://${this.options.host}:${this.options.port}/api/data`
+    logger.info(`🧪 PumpPortal 模拟服务已启动: ${url} (剧本: ${this.options.scenario.name})`)
+    return url
+  }
+
+  /**
+   * 停止服务
+   */
+  async stop(): Promise<void> {
+    this.timers.forEach(timer => clearTimeout(timer))
+    this.timers.clear()
+
+    for (const ws of this.clients.keys()) {
+      ws.terminate()
+    }
+    this.clients.clear()
+
+    if (this.wss) {
+      const wss = this.wss
+      this.wss = null
+      await new Promise<void>(resolve => wss.close(() => resolve()))
+    }
+
+    logger.info(`🧪 PumpPortal 模拟服务已停止，共推送 ${this.framesSent} 帧`)
+  }
+
+  private handleConnection(ws: WebSocket): void {
+    this.clients.set(ws, {
+      newTokens: false,
+      migrations: false,
+      tokenKeys: new Set(),
+      accountKeys: new Set()
+    })
+
+    ws.on('message', (data: Buffer) => {
+      try {
+        this.handleClientMessage(ws, JSON.parse(data.toString()))
+      } catch (error) {
+        ws.send(JSON.stringify({ errors: 'Invalid message' }))
+      }
+    })
+
+    ws.on('close', () => {
+      this.clients.delete(ws)
+    })
+  }
+
+  /**
+   * 处理客户端订阅请求，响应格式与 PumpPortal 保持一致
+   */
+  private handleClientMessage(ws: WebSocket, message: { method?: string; keys?: string[] }): void {
+    const subscriptions = this.clients.get(ws)
+    if (!subscriptions) return
+
+    const keys = Array.isArray(message.keys) ? message.keys : []
+
+    switch (message.method) {
+      case 'subscribeNewToken':
+        subscriptions.newTokens = true
+        ws.send(JSON.stringify({ message: 'Successfully subscribed to token creation events.' }))
+        break
+      case 'unsubscribeNewToken':
+        subscriptions.newTokens = false
+        ws.send(JSON.stringify({ message: 'Unsubscribed from token creation events.' }))
+        break
+      case 'subscribeMigration':
+        subscriptions.migrations = true
+        ws.send(JSON.stringify({ message: 'Successfully subscribed to migration events.' }))
+        break
+      case 'unsubscribeMigration':
+        subscriptions.migrations = false
+        ws.send(JSON.stringify({ message: 'Unsubscribed from migration events.' }))
+        break
+      case 'subscribeTokenTrade':
+        keys.forEach(key => subscriptions.tokenKeys.add(key))
+        ws.send(JSON.stringify({ message: 'Successfully subscribed to keys.' }))
+        break
+      case 'unsubscribeTokenTrade':
+        keys.forEach(key => subscriptions.tokenKeys.delete(key))
+        ws.send(JSON.stringify({ message: 'Unsubscribed from keys.' }))
+        break
+      case 'subscribeAccountTrade':
+        keys.forEach(key => subscriptions.accountKeys.add(key))
+        ws.send(JSON.stringify({ message: 'Successfully subscribed to keys.' }))
+        break
+      case 'unsubscribeAccountTrade':
+        keys.forEach(key => subscriptions.accountKeys.delete(key))
+        ws.send(JSON.stringify({ message: 'Unsubscribed from keys.' }))
+        break
+      default:
+        ws.send(JSON.stringify({ errors: `Unknown method: ${message.method}` }))
+        return
+    }
+
+    // 首个订阅到达后开始播放剧本，避免客户端错过开头的帧
+    if (!this.scenarioStarted) {
+      this.scenarioStarted = true
+      this.scheduleScenario()
+    }
+  }
+
+  private scheduleScenario(): void {
+    const { steps } = this.options.scenario
+    const aliases: Map<string, string> = new Map()
+
+    // 循环播放时上一轮已全部执行完，上一轮的代币不会再被引用
+    this.tokens.clear()
+
+    steps.forEach((step, index) => {
+      this.schedule(() => {
+        try {
+          this.runStep(step, index, aliases)
+        } catch (error) {
+          logger.error('执行模拟剧本步骤失败:', error)
+        }
+      }, step.at / this.options.speed)
+    })
+
+    if (this.options.loop && steps.length > 0) {
+      const lastAt = steps[steps.length - 1].at
+      this.schedule(() => this.scheduleScenario(), (lastAt + 1000) / this.options.speed)
+    }
+  }
+
+  private schedule(callback: () => void, delay: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer)
+      callback()
+    }, delay)
+    this.timers.add(timer)
+  }
+
+  private runStep(step: ScenarioStep, index: number, aliases: Map<string, string>): void {
+    if (step.type === 'create') {
+      const mint = this.randomAddress(40) + 'pump'
+      aliases.set(step.token, mint)
+
+      const token: MockToken = {
+        mint,
+        bondingCurveKey: this.randomAddress(44),
+        vSol: INITIAL_VIRTUAL_SOL_RESERVES,
+        vTokens: INITIAL_VIRTUAL_TOKEN_RESERVES,
+        balances: new Map(),
+        migrated: false
+      }
+      this.tokens.set(mint, token)
+
+      const creator = this.walletFor(step.creator || `creator-${step.token}`)
+      const initialBuySol = step.initialBuySol || 0
+      const initialBuy = initialBuySol > 0 ? this.applyBuy(token, creator, initialBuySol) : 0
+
+      this.broadcast({
+        signature: this.randomAddress(88),
+        mint,
+        traderPublicKey: creator,
+        txType: 'create',
+        initialBuy,
+        solAmount: initialBuySol,
+        bondingCurveKey: token.bondingCurveKey,
+        vTokensInBondingCurve: token.vTokens,
+        vSolInBondingCurve: token.vSol,
+        marketCapSol: this.marketCapSol(token),
+        name: step.name,
+        symbol: step.symbol,
+        uri: step.uri || `https://ipfs.io/ipfs/${this.randomAddress(46)}`,
+        pool: 'pump'
+      }, mint, creator, true)
+      return
+    }
+
+    const mint = aliases.get(step.token)
+    const token = mint ? this.tokens.get(mint) : undefined
+    if (!token) {
+      logger.warn(`模拟剧本引用了未创建的代币: ${step.token}`)
+      return
+    }
+    
+    // 已迁移的代币不再在曲线上交易
+    if (token.migrated) return
+
+    // 未指定交易者时按步骤序号生成，与推送帧数无关，同一剧本每次得到相同的钱包
+    const trader = this.walletFor(step.trader || `trader-${index}`)
+    let tokenAmount: number
+    let solAmount: number
+
+    if (step.type === 'buy') {
+      solAmount = step.sol
+      tokenAmount = this.applyBuy(token, trader, step.sol)
+    } else {
+      const balance = token.balances.get(trader) || 0
+      tokenAmount = balance * Math.min(100, step.percent ?? 100) / 100
+      if (tokenAmount <= 0) return
+      solAmount = this.applySell(token, trader, tokenAmount)
+    }
+
+    this.broadcast({
+      signature: this.randomAddress(88),
+      mint: token.mint,
+      traderPublicKey: trader,
+      txType: step.type,
+      tokenAmount,
+      solAmount,
+      newTokenBalance: token.balances.get(trader) || 0,
+      bondingCurveKey: token.bondingCurveKey,
+      vTokensInBondingCurve: token.vTokens,
+      vSolInBondingCurve: token.vSol,
+      marketCapSol: this.marketCapSol(token),
+      pool: 'pump'
+    }, token.mint, trader, false)
+    
+    if (this.isCurveComplete(token)) {
+      this.migrate(token)
+    }
+  }
+
+  /**
+   * 曲线上的真实代币售罄后推送迁移帧
+   */
+  private migrate(token: MockToken): void {
+    token.migrated = true
+    const payload = JSON.stringify({
+      signature: this.randomAddress(88),
+      mint: token.mint,
+      txType: 'migrate',
+      pool: 'pump-amm'
+    })
+
+    for (const [ws, subscriptions] of this.clients) {
+      if (ws.readyState === WebSocket.OPEN && subscriptions.migrations) {
+        ws.send(payload)
+        this.framesSent++
+      }
+    }
+  }
+
+  private isCurveComplete(token: MockToken): boolean {
+    return token.vTokens <= INITIAL_VIRTUAL_TOKEN_RESERVES - INITIAL_REAL_TOKEN_RESERVES
+  }
+
+  /**
+   * 按恒定乘积曲线计算买入得到的代币数量并更新储备
+   */
+  private applyBuy(token: MockToken, wallet: string, solAmount: number): number {
+    const k = token.vSol * token.vTokens
+    const newVSol = token.vSol + solAmount
+    const tokensOut = token.vTokens - k / newVSol
+
+    token.vSol = newVSol
+    token.vTokens -= tokensOut
+    token.balances.set(wallet, (token.balances.get(wallet) || 0) + tokensOut)
+    return tokensOut
+  }
+
+  /**
+   * 按恒定乘积曲线计算卖出得到的 SOL 数量并更新储备
+   */
+  private applySell(token: MockToken, wallet: string, tokenAmount: number): number {
+    const k = token.vSol * token.vTokens
+    const newVTokens = token.vTokens + tokenAmount
+    const solOut = token.vSol - k / newVTokens
+
+    token.vTokens = newVTokens
+    token.vSol -= solOut
+    token.balances.set(wallet, (token.balances.get(wallet) || 0) - tokenAmount)
+    return solOut
+  }
+
+  private marketCapSol(token: MockToken): number {
+    return (token.vSol / token.vTokens) * TOKEN_TOTAL_SUPPLY
+  }
+
+  /**
+   * 按订阅关系推送帧，同一客户端只推送一次
+   */
+  private broadcast(frame: Record<string, unknown>, mint: string, trader: string, isCreate: boolean): void {
+    const payload = JSON.stringify(frame)
+
+    for (const [ws, subscriptions] of this.clients) {
+      if (ws.readyState !== WebSocket.OPEN) continue
+
+      const matches = (isCreate && subscriptions.newTokens) ||
+        subscriptions.tokenKeys.has(mint) ||
+        subscriptions.accountKeys.has(trader) ||
+        subscriptions.accountKeys.has('all')
+
+      if (matches) {
+        ws.send(payload)
+        this.framesSent++
+      }
+    }
+  }
+
+  private walletFor(alias: string): string {
+    let wallet = this.wallets.get(alias)
+    if (!wallet) {
+      wallet = this.randomAddress(44)
+      this.wallets.set(alias, wallet)
+    }
+    return wallet
+  }
+
+  /**
+   * 可复现的伪随机 base58 字符串（mulberry32）
+   */
+  private randomAddress(length: number): string {
+    let result = ''
+    for (let i = 0; i < length; i++) {
+      this.rngState = (this.rngState + 0x6D2B79F5) | 0
+      let t = this.rngState
+      t = Math.imul(t ^ (t >>> 15), t | 1)
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+      const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296
+      result += BASE58_ALPHABET[Math.floor(value * BASE58_ALPHABET.length)]
+    }
+    return result
+  }
+}
+
+/**
+ * 从 JSON 文件加载剧本
+ */
+export function loadScenarioFile(path: string): PumpPortalScenario {
+  const scenario = JSON.parse(readFileSync(path, 'utf8')) as PumpPortalScenario
+  if (!Array.isArray(scenario.steps)) {
+    throw new Error(`剧本文件格式无效: ${path}`)
+  }
+  scenario.steps.sort((a, b) => a.at - b.at)
+  return scenario
+}
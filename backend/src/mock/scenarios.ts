@@ -0,0 +1,66 @@
+// 模拟 PumpPortal 的剧本定义
+
+// 剧本步骤：at 为相对剧本开始的毫秒偏移，token 为剧本内的代币别名
+export type ScenarioStep =
+  | {
+      at: number
+      type: 'create'
+      token: string
+      name: string
+      symbol: string
+      creator?: string
+      initialBuySol?: number
+      uri?: string
+    }
+  | {
+      at: number
+      type: 'buy'
+      token: string
+      trader?: string
+      sol: number
+    }
+  | {
+      at: number
+      type: 'sell'
+      token: string
+      trader?: string
+      percent?: number // 卖出该钱包持仓的百分比，默认 100
+    }
+
+export interface PumpPortalScenario {
+  name: string
+  steps: ScenarioStep[]
+}
+
+/**
+ * 默认剧本：一个快速拉升的金狗、一个开发者砸盘的代币和一个冷清的代币
+ */
+export function createDefaultScenario(): PumpPortalScenario {
+  const steps: ScenarioStep[] = []
+
+  // 金狗：上线后持续有新钱包买入
+  steps.push({ at: 0, type: 'create', token: 'moon', name: 'Moon Dog', symbol: 'MDOG', creator: 'dev-moon', initialBuySol: 1 })
+  for (let i = 0; i < 60; i++) {
+    steps.push({ at: 2000 + i * 1500, type: 'buy', token: 'moon', trader: `moon-buyer-${i}`, sol: 0.5 + (i % 7) * 0.4 })
+    if (i % 6 === 5) {
+      steps.push({ at: 2500 + i * 1500, type: 'sell', token: 'moon', trader: `moon-buyer-${i - 5}`, percent: 50 })
+    }
+  }
+
+  // 开发者砸盘：少量买入后创建者全部卖出
+  steps.push({ at: 5000, type: 'create', token: 'rug', name: 'Safe Rocket', symbol: 'SAFE', creator: 'dev-rug', initialBuySol: 3 })
+  for (let i = 0; i < 8; i++) {
+    steps.push({ at: 6000 + i * 2000, type: 'buy', token: 'rug', trader: `rug-buyer-${i}`, sol: 0.3 + i * 0.1 })
+  }
+  steps.push({ at: 24000, type: 'sell', token: 'rug', trader: 'dev-rug', percent: 100 })
+
+  // 冷清代币：只有零星交易
+  steps.push({ at: 10000, type: 'create', token: 'quiet', name: 'Quiet Cat', symbol: 'QCAT', creator: 'dev-quiet', initialBuySol: 0.2 })
+  steps.push({ at: 40000, type: 'buy', token: 'quiet', trader: 'quiet-buyer-0', sol: 0.1 })
+  steps.push({ at: 70000, type: 'sell', token: 'quiet', trader: 'quiet-buyer-0', percent: 100 })
+
+  return {
+    name: 'default',
+    steps: steps.sort((a, b) => a.at - b.at)
+  }
+}
@@ -1,6 +1,7 @@
 import { DatabaseManager } from '../database/schema.js'
 import { logger } from '../utils/logger.js'
 import { enhancedErrorHandler, ErrorType, ErrorSeverity } from '../utils/enhanced-error-handler.js'
+import type { DataSourceManager } from './data-source-manager.js'
 import type { Server } from 'socket.io'
 
 // 预警配置接口
@@ -59,6 +60,8 @@ export class AlertConfigService {
   private isRunning: boolean = false
   private monitoringInterval?: NodeJS.Timeout
   private activeConfigs: Map<number, AlertConfig> = new Map()
+  private dataSourceManager?: DataSourceManager
+  private subscribedTokens: Set<string> = new Set()
   
   constructor(db: DatabaseManager) {
     this.db = db
@@ -69,6 +72,10 @@ export class AlertConfigService {
     this.io = io
   }
 
+  setDataSourceManager(dataSourceManager: DataSourceManager): void {
+    this.dataSourceManager = dataSourceManager
+  }
+
   async start(): Promise<void> {
     if (this.isRunning) return
     this.isRunning = true
@@ -138,6 +145,7 @@ export class AlertConfigService {
         if (fullConfig) {
           this.activeConfigs.set(configId, fullConfig)
         }
+        this.syncTokenSubscriptions()
       }
       
       logger.info(`✅ 创建预警配置: ${config.name} (ID: ${configId})`)
@@ -223,6 +231,7 @@ export class AlertConfigService {
           this.activeConfigs.set(id, updatedConfig)
         }
       }
+      this.syncTokenSubscriptions()
       
       logger.info(`📝 更新预警配置: ID ${id}`)
       
@@ -246,6 +255,7 @@ export class AlertConfigService {
       
       // 从内存中移除
       this.activeConfigs.delete(id)
+      this.syncTokenSubscriptions()
       
       logger.info(`🗑️ 删除预警配置: ID ${id}`)
       
@@ -702,6 +712,8 @@ export class AlertConfigService {
         this.activeConfigs.set(config.id!, config)
       })
       
+      this.syncTokenSubscriptions()
+      
       logger.info(`📋 加载了 ${this.activeConfigs.size} 个活跃预警配置`)
     } catch (error) {
       await enhancedErrorHandler.handleError(
@@ -711,6 +723,31 @@ export class AlertConfigService {
     }
   }
 
+  // 同步预警条件中指定代币的交易订阅
+  private syncTokenSubscriptions(): void {
+    const dataSourceManager = this.dataSourceManager
+    if (!dataSourceManager) return
+    
+    const tokens = new Set<string>()
+    this.activeConfigs.forEach(config => {
+      config.conditions.forEach(condition => {
+        if (condition.tokenAddress) tokens.add(condition.tokenAddress)
+      })
+    })
+    
+    tokens.forEach(tokenAddress => {
+      if (!this.subscribedTokens.has(tokenAddress)) {
+        dataSourceManager.subscribeTokenTrades(tokenAddress, 'alert_config')
+      }
+    })
+    this.subscribedTokens.forEach(tokenAddress => {
+      if (!tokens.has(tokenAddress)) {
+        dataSourceManager.releaseTokenTrades(tokenAddress, 'alert_config')
+      }
+    })
+    this.subscribedTokens = tokens
+  }
+
   // 初始化默认预警配置
   private async initializeDefaultConfigs(): Promise<void> {
     const defaultConfigs: Omit<AlertConfig, 'id' | 'createdAt' | 'updatedAt' | 'lastTriggered'>[] = [
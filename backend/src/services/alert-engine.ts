@@ -4,7 +4,11 @@ import { logger } from '../utils/logger.js'
 import { errorHandler, createError, withErrorHandling } from '../utils/error-handler.js'
 import { enhancedErrorHandler, ErrorType, ErrorSeverity } from '../utils/enhanced-error-handler.js'
 import { environment } from '../config/environment.js'
-import type { Alert, TokenInfo } from '../../../shared/types/index.ts'
+import { NEUTRAL_REPUTATION, queryCreatorReputation } from './creator-reputation.js'
+import { queryVolumeAuthenticity } from './wash-trade-detector.js'
+import { riskLevel, type RiskEngine, type RiskLevel } from './risk-engine.js'
+import type { AnomalyDetector, TradingAnomaly } from './anomaly-detector.js'
+import type { Alert, RiskAssessment, TokenInfo } from '../../../shared/types/index.ts'
 import type { Server } from 'socket.io'
 
 // 定义数据库查询结果的接口
@@ -19,10 +23,16 @@ interface TokenCandidate {
   liquidity: number
 }
 
+// 同一代币同等级的风险预警至少间隔该时长，等级升高时立即预警
+const RISK_ALERT_COOLDOWN = 30 * 60 * 1000
+
 export class AlertEngine {
   private db: DatabaseManager
   private io?: Server
+  private riskEngine?: RiskEngine
+  private anomalyDetector?: AnomalyDetector
   private isRunning: boolean = false
+  private riskAlerted: Map<string, { level: RiskLevel, at: number }> = new Map()
   
   constructor(db: DatabaseManager) {
     this.db = db
@@ -33,6 +43,14 @@ export class AlertEngine {
     this.io = io
   }
 
+  setRiskEngine(riskEngine: RiskEngine): void {
+    this.riskEngine = riskEngine
+  }
+
+  setAnomalyDetector(anomalyDetector: AnomalyDetector): void {
+    this.anomalyDetector = anomalyDetector
+  }
+
   async start() {
     if (this.isRunning) return
     this.isRunning = true
@@ -122,16 +140,67 @@ export class AlertEngine {
   }
 
   private async checkRiskAlerts() {
-    // TODO: 实现风险预警检查
+    if (!this.riskEngine) return
     logger.debug('🔍 检查风险预警...')
+    
+    try {
+      const assessments = this.riskEngine.assessActiveTokens()
+      const now = Date.now()
+      
+      for (const assessment of assessments) {
+        const level = riskLevel(assessment.overallRisk)
+        const previous = this.riskAlerted.get(assessment.tokenAddress)
+        if (!level) {
+          this.riskAlerted.delete(assessment.tokenAddress)
+          continue
+        }
+        
+        const escalated = previous?.level === 'medium' && level === 'high'
+        if (previous && !escalated && now - previous.at < RISK_ALERT_COOLDOWN) continue
+        
+        this.riskAlerted.set(assessment.tokenAddress, { level, at: now })
+        await this.createRiskAlert(assessment, level)
+      }
+      
+      // 清理长时间未再触发的记录
+      for (const [tokenAddress, alerted] of this.riskAlerted) {
+        if (now - alerted.at > RISK_ALERT_COOLDOWN * 4) this.riskAlerted.delete(tokenAddress)
+      }
+    } catch (error) {
+      await enhancedErrorHandler.handleError(
+        error as Error,
+        'checkRiskAlerts'
+      )
+    }
   }
 
   private async checkAbnormalTradingAlerts() {
-    // TODO: 实现异常交易预警检查
+    if (!this.anomalyDetector) return
     logger.debug('🔍 检查异常交易预警...')
+    
+    try {
+      // 同一代币的多项异常合并为一条预警
+      const byToken = new Map<string, TradingAnomaly[]>()
+      for (const anomaly of this.anomalyDetector.detect()) {
+        const anomalies = byToken.get(anomaly.tokenAddress) ?? []
+        anomalies.push(anomaly)
+        byToken.set(anomaly.tokenAddress, anomalies)
+      }
+      
+      for (const [tokenAddress, anomalies] of byToken) {
+        await this.createAbnormalTradingAlert(tokenAddress, anomalies)
+      }
+    } catch (error) {
+      await enhancedErrorHandler.handleError(
+        error as Error,
+        'checkAbnormalTradingAlerts'
+      )
+    }
   }
 
   private async createGoldenDogAlert(tokenData: TokenCandidate) {
+    const creatorReputation = queryCreatorReputation(this.db, tokenData.address)
+    const authenticity = queryVolumeAuthenticity(this.db, tokenData.address)
     const alert: Alert = {
       id: `golden_dog_${tokenData.address}_${Date.now()}`,
       tokenAddress: tokenData.address,
@@ -141,21 +210,84 @@ export class AlertEngine {
                `5分钟涨幅: ${tokenData.price_change_5m?.toFixed(2)}%\n` +
                `交易量增长: ${tokenData.volume_change?.toFixed(2)}%\n` +
                `当前流动性: ${tokenData.liquidity?.toFixed(2)} SOL`,
-      score: this.calculateGoldenDogScore(tokenData),
+      score: this.calculateGoldenDogScore(tokenData, creatorReputation, authenticity),
       conditions: [
         `5分钟涨幅: ${tokenData.price_change_5m?.toFixed(2)}%`,
         `交易量增长: ${tokenData.volume_change?.toFixed(2)}%`,
-        `流动性: ${tokenData.liquidity?.toFixed(2)} SOL`
+        `流动性: ${tokenData.liquidity?.toFixed(2)} SOL`,
+        `创建者信誉: ${creatorReputation}`,
+        `真实成交占比: ${(authenticity * 100).toFixed(0)}%`,
+        `剔除对倒后交易量增长: ${authenticVolumeChange(tokenData, authenticity).toFixed(2)}%`
       ],
       timestamp: new Date(),
       isRead: false
     }
 
+    await this.raiseAlert(alert)
+  }
+
+  private async createRiskAlert(assessment: RiskAssessment, level: Exclude<RiskLevel, null>) {
+    const token = this.db.getDb()
+      .prepare('SELECT name, symbol FROM tokens WHERE address = ?')
+      .get(assessment.tokenAddress) as { name: string, symbol: string } | undefined
+    const symbol = token?.symbol || assessment.tokenAddress.slice(0, 6)
+    const high = level === 'high'
+    
+    const alert: Alert = {
+      id: `${high ? 'high' : 'medium'}_risk_${assessment.tokenAddress}_${Date.now()}`,
+      tokenAddress: assessment.tokenAddress,
+      type: high ? AlertType.HIGH_RISK : AlertType.MEDIUM_RISK,
+      title: `${high ? '⛔ 高风险' : '⚠️ 中风险'}: ${symbol}`,
+      message: `${token?.name || symbol} (${symbol}) 综合风险评分 ${assessment.overallRisk}\n` +
+               `发行方: ${assessment.contractSecurity} | 流动性: ${assessment.liquidityRisk} | ` +
+               `持仓集中: ${assessment.whaleRisk} | 波动: ${assessment.volatilityRisk}`,
+      score: assessment.overallRisk,
+      conditions: assessment.riskFactors.length > 0 ? assessment.riskFactors : [`综合风险评分: ${assessment.overallRisk}`],
+      timestamp: new Date(),
+      isRead: false
+    }
+    
+    await this.raiseAlert(alert)
+  }
+
+  private async createAbnormalTradingAlert(tokenAddress: string, anomalies: TradingAnomaly[]) {
+    const token = this.db.getDb()
+      .prepare('SELECT name, symbol FROM tokens WHERE address = ?')
+      .get(tokenAddress) as { name: string, symbol: string } | undefined
+    const symbol = token?.symbol || tokenAddress.slice(0, 6)
+    
+    // z 分数每超过阈值 1 倍记 25 分，价格冲击与失衡反转按幅度计分
+    const severity = Math.max(...anomalies.map(anomaly =>
+      anomaly.metric === 'volume' || anomaly.metric === 'tx_rate'
+        ? Math.abs(anomaly.deviation) / environment.alerts.abnormal.zScore * 25
+        : Math.abs(anomaly.deviation)
+    ))
+    
+    const alert: Alert = {
+      id: `abnormal_trading_${tokenAddress}_${Date.now()}`,
+      tokenAddress,
+      type: AlertType.ABNORMAL_TRADING,
+      title: `📊 异常交易: ${symbol}`,
+      message: `${token?.name || symbol} (${symbol}) 交易行为偏离常态\n` +
+               anomalies.map(anomaly => anomaly.description).join('\n'),
+      score: Math.round(Math.min(100, severity + (anomalies.length - 1) * 10)),
+      conditions: anomalies.map(anomaly => anomaly.description),
+      timestamp: new Date(),
+      isRead: false
+    }
+    
+    await this.raiseAlert(alert)
+  }
+
+  /**
+   * 保存并广播预警（供其他服务发出预警）
+   */
+  async raiseAlert(alert: Alert) {
     await this.saveAlert(alert)
     await this.broadcastAlert(alert)
   }
 
-  private calculateGoldenDogScore(tokenData: TokenCandidate): number {
+  private calculateGoldenDogScore(tokenData: TokenCandidate, creatorReputation: number, authenticity: number): number {
     let score = 0
     
     // 价格涨幅评分 (0-40分)
@@ -163,9 +295,10 @@ export class AlertEngine {
     else if (tokenData.price_change_5m > 50) score += 30
     else score += 20
     
-    // 交易量增长评分 (0-30分)
-    if (tokenData.volume_change > 500) score += 30
-    else if (tokenData.volume_change > 300) score += 20
+    // 交易量增长评分 (0-30分)，剔除对倒成交
+    const volumeChange = authenticVolumeChange(tokenData, authenticity)
+    if (volumeChange > 500) score += 30
+    else if (volumeChange > 300) score += 20
     else score += 10
     
     // 流动性评分 (0-30分)
@@ -173,7 +306,10 @@ export class AlertEngine {
     else if (tokenData.liquidity > 20) score += 20
     else if (tokenData.liquidity > 10) score += 10
     
-    return Math.min(score, 100)
+    // 创建者信誉修正 (-20~+20分)
+    score += (creatorReputation - NEUTRAL_REPUTATION) * 0.4
+    
+    return Math.round(Math.min(Math.max(score, 0), 100))
   }
 
   private async saveAlert(alert: Alert) {
@@ -218,4 +354,18 @@ export class AlertEngine {
       )
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 剔除对倒成交后的交易量增长（%）：由 24 小时交易量与增长率反推前一窗口的交易量，
+ * 再用真实成交额与之比较；前一窗口没有成交时无法反推，沿用原增长率
+ */
+function authenticVolumeChange(tokenData: TokenCandidate, authenticity: number): number {
+  const volume = tokenData.volume_24h ?? 0
+  const change = tokenData.volume_change ?? 0
+  if (change <= -100 || volume <= 0) return change
+
+  const previousVolume = volume / (1 + change / 100)
+  if (!(previousVolume > 0)) return change
+  return ((volume * authenticity - previousVolume) / previousVolume) * 100
+}
@@ -0,0 +1,284 @@
+import { DatabaseManager } from '../database/schema.js'
+import { logger } from '../utils/logger.js'
+import { enhancedErrorHandler } from '../utils/enhanced-error-handler.js'
+import { environment } from '../config/environment.js'
+
+// 偏离的指标：成交量、成交笔数、买卖失衡反转、单笔价格冲击
+export type AnomalyMetric = 'volume' | 'tx_rate' | 'imbalance_flip' | 'price_impact'
+
+export interface AnomalyTrade {
+  tokenAddress: string
+  wallet: string
+  isBuy: boolean
+  solAmount: number
+  price: number // 成交后的价格（优先联合曲线现价）
+  timestamp: number // 事件时间（毫秒）
+}
+
+export interface TradingAnomaly {
+  tokenAddress: string
+  metric: AnomalyMetric
+  value: number // 当前值
+  baseline: number // 基线（均值或之前的值）
+  deviation: number // z 分数或百分比
+  description: string
+  timestamp: Date
+}
+
+// 一个统计窗口的成交
+export interface FlowWindow {
+  volume: number
+  txCount: number
+  buyVolume: number
+  sellVolume: number
+}
+
+// 当前窗口与基线窗口的长度
+const WINDOW = 5 * 60 * 1000
+const BASELINE_WINDOWS = 11 // 之前 55 分钟
+// 基线中至少有这么多个非空窗口才计算 z 分数
+const MIN_ACTIVE_BASELINE = 3
+// 买卖失衡反转：两个窗口的买入占比分别越过这两个界限
+const IMBALANCE_HIGH = 0.65
+const IMBALANCE_LOW = 0.35
+// 失衡判断需要的最小成交额（SOL）
+const MIN_IMBALANCE_VOLUME = 1
+// 同一代币同一指标的异常至少间隔该时长才再次上报
+const ANOMALY_COOLDOWN = 10 * 60 * 1000
+// 最近该时长内有成交的代币才做统计检测
+const ACTIVE_WINDOW = 5 * 60 * 1000
+const MAX_TOKENS_PER_RUN = 500
+
+/**
+ * 异常交易检测 - 以代币自身过去一小时为基线计算成交量与成交笔数的 z 分数，
+ * 识别买卖失衡反转，并实时记录单笔造成大幅价格变动的交易
+ */
+export class AnomalyDetector {
+  private db: DatabaseManager
+  private isRunning: boolean = false
+  private pruneTimer?: NodeJS.Timeout
+  private lastPrices: Map<string, { price: number, at: number }> = new Map()
+  private pending: TradingAnomaly[] = [] // 实时检测到、尚未上报的价格冲击
+  private reported: Map<string, number> = new Map() // `${token}:${metric}` -> 上次上报时间
+  private latestEventTime = 0 // 已见到的最新成交事件时间
+  private latestEventSeenAt = 0 // 见到该成交时的本地时间
+
+  constructor(db: DatabaseManager) {
+    this.db = db
+    logger.info('📊 异常交易检测服务已初始化')
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return
+    this.isRunning = true
+
+    logger.info(`📊 异常交易检测服务启动 (z 分数阈值: ${environment.alerts.abnormal.zScore}, 单笔价格冲击: ${environment.alerts.abnormal.priceImpact}%)`)
+
+    this.pruneTimer = setInterval(() => this.prune(), 60 * 1000)
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer)
+    }
+    this.lastPrices.clear()
+    this.pending = []
+    logger.info('📊 异常交易检测服务停止')
+  }
+
+  /**
+   * 对比上一笔成交后的价格，记录单笔价格冲击超过阈值的交易
+   */
+  recordTrade(trade: AnomalyTrade): void {
+    if (trade.timestamp > this.latestEventTime) {
+      this.latestEventTime = trade.timestamp
+      this.latestEventSeenAt = Date.now()
+    }
+    if (!(trade.price > 0)) return
+
+    const previous = this.lastPrices.get(trade.tokenAddress)
+    this.lastPrices.set(trade.tokenAddress, { price: trade.price, at: Date.now() })
+    if (!previous) return
+
+    const impact = ((trade.price - previous.price) / previous.price) * 100
+    if (Math.abs(impact) < environment.alerts.abnormal.priceImpact) return
+
+    this.pending.push({
+      tokenAddress: trade.tokenAddress,
+      metric: 'price_impact',
+      value: trade.price,
+      baseline: previous.price,
+      deviation: impact,
+      description: `单笔${trade.isBuy ? '买入' : '卖出'} ${trade.solAmount.toFixed(2)} SOL 使价格变动 ${impact > 0 ? '+' : ''}${impact.toFixed(1)}% ` +
+                   `(${trade.wallet.slice(0, 6)}...)`,
+      timestamp: new Date(trade.timestamp)
+    })
+  }
+
+  /**
+   * 检测活跃代币的统计异常，并取出实时记录的价格冲击；冷却期内重复的异常不再返回
+   */
+  detect(): TradingAnomaly[] {
+    const anomalies = this.pending
+    this.pending = []
+
+    try {
+      const now = this.now()
+      const since = new Date(now - ACTIVE_WINDOW).toISOString()
+      const tokens = this.db.getDb().prepare(`
+        SELECT address FROM tokens
+        WHERE is_active = 1 AND last_trade_at > ?
+        ORDER BY last_trade_at DESC
+        LIMIT ?
+      `).all(since, MAX_TOKENS_PER_RUN) as { address: string }[]
+
+      for (const token of tokens) {
+        anomalies.push(...this.detectFlowAnomalies(token.address, now))
+      }
+    } catch (error) {
+      enhancedErrorHandler.handleError(error as Error, 'AnomalyDetector.detect')
+    }
+
+    const now = Date.now()
+    return anomalies.filter(anomaly => {
+      const key = `${anomaly.tokenAddress}:${anomaly.metric}`
+      const last = this.reported.get(key)
+      if (last && now - last < ANOMALY_COOLDOWN) return false
+      this.reported.set(key, now)
+      return true
+    })
+  }
+
+  /**
+   * 由 1 分钟K线汇总当前 5 分钟窗口与之前的基线窗口（没有成交的分钟计为 0）
+   */
+  private detectFlowAnomalies(tokenAddress: string, now: number): TradingAnomaly[] {
+    const start = now - WINDOW * (BASELINE_WINDOWS + 1)
+
+    // 代币历史不足一小时时基线不可靠
+    const firstTrade = this.db.getDb().prepare('SELECT MIN(timestamp) AS first FROM trades WHERE token_address = ?')
+      .get(tokenAddress) as { first: string | null }
+    if (!firstTrade.first || new Date(firstTrade.first).getTime() > start) {
+      return []
+    }
+
+    const candles = this.db.getDb().prepare(`
+      SELECT open_time, volume_sol, buy_volume_sol, sell_volume_sol, buy_count, sell_count
+      FROM candles
+      WHERE token_address = ? AND interval = '1m' AND open_time >= ?
+    `).all(tokenAddress, new Date(start).toISOString()) as {
+      open_time: string
+      volume_sol: number
+      buy_volume_sol: number
+      sell_volume_sol: number
+      buy_count: number
+      sell_count: number
+    }[]
+
+    // windows[0] 为最早的基线窗口，最后一个为当前窗口
+    const windows: FlowWindow[] = Array.from({ length: BASELINE_WINDOWS + 1 }, () => ({
+      volume: 0, txCount: 0, buyVolume: 0, sellVolume: 0
+    }))
+    for (const candle of candles) {
+      const index = Math.floor((new Date(candle.open_time).getTime() - start) / WINDOW)
+      const window = windows[Math.min(Math.max(index, 0), BASELINE_WINDOWS)]
+      window.volume += candle.volume_sol
+      window.txCount += candle.buy_count + candle.sell_count
+      window.buyVolume += candle.buy_volume_sol
+      window.sellVolume += candle.sell_volume_sol
+    }
+
+    return findFlowAnomalies(tokenAddress, windows, environment.alerts.abnormal.zScore, new Date(now))
+  }
+
+  /**
+   * 事件时钟：最新成交事件时间加上此后经过的本地时间。
+   * 活跃代币与K线窗口都是事件时间，回放旧数据时按它取窗口才能得到基线
+   */
+  private now(): number {
+    if (this.latestEventTime === 0) return Date.now()
+    return this.latestEventTime + (Date.now() - this.latestEventSeenAt)
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - 60 * 60 * 1000
+    for (const [tokenAddress, last] of this.lastPrices) {
+      if (last.at < cutoff) this.lastPrices.delete(tokenAddress)
+    }
+    for (const [key, reportedAt] of this.reported) {
+      if (Date.now() - reportedAt > ANOMALY_COOLDOWN) this.reported.delete(key)
+    }
+  }
+}
+
+/**
+ * 对比当前窗口（最后一个）与之前的基线窗口：成交量与成交笔数的 z 分数，以及与上一窗口相比的买卖失衡反转
+ */
+export function findFlowAnomalies(
+  tokenAddress: string,
+  windows: FlowWindow[],
+  zThreshold: number,
+  timestamp: Date = new Date()
+): TradingAnomaly[] {
+  const current = windows[windows.length - 1]
+  const previous = windows[windows.length - 2]
+  const baseline = windows.slice(0, -1)
+  const anomalies: TradingAnomaly[] = []
+
+  const checks: { metric: AnomalyMetric, label: string, unit: string, pick: (window: FlowWindow) => number }[] = [
+    { metric: 'volume', label: '5分钟成交量', unit: ' SOL', pick: window => window.volume },
+    { metric: 'tx_rate', label: '5分钟成交笔数', unit: ' 笔', pick: window => window.txCount }
+  ]
+  for (const check of checks) {
+    const values = baseline.map(check.pick)
+    if (values.filter(value => value > 0).length < MIN_ACTIVE_BASELINE) continue
+
+    const { mean, std } = meanAndStd(values)
+    // 基线非常平稳时标准差接近 0，以均值的 10% 为下限避免微小波动被放大
+    const z = (check.pick(current) - mean) / Math.max(std, mean * 0.1, 1e-9)
+    if (Math.abs(z) < zThreshold) continue
+
+    const digits = check.metric === 'volume' ? 2 : 0
+    anomalies.push({
+      tokenAddress,
+      metric: check.metric,
+      value: check.pick(current),
+      baseline: mean,
+      deviation: z,
+      description: `${check.label} ${check.pick(current).toFixed(digits)}${check.unit}，` +
+                   `基线均值 ${mean.toFixed(digits)}${check.unit}（z = ${z.toFixed(1)}）`,
+      timestamp
+    })
+  }
+
+  const buyRatio = (window: FlowWindow) => {
+    const total = window.buyVolume + window.sellVolume
+    return total >= MIN_IMBALANCE_VOLUME ? window.buyVolume / total : null
+  }
+  const before = previous ? buyRatio(previous) : null
+  const after = buyRatio(current)
+  if (before !== null && after !== null) {
+    const toSell = before >= IMBALANCE_HIGH && after <= IMBALANCE_LOW
+    const toBuy = before <= IMBALANCE_LOW && after >= IMBALANCE_HIGH
+    if (toSell || toBuy) {
+      anomalies.push({
+        tokenAddress,
+        metric: 'imbalance_flip',
+        value: after * 100,
+        baseline: before * 100,
+        deviation: (after - before) * 100,
+        description: `买卖失衡反转${toSell ? '为卖方主导' : '为买方主导'}: 买入占比 ${(before * 100).toFixed(0)}% → ${(after * 100).toFixed(0)}%`,
+        timestamp
+      })
+    }
+  }
+
+  return anomalies
+}
+
+function meanAndStd(values: number[]): { mean: number, std: number } {
+  const mean = values.reduce((total, value) => total + value, 0) / values.length
+  const variance = values.reduce((total, value) => total + (value - mean) ** 2, 0) / values.length
+  return { mean, std: Math.sqrt(variance) }
+}
@@ -0,0 +1,223 @@
+import { DatabaseManager } from '../database/schema.js'
+import { logger } from '../utils/logger.js'
+import type { Statement } from 'better-sqlite3'
+import type { BondingCurveState } from '../../../shared/types/index.ts'
+
+// pump.fun 联合曲线参数
+export const INITIAL_VIRTUAL_SOL_RESERVES = 30
+export const INITIAL_VIRTUAL_TOKEN_RESERVES = 1_073_000_000
+export const INITIAL_REAL_TOKEN_RESERVES = 793_100_000
+export const TOKEN_TOTAL_SUPPLY = 1_000_000_000
+
+// 曲线上永远不会售出的虚拟代币部分
+const RESERVED_VIRTUAL_TOKENS = INITIAL_VIRTUAL_TOKEN_RESERVES - INITIAL_REAL_TOKEN_RESERVES
+
+export interface CurveReserves {
+  virtualSolReserves: number
+  virtualTokenReserves: number
+  marketCapSol?: number // PumpPortal 帧中自带的市值，缺失时按现价推算
+}
+
+/**
+ * 根据虚拟储备计算联合曲线状态
+ */
+export function calculateBondingCurveState(
+  tokenAddress: string,
+  reserves: CurveReserves,
+  updatedAt: Date = new Date()
+): BondingCurveState {
+  const { virtualSolReserves, virtualTokenReserves } = reserves
+
+  const realSolReserves = Math.max(0, virtualSolReserves - INITIAL_VIRTUAL_SOL_RESERVES)
+  const realTokenReserves = Math.max(0, virtualTokenReserves - RESERVED_VIRTUAL_TOKENS)
+  const priceSol = virtualTokenReserves > 0 ? virtualSolReserves / virtualTokenReserves : 0
+  const marketCapSol = reserves.marketCapSol && reserves.marketCapSol > 0
+    ? reserves.marketCapSol
+    : priceSol * TOKEN_TOTAL_SUPPLY
+
+  // 进度 = 已售出的真实代币占比
+  const progress = 100 - (realTokenReserves * 100) / INITIAL_REAL_TOKEN_RESERVES
+
+  return {
+    tokenAddress,
+    virtualSolReserves,
+    virtualTokenReserves,
+    realSolReserves,
+    realTokenReserves,
+    priceSol,
+    marketCapSol,
+    progress: Math.min(100, Math.max(0, progress)),
+    updatedAt
+  }
+}
+
+/**
+ * 曲线达到某一市值时的真实 SOL 储备（恒定乘积下 市值 = 虚拟SOL储备² / k × 总供应量）
+ */
+export function realSolReservesAtMarketCap(marketCapSol: number): number {
+  const k = INITIAL_VIRTUAL_SOL_RESERVES * INITIAL_VIRTUAL_TOKEN_RESERVES
+  return Math.max(0, Math.sqrt((marketCapSol * k) / TOKEN_TOTAL_SUPPLY) - INITIAL_VIRTUAL_SOL_RESERVES)
+}
+
+/**
+ * 联合曲线账户持有的代币数量（未售出部分 + 迁移时注入池子的预留部分）
+ */
+export function curveTokenBalance(virtualTokenReserves: number): number {
+  return Math.max(0, virtualTokenReserves - (INITIAL_VIRTUAL_TOKEN_RESERVES - TOKEN_TOTAL_SUPPLY))
+}
+
+/**
+ * 联合曲线状态追踪 - 每笔交易后更新内存状态，定时在单个事务中批量持久化
+ */
+export class BondingCurveTracker {
+  private db: DatabaseManager
+  private states: Map<string, BondingCurveState> = new Map()
+  private maxCacheSize = 5000
+  private pending: Map<string, { state: BondingCurveState, peakMarketCapSol: number }> = new Map() // 尚未写入的最新状态
+  private flushTimer?: NodeJS.Timeout
+  private upsertStmt: Statement | null = null
+
+  constructor(db: DatabaseManager) {
+    this.db = db
+  }
+
+  start(flushInterval: number): void {
+    if (this.flushTimer) return
+    this.flushTimer = setInterval(() => this.flush(), flushInterval)
+  }
+
+  /**
+   * 停止定时写入并写入剩余状态
+   */
+  stop(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer)
+      this.flushTimer = undefined
+    }
+    this.flush()
+  }
+
+  /**
+   * 用最新的虚拟储备更新代币曲线状态，储备无效或早于当前状态（乱序到达）时返回 null
+   */
+  update(tokenAddress: string, reserves: CurveReserves, updatedAt: Date = new Date()): BondingCurveState | null {
+    if (!(reserves.virtualSolReserves > 0) || !(reserves.virtualTokenReserves > 0)) {
+      return null
+    }
+
+    const current = this.states.get(tokenAddress)
+    if (current && current.updatedAt.getTime() > updatedAt.getTime()) {
+      return null
+    }
+
+    const state = calculateBondingCurveState(tokenAddress, reserves, updatedAt)
+
+    // 重新插入以维持 Map 的最近使用顺序
+    this.states.delete(tokenAddress)
+    this.states.set(tokenAddress, state)
+    if (this.states.size > this.maxCacheSize) {
+      const oldest = this.states.keys().next().value
+      if (oldest) this.states.delete(oldest)
+    }
+
+    // 两次写入之间只保留最新状态，峰值市值取期间最大值
+    const pending = this.pending.get(tokenAddress)
+    this.pending.set(tokenAddress, {
+      state,
+      peakMarketCapSol: Math.max(pending?.peakMarketCapSol ?? 0, state.marketCapSol)
+    })
+    return state
+  }
+
+  /**
+   * 获取代币曲线状态（优先内存，其次数据库）
+   */
+  getState(tokenAddress: string): BondingCurveState | null {
+    const cached = this.states.get(tokenAddress)
+    if (cached) return cached
+
+    try {
+      const row = this.db.getDb()
+        .prepare('SELECT * FROM bonding_curve_state WHERE token_address = ?')
+        .get(tokenAddress) as any
+      return row ? rowToBondingCurveState(row) : null
+    } catch (error) {
+      logger.error('读取联合曲线状态失败:', error)
+      return null
+    }
+  }
+
+  /**
+   * 将待写入的状态在单个事务中写入数据库
+   */
+  private flush(): void {
+    if (this.pending.size === 0) return
+
+    const entries = Array.from(this.pending.values())
+    this.pending.clear()
+
+    try {
+      const db = this.db.getDb()
+      this.upsertStmt ??= db.prepare(`
+        INSERT INTO bonding_curve_state (
+          token_address, virtual_sol_reserves, virtual_token_reserves,
+          real_sol_reserves, real_token_reserves, price_sol, market_cap_sol,
+          progress, peak_market_cap_sol, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(token_address) DO UPDATE SET
+          virtual_sol_reserves = excluded.virtual_sol_reserves,
+          virtual_token_reserves = excluded.virtual_token_reserves,
+          real_sol_reserves = excluded.real_sol_reserves,
+          real_token_reserves = excluded.real_token_reserves,
+          price_sol = excluded.price_sol,
+          market_cap_sol = excluded.market_cap_sol,
+          progress = excluded.progress,
+          peak_market_cap_sol = MAX(COALESCE(bonding_curve_state.peak_market_cap_sol, 0), excluded.peak_market_cap_sol),
+          updated_at = excluded.updated_at
+      `)
+      const stmt = this.upsertStmt
+      db.transaction(() => {
+        for (const { state, peakMarketCapSol } of entries) {
+          stmt.run(
+            state.tokenAddress,
+            state.virtualSolReserves,
+            state.virtualTokenReserves,
+            state.realSolReserves,
+            state.realTokenReserves,
+            state.priceSol,
+            state.marketCapSol,
+            state.progress,
+            peakMarketCapSol,
+            state.updatedAt.toISOString()
+          )
+        }
+      })()
+    } catch (error) {
+      // 写入失败时放回等待下次重试（期间已有更新的状态优先）
+      for (const entry of entries) {
+        const newer = this.pending.get(entry.state.tokenAddress)
+        this.pending.set(entry.state.tokenAddress, newer
+          ? { state: newer.state, peakMarketCapSol: Math.max(newer.peakMarketCapSol, entry.peakMarketCapSol) }
+          : entry)
+      }
+      logger.error('保存联合曲线状态失败:', error)
+    }
+  }
+}
+
+/**
+ * 数据库行转换为 BondingCurveState
+ */
+export function rowToBondingCurveState(row: any): BondingCurveState {
+  return {
+    tokenAddress: row.token_address,
+    virtualSolReserves: row.virtual_sol_reserves,
+    virtualTokenReserves: row.virtual_token_reserves,
+    realSolReserves: row.real_sol_reserves,
+    realTokenReserves: row.real_token_reserves,
+    priceSol: row.price_sol,
+    marketCapSol: row.market_cap_sol,
+    progress: row.progress,
+    updatedAt: new Date(row.updated_at)
+  }
+}
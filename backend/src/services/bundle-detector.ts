@@ -0,0 +1,360 @@
+import { DatabaseManager } from '../database/schema.js'
+import { AlertType } from '../../../shared/types/index.js'
+import { logger } from '../utils/logger.js'
+import { enhancedErrorHandler } from '../utils/enhanced-error-handler.js'
+import { environment } from '../config/environment.js'
+import { TOKEN_TOTAL_SUPPLY } from './bonding-curve.js'
+import type { AlertEngine } from './alert-engine.js'
+import type { Alert } from '../../../shared/types/index.ts'
+import type { Server } from 'socket.io'
+
+export interface BundleTrade {
+  tokenAddress: string
+  wallet: string
+  isBuy: boolean
+  tokenAmount: number
+  solAmount: number
+  timestamp: number // 事件时间（毫秒）
+}
+
+export interface BundleWallet {
+  wallet: string
+  tokenAmount: number
+  solAmount: number
+}
+
+export interface BundleCluster {
+  startedAt: number
+  wallets: BundleWallet[]
+}
+
+export interface BundledWallet {
+  tokenAddress: string
+  walletAddress: string
+  clusterAt: Date // 所属捆绑簇的起始时间
+  boughtTokens: number
+  solAmount: number
+  balance: number // 当前持仓（来自持仓账本）
+}
+
+export interface BundleStats {
+  tokenAddress: string
+  clusterCount: number
+  walletCount: number
+  bundledPercentage: number // 捆绑买入量占总供应量
+  holdingPercentage: number // 捆绑钱包当前仍持有的占比
+}
+
+interface EarlyLaunch {
+  createdAt: number
+  creator: string
+  tradeCount: number
+  buys: (BundleWallet & { timestamp: number })[]
+  signature: string // 上次写入的捆绑结果，未变化时跳过写库
+  alerted: boolean
+}
+
+// 同一簇内买入金额与中位数的最大偏差比例
+const SIZE_TOLERANCE = 0.25
+// 至少多少个不同钱包的相近买入才算捆绑
+const MIN_BUNDLE_WALLETS = 3
+// 只跟踪最近创建的代币，更早的代币早已过了发射阶段
+const LAUNCH_CACHE_TTL = 10 * 60 * 1000
+
+/**
+ * 捆绑发射检测 - 在创建后的前几笔交易中寻找同一时刻、金额相近的多钱包买入，
+ * 统计捆绑买入占供应量的比例，超过阈值时发出高风险预警
+ */
+export class BundleDetector {
+  private db: DatabaseManager
+  private io?: Server
+  private alertEngine?: AlertEngine
+  private isRunning: boolean = false
+  private pruneTimer?: NodeJS.Timeout
+  private launches: Map<string, EarlyLaunch | null> = new Map() // null 表示已过发射阶段或未知代币
+  private latestEventTime = 0 // 已见到的最新事件时间，缓存按它过期，回放历史数据时同样适用
+
+  constructor(db: DatabaseManager) {
+    this.db = db
+    logger.info('📦 捆绑检测服务已初始化')
+  }
+
+  setSocketIO(io: Server): void {
+    this.io = io
+  }
+
+  setAlertEngine(alertEngine: AlertEngine): void {
+    this.alertEngine = alertEngine
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return
+    this.isRunning = true
+
+    logger.info(`📦 捆绑检测服务启动 (前 ${environment.monitoring.bundleEarlyTrades} 笔交易, 同时容差 ${environment.monitoring.bundleTimeTolerance}ms)`)
+
+    this.pruneTimer = setInterval(() => this.pruneLaunches(), 60 * 1000)
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer)
+    }
+    this.launches.clear()
+    logger.info('📦 捆绑检测服务停止')
+  }
+
+  /**
+   * 记录代币创建时间与创建者（创建者自己的买入不计入捆绑）
+   */
+  recordLaunch(tokenAddress: string, createdAt: Date, creator: string): void {
+    this.latestEventTime = Math.max(this.latestEventTime, createdAt.getTime())
+    this.launches.set(tokenAddress, {
+      createdAt: createdAt.getTime(),
+      creator,
+      tradeCount: 0,
+      buys: [],
+      signature: '',
+      alerted: false
+    })
+  }
+
+  /**
+   * 收集发射阶段的交易，每笔买入后重新识别捆绑簇
+   */
+  async recordTrade(trade: BundleTrade): Promise<void> {
+    this.latestEventTime = Math.max(this.latestEventTime, trade.timestamp)
+    const launch = this.getLaunch(trade.tokenAddress)
+    if (!launch || launch.tradeCount >= environment.monitoring.bundleEarlyTrades) return
+
+    launch.tradeCount++
+    if (!trade.isBuy || !trade.wallet || !(trade.tokenAmount > 0) || trade.wallet === launch.creator) return
+
+    launch.buys.push({
+      wallet: trade.wallet,
+      tokenAmount: trade.tokenAmount,
+      solAmount: trade.solAmount,
+      timestamp: trade.timestamp
+    })
+
+    try {
+      const clusters = detectBundles(launch.buys, environment.monitoring.bundleTimeTolerance)
+      const signature = clusters.map(cluster => cluster.wallets.map(wallet => wallet.wallet).join(',')).join('|')
+      if (signature === launch.signature) return
+      launch.signature = signature
+
+      this.saveClusters(trade.tokenAddress, clusters)
+      if (clusters.length === 0) return
+
+      const stats = queryBundleStats(this.db, trade.tokenAddress)
+      this.io?.to(`token:${trade.tokenAddress}`).emit('bundle_update', stats)
+
+      if (!launch.alerted && stats.bundledPercentage >= environment.alerts.bundle.supplyPercent) {
+        launch.alerted = true
+        await this.alertBundled(stats)
+      }
+    } catch (error) {
+      enhancedErrorHandler.handleError(error as Error, 'BundleDetector.recordTrade', { tokenAddress: trade.tokenAddress })
+    }
+  }
+
+  /**
+   * 以最新识别结果覆盖该代币的捆绑钱包
+   */
+  private saveClusters(tokenAddress: string, clusters: BundleCluster[]): void {
+    const db = this.db.getDb()
+    const insertStmt = db.prepare(`
+      INSERT OR IGNORE INTO token_bundles (token_address, wallet_address, cluster_at, bought_tokens, sol_amount)
+      VALUES (?, ?, ?, ?, ?)
+    `)
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM token_bundles WHERE token_address = ?').run(tokenAddress)
+      for (const cluster of clusters) {
+        const clusterAt = new Date(cluster.startedAt).toISOString()
+        for (const wallet of cluster.wallets) {
+          insertStmt.run(tokenAddress, wallet.wallet, clusterAt, wallet.tokenAmount, wallet.solAmount)
+        }
+      }
+    })()
+  }
+
+  private async alertBundled(stats: BundleStats): Promise<void> {
+    const token = this.getTokenLabel(stats.tokenAddress)
+    logger.warn(`📦 检测到捆绑发射: ${token.symbol} (${stats.walletCount} 个钱包, ${stats.bundledPercentage.toFixed(1)}% 供应量)`)
+
+    await this.raiseAlert({
+      id: `bundle_${stats.tokenAddress}_${Date.now()}`,
+      tokenAddress: stats.tokenAddress,
+      type: AlertType.HIGH_RISK,
+      title: `📦 捆绑发射: ${token.symbol}`,
+      message: `${token.name} (${token.symbol}) 发射时 ${stats.walletCount} 个钱包同时买入相近金额\n` +
+               `捆绑买入: ${stats.bundledPercentage.toFixed(1)}% 供应量\n` +
+               `仍持有: ${stats.holdingPercentage.toFixed(1)}% 供应量`,
+      score: Math.round(Math.min(100, stats.bundledPercentage * 2)),
+      conditions: [
+        `捆绑簇: ${stats.clusterCount}`,
+        `捆绑钱包: ${stats.walletCount}`,
+        `捆绑供应量: ${stats.bundledPercentage.toFixed(1)}%`
+      ],
+      timestamp: new Date(),
+      isRead: false
+    })
+  }
+
+  private async raiseAlert(alert: Alert): Promise<void> {
+    if (this.alertEngine) {
+      await this.alertEngine.raiseAlert(alert)
+    }
+  }
+
+  /**
+   * 发射信息优先取内存，其次查询代币表（服务启动前创建、尚在发射阶段的代币）
+   */
+  private getLaunch(tokenAddress: string): EarlyLaunch | null {
+    const cached = this.launches.get(tokenAddress)
+    if (cached !== undefined) return cached
+
+    const row = this.db.getDb().prepare(`
+      SELECT created_at, creator_address FROM tokens WHERE address = ?
+    `).get(tokenAddress) as { created_at: string, creator_address: string | null } | undefined
+
+    const createdAt = row ? new Date(row.created_at).getTime() : NaN
+    if (!Number.isFinite(createdAt) || createdAt <= this.latestEventTime - LAUNCH_CACHE_TTL) {
+      this.launches.set(tokenAddress, null)
+      return null
+    }
+
+    this.recordLaunch(tokenAddress, new Date(createdAt), row?.creator_address || '')
+    return this.launches.get(tokenAddress) ?? null
+  }
+
+  private pruneLaunches(): void {
+    const cutoff = this.latestEventTime - LAUNCH_CACHE_TTL
+    for (const [tokenAddress, launch] of this.launches) {
+      if (!launch || launch.createdAt < cutoff) {
+        this.launches.delete(tokenAddress)
+      }
+    }
+  }
+
+  private getTokenLabel(tokenAddress: string): { name: string, symbol: string } {
+    const row = this.db.getDb()
+      .prepare('SELECT name, symbol FROM tokens WHERE address = ?')
+      .get(tokenAddress) as { name: string, symbol: string } | undefined
+    return row || { name: tokenAddress, symbol: tokenAddress.slice(0, 6) }
+  }
+}
+
+/**
+ * 识别捆绑簇：与簇内首笔买入相隔不超过 timeTolerance 的买入视为同一时刻（同一 slot），
+ * 同一时刻内金额与中位数相近的不同钱包达到 MIN_BUNDLE_WALLETS 个即为一个捆绑簇
+ */
+export function detectBundles(
+  buys: (BundleWallet & { timestamp: number })[],
+  timeTolerance: number
+): BundleCluster[] {
+  const sorted = [...buys].sort((a, b) => a.timestamp - b.timestamp)
+  const groups: (typeof sorted)[] = []
+  for (const buy of sorted) {
+    const group = groups.at(-1)
+    if (group && buy.timestamp - group[0].timestamp <= timeTolerance) {
+      group.push(buy)
+    } else {
+      groups.push([buy])
+    }
+  }
+
+  const clusters: BundleCluster[] = []
+  const bundled = new Set<string>()
+  for (const group of groups) {
+    // 同一钱包在同一时刻的多笔买入合并计算
+    const wallets = new Map<string, BundleWallet>()
+    for (const buy of group) {
+      if (bundled.has(buy.wallet)) continue
+      const wallet = wallets.get(buy.wallet) ?? { wallet: buy.wallet, tokenAmount: 0, solAmount: 0 }
+      wallet.tokenAmount += buy.tokenAmount
+      wallet.solAmount += buy.solAmount
+      wallets.set(buy.wallet, wallet)
+    }
+    if (wallets.size < MIN_BUNDLE_WALLETS) continue
+
+    const amounts = [...wallets.values()].map(wallet => wallet.solAmount).sort((a, b) => a - b)
+    const middle = Math.floor(amounts.length / 2)
+    const median = amounts.length % 2 === 0 ? (amounts[middle - 1] + amounts[middle]) / 2 : amounts[middle]
+    if (!(median > 0)) continue
+
+    const similar = [...wallets.values()].filter(wallet => Math.abs(wallet.solAmount - median) <= median * SIZE_TOLERANCE)
+    if (similar.length < MIN_BUNDLE_WALLETS) continue
+
+    similar.forEach(wallet => bundled.add(wallet.wallet))
+    clusters.push({ startedAt: group[0].timestamp, wallets: similar })
+  }
+
+  return clusters
+}
+
+export function queryBundledWallets(db: DatabaseManager, tokenAddress: string): BundledWallet[] {
+  const rows = db.getDb().prepare(`
+    SELECT b.*, COALESCE(h.balance, 0) AS balance
+    FROM token_bundles b
+    LEFT JOIN token_holders h ON h.token_address = b.token_address AND h.wallet_address = b.wallet_address
+    WHERE b.token_address = ?
+    ORDER BY b.cluster_at ASC, b.bought_tokens DESC
+  `).all(tokenAddress) as any[]
+
+  return rows.map(rowToBundledWallet)
+}
+
+export function queryBundleStats(db: DatabaseManager, tokenAddress: string): BundleStats {
+  const wallets = queryBundledWallets(db, tokenAddress)
+  const token = db.getDb().prepare('SELECT total_supply FROM tokens WHERE address = ?')
+    .get(tokenAddress) as { total_supply: string | null } | undefined
+  const totalSupply = Number(token?.total_supply) || TOKEN_TOTAL_SUPPLY
+  const percentOf = (amount: number) => (amount / totalSupply) * 100
+
+  const bought = wallets.reduce((total, wallet) => total + wallet.boughtTokens, 0)
+  const holding = wallets.reduce((total, wallet) => total + Math.max(0, wallet.balance), 0)
+
+  return {
+    tokenAddress,
+    clusterCount: new Set(wallets.map(wallet => wallet.clusterAt.getTime())).size,
+    walletCount: wallets.length,
+    bundledPercentage: percentOf(bought),
+    holdingPercentage: percentOf(holding)
+  }
+}
+
+/**
+ * 批量查询多个代币的捆绑买入占比（列表页使用，一次查询代替逐个统计）
+ */
+export function queryBundledPercentages(db: DatabaseManager, tokenAddresses: string[]): Map<string, number> {
+  const percentages = new Map(tokenAddresses.map(tokenAddress => [tokenAddress, 0]))
+  if (tokenAddresses.length === 0) return percentages
+
+  const rows = db.getDb().prepare(`
+    SELECT b.token_address, t.total_supply, SUM(b.bought_tokens) AS bought
+    FROM token_bundles b
+    LEFT JOIN tokens t ON t.address = b.token_address
+    WHERE b.token_address IN (${tokenAddresses.map(() => '?').join(', ')})
+    GROUP BY b.token_address
+  `).all(...tokenAddresses) as { token_address: string, total_supply: string | null, bought: number }[]
+
+  for (const row of rows) {
+    const totalSupply = Number(row.total_supply) || TOKEN_TOTAL_SUPPLY
+    percentages.set(row.token_address, (row.bought / totalSupply) * 100)
+  }
+  return percentages
+}
+
+export function rowToBundledWallet(row: any): BundledWallet {
+  return {
+    tokenAddress: row.token_address,
+    walletAddress: row.wallet_address,
+    clusterAt: new Date(row.cluster_at),
+    boughtTokens: row.bought_tokens,
+    solAmount: row.sol_amount,
+    balance: row.balance ?? 0
+  }
+}
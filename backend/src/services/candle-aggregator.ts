@@ -0,0 +1,407 @@
+import { DatabaseManager } from '../database/schema.js'
+import { logger } from '../utils/logger.js'
+import { enhancedErrorHandler } from '../utils/enhanced-error-handler.js'
+import { environment } from '../config/environment.js'
+import type { Statement } from 'better-sqlite3'
+import type { Candle, CandleInterval } from '../../../shared/types/index.ts'
+
+// 各周期的毫秒数
+export const CANDLE_INTERVALS: Record<CandleInterval, number> = {
+  '1s': 1000,
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000
+}
+
+const INTERVALS = Object.keys(CANDLE_INTERVALS) as CandleInterval[]
+
+export interface CandleTrade {
+  tokenAddress: string
+  price: number // SOL/代币
+  solAmount: number
+  tokenAmount: number
+  isBuy: boolean
+  timestamp: number // 事件时间（毫秒）
+}
+
+// 尚未写入数据库的增量，写入时与已有K线合并
+interface PendingCandle {
+  tokenAddress: string
+  interval: CandleInterval
+  openTime: number
+  open: number
+  high: number
+  low: number
+  close: number
+  volumeSol: number
+  volumeToken: number
+  buyVolumeSol: number
+  sellVolumeSol: number
+  buyCount: number
+  sellCount: number
+  firstTradeAt: number
+  lastTradeAt: number
+}
+
+export function isCandleInterval(value: string): value is CandleInterval {
+  return Object.hasOwn(CANDLE_INTERVALS, value)
+}
+
+/**
+ * 时间向下取整到周期起点
+ */
+export function floorToInterval(timestamp: number, interval: CandleInterval): number {
+  const size = CANDLE_INTERVALS[interval]
+  return Math.floor(timestamp / size) * size
+}
+
+/**
+ * K线聚合服务 - 由实时交易增量维护各周期 OHLCV，并可从交易表重建
+ */
+export class CandleAggregator {
+  private db: DatabaseManager
+  private isRunning: boolean = false
+  private flushTimer?: NodeJS.Timeout
+  private pruneTimer?: NodeJS.Timeout
+  private pending: Map<string, PendingCandle> = new Map()
+  private upsertStmt: Statement | null = null
+
+  constructor(db: DatabaseManager) {
+    this.db = db
+    logger.info('🕯️ K线聚合服务已初始化')
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return
+    this.isRunning = true
+
+    logger.info('🕯️ K线聚合服务启动')
+
+    // 补齐有交易但还没有K线的代币（例如升级前写入的交易）
+    await this.backfillMissing()
+
+    this.flushTimer = setInterval(() => this.flush(), environment.monitoring.candleFlushInterval)
+    this.pruneTimer = setInterval(() => this.prune(), 60 * 60 * 1000) // 每小时清理一次
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer)
+    }
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer)
+    }
+    this.flush()
+    logger.info('🕯️ K线聚合服务停止')
+  }
+
+  /**
+   * 记录一笔交易到所有周期的K线
+   */
+  addTrade(trade: CandleTrade): void {
+    accumulate(this.pending, trade)
+  }
+
+  /**
+   * 查询K线（按开盘时间升序）
+   */
+  getCandles(
+    tokenAddress: string,
+    interval: CandleInterval,
+    options: { from?: Date, to?: Date, limit?: number } = {}
+  ): Candle[] {
+    // 先写入该代币未落库的增量，保证最新一根K线完整
+    this.flush(tokenAddress)
+
+    return queryCandles(this.db, tokenAddress, interval, options)
+  }
+
+  /**
+   * 从交易表重建代币的全部K线，返回参与聚合的交易数（仅用于尚无实时增量的代币）
+   */
+  private rebuildFromTrades(tokenAddress: string): number {
+    const db = this.db.getDb()
+    const trades = db.prepare(`
+      SELECT sol_amount, token_amount, price_per_token, is_buy, timestamp
+      FROM trades
+      WHERE token_address = ?
+      ORDER BY timestamp ASC
+    `).all(tokenAddress) as any[]
+
+    const rebuilt: Map<string, PendingCandle> = new Map()
+    for (const row of trades) {
+      accumulate(rebuilt, {
+        tokenAddress,
+        price: row.token_amount > 0 ? row.sol_amount / row.token_amount : row.price_per_token,
+        solAmount: row.sol_amount,
+        tokenAmount: row.token_amount,
+        isBuy: Boolean(row.is_buy),
+        timestamp: new Date(row.timestamp).getTime()
+      })
+    }
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM candles WHERE token_address = ?').run(tokenAddress)
+      this.writeCandles(Array.from(rebuilt.values()))
+    })()
+
+    return trades.length
+  }
+
+  /**
+   * 将增量写入数据库（指定代币时只写入该代币的增量）
+   */
+  private flush(tokenAddress?: string): void {
+    if (this.pending.size === 0) return
+
+    const candles: PendingCandle[] = []
+    for (const [key, candle] of this.pending) {
+      if (tokenAddress && candle.tokenAddress !== tokenAddress) continue
+      candles.push(candle)
+      this.pending.delete(key)
+    }
+    if (candles.length === 0) return
+
+    try {
+      const db = this.db.getDb()
+      db.transaction(() => this.writeCandles(candles))()
+    } catch (error) {
+      // 写入失败时放回队列等待下次重试
+      for (const candle of candles) {
+        const key = candleKey(candle.tokenAddress, candle.interval, candle.openTime)
+        const newer = this.pending.get(key)
+        if (newer) mergeCandle(candle, newer)
+        this.pending.set(key, candle)
+      }
+      logger.error('❌ 写入K线失败:', error)
+    }
+  }
+
+  private writeCandles(candles: PendingCandle[]): void {
+    const stmt = this.getUpsertStatement()
+    for (const candle of candles) {
+      stmt.run(
+        candle.tokenAddress,
+        candle.interval,
+        new Date(candle.openTime).toISOString(),
+        candle.open,
+        candle.high,
+        candle.low,
+        candle.close,
+        candle.volumeSol,
+        candle.volumeToken,
+        candle.buyVolumeSol,
+        candle.sellVolumeSol,
+        candle.buyCount,
+        candle.sellCount,
+        new Date(candle.firstTradeAt).toISOString(),
+        new Date(candle.lastTradeAt).toISOString()
+      )
+    }
+  }
+
+  private async backfillMissing(): Promise<void> {
+    try {
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
+      const rows = this.db.getDb().prepare(`
+        SELECT DISTINCT t.token_address
+        FROM trades t
+        WHERE t.timestamp > ?
+          AND NOT EXISTS (SELECT 1 FROM candles c WHERE c.token_address = t.token_address)
+        LIMIT 500
+      `).all(since) as { token_address: string }[]
+
+      if (rows.length === 0) return
+
+      let trades = 0
+      for (const row of rows) {
+        trades += this.rebuildFromTrades(row.token_address)
+      }
+      logger.info(`🕯️ 已从 ${trades} 笔历史交易补齐 ${rows.length} 个代币的K线`)
+    } catch (error) {
+      await enhancedErrorHandler.handleError(error as Error, 'backfillMissing')
+    }
+  }
+
+  /**
+   * 清理过期的秒级K线
+   */
+  private prune(): void {
+    try {
+      const cutoff = new Date(Date.now() - environment.monitoring.candleRetention1s).toISOString()
+      const result = this.db.getDb()
+        .prepare(`DELETE FROM candles WHERE interval = '1s' AND open_time < ?`)
+        .run(cutoff)
+      if (result.changes > 0) {
+        logger.info(`🕯️ 清理过期秒级K线: ${result.changes} 根`)
+      }
+    } catch (error) {
+      logger.error('清理K线失败:', error)
+    }
+  }
+
+  private getUpsertStatement(): Statement {
+    // 已有K线与增量合并：开盘取更早的交易，收盘取更晚的交易，成交量累加
+    this.upsertStmt ??= this.db.getDb().prepare(`
+      INSERT INTO candles (
+        token_address, interval, open_time, open, high, low, close,
+        volume_sol, volume_token, buy_volume_sol, sell_volume_sol,
+        buy_count, sell_count, first_trade_at, last_trade_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(token_address, interval, open_time) DO UPDATE SET
+        open = CASE WHEN excluded.first_trade_at < candles.first_trade_at THEN excluded.open ELSE candles.open END,
+        close = CASE WHEN excluded.last_trade_at >= candles.last_trade_at THEN excluded.close ELSE candles.close END,
+        high = MAX(candles.high, excluded.high),
+        low = MIN(candles.low, excluded.low),
+        volume_sol = candles.volume_sol + excluded.volume_sol,
+        volume_token = candles.volume_token + excluded.volume_token,
+        buy_volume_sol = candles.buy_volume_sol + excluded.buy_volume_sol,
+        sell_volume_sol = candles.sell_volume_sol + excluded.sell_volume_sol,
+        buy_count = candles.buy_count + excluded.buy_count,
+        sell_count = candles.sell_count + excluded.sell_count,
+        first_trade_at = MIN(candles.first_trade_at, excluded.first_trade_at),
+        last_trade_at = MAX(candles.last_trade_at, excluded.last_trade_at)
+    `)
+    return this.upsertStmt
+  }
+}
+
+function candleKey(tokenAddress: string, interval: CandleInterval, openTime: number): string {
+  return `${tokenAddress}:${interval}:${openTime}`
+}
+
+/**
+ * 将交易累加到各周期的增量K线
+ */
+function accumulate(pending: Map<string, PendingCandle>, trade: CandleTrade): void {
+  if (!(trade.price > 0) || !Number.isFinite(trade.timestamp)) return
+
+  for (const interval of INTERVALS) {
+    const openTime = floorToInterval(trade.timestamp, interval)
+    const key = candleKey(trade.tokenAddress, interval, openTime)
+    const candle = pending.get(key)
+
+    if (candle) {
+      mergeTrade(candle, trade)
+    } else {
+      pending.set(key, {
+        tokenAddress: trade.tokenAddress,
+        interval,
+        openTime,
+        open: trade.price,
+        high: trade.price,
+        low: trade.price,
+        close: trade.price,
+        volumeSol: trade.solAmount,
+        volumeToken: trade.tokenAmount,
+        buyVolumeSol: trade.isBuy ? trade.solAmount : 0,
+        sellVolumeSol: trade.isBuy ? 0 : trade.solAmount,
+        buyCount: trade.isBuy ? 1 : 0,
+        sellCount: trade.isBuy ? 0 : 1,
+        firstTradeAt: trade.timestamp,
+        lastTradeAt: trade.timestamp
+      })
+    }
+  }
+}
+
+function mergeTrade(candle: PendingCandle, trade: CandleTrade): void {
+  // 乱序到达的交易按事件时间决定是否改写开盘 / 收盘价
+  if (trade.timestamp < candle.firstTradeAt) {
+    candle.open = trade.price
+    candle.firstTradeAt = trade.timestamp
+  }
+  if (trade.timestamp >= candle.lastTradeAt) {
+    candle.close = trade.price
+    candle.lastTradeAt = trade.timestamp
+  }
+  candle.high = Math.max(candle.high, trade.price)
+  candle.low = Math.min(candle.low, trade.price)
+  candle.volumeSol += trade.solAmount
+  candle.volumeToken += trade.tokenAmount
+  if (trade.isBuy) {
+    candle.buyVolumeSol += trade.solAmount
+    candle.buyCount++
+  } else {
+    candle.sellVolumeSol += trade.solAmount
+    candle.sellCount++
+  }
+}
+
+/**
+ * 将 source 合并进 target（同一周期的两段增量）
+ */
+function mergeCandle(target: PendingCandle, source: PendingCandle): void {
+  if (source.firstTradeAt < target.firstTradeAt) {
+    target.open = source.open
+    target.firstTradeAt = source.firstTradeAt
+  }
+  if (source.lastTradeAt >= target.lastTradeAt) {
+    target.close = source.close
+    target.lastTradeAt = source.lastTradeAt
+  }
+  target.high = Math.max(target.high, source.high)
+  target.low = Math.min(target.low, source.low)
+  target.volumeSol += source.volumeSol
+  target.volumeToken += source.volumeToken
+  target.buyVolumeSol += source.buyVolumeSol
+  target.sellVolumeSol += source.sellVolumeSol
+  target.buyCount += source.buyCount
+  target.sellCount += source.sellCount
+}
+
+/**
+ * 查询K线（按开盘时间升序），未指定起点时返回最近的 limit 根
+ */
+export function queryCandles(
+  db: DatabaseManager,
+  tokenAddress: string,
+  interval: CandleInterval,
+  options: { from?: Date, to?: Date, limit?: number } = {}
+): Candle[] {
+  const conditions = ['token_address = ?', 'interval = ?']
+  const params: any[] = [tokenAddress, interval]
+
+  if (options.from) {
+    conditions.push('open_time >= ?')
+    params.push(new Date(floorToInterval(options.from.getTime(), interval)).toISOString())
+  }
+  if (options.to) {
+    conditions.push('open_time <= ?')
+    params.push(options.to.toISOString())
+  }
+
+  const rows = db.getDb().prepare(`
+    SELECT * FROM candles
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY open_time ${options.from ? 'ASC' : 'DESC'}
+    LIMIT ?
+  `).all(...params, options.limit || 500) as any[]
+
+  const candles = rows.map(rowToCandle)
+  return options.from ? candles : candles.reverse()
+}
+
+/**
+ * 数据库行转换为 Candle
+ */
+export function rowToCandle(row: any): Candle {
+  return {
+    tokenAddress: row.token_address,
+    interval: row.interval,
+    openTime: new Date(row.open_time),
+    open: row.open,
+    high: row.high,
+    low: row.low,
+    close: row.close,
+    volumeSol: row.volume_sol,
+    volumeToken: row.volume_token,
+    buyVolumeSol: row.buy_volume_sol,
+    sellVolumeSol: row.sell_volume_sol,
+    buyCount: row.buy_count,
+    sellCount: row.sell_count
+  }
+}
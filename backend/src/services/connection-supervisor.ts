@@ -0,0 +1,165 @@
+import { logger } from '../utils/logger.js'
+
+export type ConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'stopped'
+
+export interface ConnectionSupervisorOptions {
+  name: string
+  baseDelay: number // 首次重连等待（毫秒）
+  maxDelay: number // 重连等待上限（毫秒）
+  staleTimeout: number // 超过该时长未收到消息视为连接停滞（毫秒）
+}
+
+export interface ConnectionHandlers {
+  connect: () => void // 建立新连接
+  terminate: () => void // 强制关闭当前连接，之后应回调 markDisconnected
+}
+
+export interface ConnectionStatus {
+  state: ConnectionState
+  connectedAt: Date | null
+  lastMessageAt: Date | null
+  lastMessageAgeMs: number | null
+  reconnectCount: number
+  consecutiveFailures: number
+  nextRetryAt: Date | null
+  lastError: string | null
+  staleReconnects: number
+}
+
+/**
+ * 连接监督器 - 无限次抖动退避重连，并在数据流停滞时主动重连
+ */
+export class ConnectionSupervisor {
+  private options: ConnectionSupervisorOptions
+  private handlers: ConnectionHandlers
+  private state: ConnectionState = 'idle'
+  private retryTimer?: NodeJS.Timeout
+  private watchdogTimer?: NodeJS.Timeout
+
+  private connectedAt: number | null = null
+  private lastMessageAt: number | null = null
+  private nextRetryAt: number | null = null
+  private lastError: string | null = null
+  private reconnectCount = 0
+  private consecutiveFailures = 0
+  private staleReconnects = 0
+
+  constructor(options: ConnectionSupervisorOptions, handlers: ConnectionHandlers) {
+    this.options = options
+    this.handlers = handlers
+  }
+
+  /**
+   * 开始监督：建立首个连接并启动停滞检测
+   */
+  start(): void {
+    if (this.state !== 'idle' && this.state !== 'stopped') return
+
+    this.watchdogTimer = setInterval(() => this.checkStale(), Math.max(1000, this.options.staleTimeout / 4))
+    this.connect()
+  }
+
+  /**
+   * 停止监督，不再重连
+   */
+  stop(): void {
+    this.state = 'stopped'
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = undefined
+    }
+    if (this.watchdogTimer) {
+      clearInterval(this.watchdogTimer)
+      this.watchdogTimer = undefined
+    }
+    this.nextRetryAt = null
+  }
+
+  markConnected(): void {
+    if (this.state === 'stopped') return
+
+    this.state = 'connected'
+    this.connectedAt = Date.now()
+    this.lastMessageAt = Date.now()
+    this.nextRetryAt = null
+    logger.info(`🔌 ${this.options.name} 已连接`)
+  }
+
+  markMessage(): void {
+    this.lastMessageAt = Date.now()
+    // 收到数据才认为连接真正恢复，避免连上即断时退避被重置
+    this.consecutiveFailures = 0
+  }
+
+  /**
+   * 连接关闭或出错，安排重连（同一次断开的多个回调只会安排一次）
+   */
+  markDisconnected(reason: string): void {
+    if (this.state === 'stopped' || this.retryTimer) return
+
+    this.state = 'reconnecting'
+    this.connectedAt = null
+    this.lastError = reason
+    this.consecutiveFailures++
+
+    const delay = this.nextDelay()
+    this.nextRetryAt = Date.now() + delay
+    logger.warn(`🔌 ${this.options.name} 连接断开 (${reason})，${Math.round(delay)}ms 后重连 (连续失败 ${this.consecutiveFailures} 次)`)
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined
+      this.nextRetryAt = null
+      if (this.state === 'stopped') return
+
+      this.reconnectCount++
+      this.connect()
+    }, delay)
+  }
+
+  getStatus(): ConnectionStatus {
+    return {
+      state: this.state,
+      connectedAt: this.connectedAt ? new Date(this.connectedAt) : null,
+      lastMessageAt: this.lastMessageAt ? new Date(this.lastMessageAt) : null,
+      lastMessageAgeMs: this.lastMessageAt ? Date.now() - this.lastMessageAt : null,
+      reconnectCount: this.reconnectCount,
+      consecutiveFailures: this.consecutiveFailures,
+      nextRetryAt: this.nextRetryAt ? new Date(this.nextRetryAt) : null,
+      lastError: this.lastError,
+      staleReconnects: this.staleReconnects
+    }
+  }
+
+  /**
+   * 建立连接，同步抛出的错误（如地址无效）与连接断开一样进入退避重连
+   */
+  private connect(): void {
+    this.state = 'connecting'
+    try {
+      this.handlers.connect()
+    } catch (error) {
+      this.markDisconnected((error as Error).message)
+    }
+  }
+
+  /**
+   * 指数退避，等待时间在 [delay/2, delay] 之间随机，避免多实例同时重连
+   */
+  private nextDelay(): number {
+    const exponent = Math.min(this.consecutiveFailures - 1, 20)
+    const delay = Math.min(this.options.maxDelay, this.options.baseDelay * Math.pow(2, exponent))
+    return delay / 2 + Math.random() * delay / 2
+  }
+
+  private checkStale(): void {
+    if (this.state !== 'connected' || this.lastMessageAt === null) return
+
+    const age = Date.now() - this.lastMessageAt
+    if (age > this.options.staleTimeout) {
+      this.staleReconnects++
+      logger.warn(`🔌 ${this.options.name} ${Math.round(age / 1000)} 秒未收到消息，强制重连`)
+      this.handlers.terminate()
+      this.markDisconnected(`stale for ${age}ms`)
+    }
+  }
+}
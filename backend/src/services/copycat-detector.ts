@@ -0,0 +1,471 @@
+import { DatabaseManager } from '../database/schema.js'
+import { AlertType } from '../../../shared/types/index.js'
+import { logger } from '../utils/logger.js'
+import { enhancedErrorHandler } from '../utils/enhanced-error-handler.js'
+import { environment } from '../config/environment.js'
+import type { AlertEngine } from './alert-engine.js'
+import type { Alert, TokenInfo } from '../../../shared/types/index.ts'
+import type { Server } from 'socket.io'
+
+export interface CopycatCandidate {
+  address: string
+  name: string
+  symbol: string
+  createdAt: Date | null // 已验证映射中的代币可能没有创建时间
+  socialLinks: string[] // 归一化后的社交链接
+  wellKnown: boolean // 已验证映射或已毕业的代币
+}
+
+export interface CopycatMatch {
+  originalAddress: string
+  nameSimilarity: number // 0-1
+  symbolSimilarity: number // 0-1
+  sharedLinks: string[]
+  similarity: number // 综合相似度 0-1
+  reasons: string[]
+}
+
+export interface CopycatInfo {
+  tokenAddress: string
+  originalAddress: string
+  originalName: string | null
+  originalSymbol: string | null
+  similarity: number
+  reasons: string[]
+}
+
+// 形近字符替换（仿盘常用 0/O、1/I/l 等混淆）
+const HOMOGLYPHS: Record<string, string> = {
+  '0': 'o', '1': 'i', 'l': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '$': 's'
+}
+// 索引保留最近该时长内创建的代币（已验证与已毕业的代币常驻）
+const LOOKBACK = 24 * 60 * 60 * 1000
+// 定期清理过期的近期代币并刷新知名代币
+const REFRESH_INTERVAL = 60 * 60 * 1000
+
+/**
+ * 仿盘检测 - 新代币创建时，将名称、代号与社交链接与近期代币及知名代币（已验证映射、已毕业代币）比对，
+ * 标记仿盘并关联到原始代币。候选保存在内存索引中，按代号（含删除一个字符的变体）与社交链接预筛选，
+ * 只对预筛出的少量候选计算编辑距离
+ */
+export class CopycatDetector {
+  private db: DatabaseManager
+  private io?: Server
+  private alertEngine?: AlertEngine
+  private isRunning: boolean = false
+  private refreshTimer?: NodeJS.Timeout
+  private candidates: Map<string, CopycatCandidate> = new Map()
+  private bySymbol: Map<string, Set<string>> = new Map() // 代号键 -> 代币地址
+  private byLink: Map<string, Set<string>> = new Map() // 社交链接 -> 代币地址
+  private latestCreatedAt = 0 // 已见到的最新创建时间，回放时按事件时间清理
+
+  constructor(db: DatabaseManager) {
+    this.db = db
+    logger.info('🎭 仿盘检测服务已初始化')
+  }
+
+  setSocketIO(io: Server): void {
+    this.io = io
+  }
+
+  setAlertEngine(alertEngine: AlertEngine): void {
+    this.alertEngine = alertEngine
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return
+    this.isRunning = true
+
+    this.loadIndex()
+    logger.info(`🎭 仿盘检测服务启动 (候选代币: ${this.candidates.size})`)
+
+    this.refreshTimer = setInterval(() => this.refresh(), REFRESH_INTERVAL)
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer)
+    }
+    this.candidates.clear()
+    this.bySymbol.clear()
+    this.byLink.clear()
+    logger.info('🎭 仿盘检测服务停止')
+  }
+
+  /**
+   * 检查新代币是否仿冒已有代币，命中时写入代币记录并发出预警；检查后将该代币加入索引
+   */
+  async checkToken(token: TokenInfo): Promise<CopycatMatch | null> {
+    try {
+      const socialLinks = normalizeSocialLinks(token.socialLinks)
+      const match = findCopycatMatch(
+        { name: token.name, symbol: token.symbol, socialLinks },
+        this.lookupCandidates(token.address, token.symbol, socialLinks, token.createdAt),
+        environment.alerts.copycat.similarity
+      )
+
+      this.addCandidate({
+        address: token.address,
+        name: token.name,
+        symbol: token.symbol,
+        createdAt: token.createdAt,
+        socialLinks,
+        wellKnown: false
+      })
+      if (!match) return null
+
+      // 原始代币本身是仿盘时，关联到它的原始代币
+      const original = this.db.getDb().prepare('SELECT copycat_of FROM tokens WHERE address = ?')
+        .get(match.originalAddress) as { copycat_of: string | null } | undefined
+      if (original?.copycat_of) {
+        match.originalAddress = original.copycat_of
+      }
+
+      this.db.getDb().prepare(`
+        UPDATE tokens SET copycat_of = ?, copycat_similarity = ?, copycat_reasons = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE address = ?
+      `).run(match.originalAddress, match.similarity, JSON.stringify(match.reasons), token.address)
+
+      await this.handleCopycat(token, match)
+      return match
+    } catch (error) {
+      enhancedErrorHandler.handleError(error as Error, 'CopycatDetector.checkToken', { tokenAddress: token.address })
+      return null
+    }
+  }
+
+  private async handleCopycat(token: TokenInfo, match: CopycatMatch): Promise<void> {
+    const original = this.getTokenLabel(match.originalAddress)
+    logger.info(`🎭 发现仿盘: ${token.symbol} 仿冒 ${original.symbol} (相似度 ${(match.similarity * 100).toFixed(0)}%)`)
+
+    this.io?.emit('copycat_detected', {
+      tokenAddress: token.address,
+      originalAddress: match.originalAddress,
+      similarity: match.similarity,
+      reasons: match.reasons,
+      timestamp: new Date()
+    })
+
+    await this.raiseAlert({
+      id: `copycat_${token.address}_${Date.now()}`,
+      tokenAddress: token.address,
+      type: AlertType.COPYCAT_TOKEN,
+      title: `🎭 疑似仿盘: ${token.symbol} → ${original.symbol}`,
+      message: `${token.name} (${token.symbol}) 疑似仿冒 ${original.name} (${original.symbol})\n` +
+               `原始代币: ${match.originalAddress}\n` +
+               `相似度: ${(match.similarity * 100).toFixed(0)}%`,
+      score: Math.round(match.similarity * 100),
+      conditions: match.reasons,
+      timestamp: new Date(),
+      isRead: false
+    })
+  }
+
+  /**
+   * 代号相同或只差一个字符、或共用社交链接的候选，不含当前代币与之后创建的代币
+   */
+  private lookupCandidates(tokenAddress: string, symbol: string, socialLinks: string[], createdAt: Date): CopycatCandidate[] {
+    const addresses = new Set<string>()
+    for (const key of symbolKeys(normalizeTokenText(symbol))) {
+      this.bySymbol.get(key)?.forEach(address => addresses.add(address))
+    }
+    for (const link of socialLinks) {
+      this.byLink.get(link)?.forEach(address => addresses.add(address))
+    }
+    addresses.delete(tokenAddress)
+
+    const candidates: CopycatCandidate[] = []
+    for (const address of addresses) {
+      const candidate = this.candidates.get(address)
+      if (!candidate) continue
+      if (!candidate.wellKnown && candidate.createdAt && candidate.createdAt.getTime() > createdAt.getTime()) continue
+      candidates.push(candidate)
+    }
+    return candidates
+  }
+
+  private addCandidate(candidate: CopycatCandidate): void {
+    const existing = this.candidates.get(candidate.address)
+    if (existing) {
+      this.removeCandidate(existing)
+      candidate.wellKnown ||= existing.wellKnown
+    }
+
+    this.candidates.set(candidate.address, candidate)
+    for (const key of symbolKeys(normalizeTokenText(candidate.symbol))) {
+      addToIndex(this.bySymbol, key, candidate.address)
+    }
+    for (const link of candidate.socialLinks) {
+      addToIndex(this.byLink, link, candidate.address)
+    }
+    if (candidate.createdAt) {
+      this.latestCreatedAt = Math.max(this.latestCreatedAt, candidate.createdAt.getTime())
+    }
+  }
+
+  private removeCandidate(candidate: CopycatCandidate): void {
+    this.candidates.delete(candidate.address)
+    for (const key of symbolKeys(normalizeTokenText(candidate.symbol))) {
+      removeFromIndex(this.bySymbol, key, candidate.address)
+    }
+    for (const link of candidate.socialLinks) {
+      removeFromIndex(this.byLink, link, candidate.address)
+    }
+  }
+
+  /**
+   * 从数据库加载近期代币与知名代币（已验证映射、已毕业代币）
+   */
+  private loadIndex(): void {
+    try {
+      const db = this.db.getDb()
+      const latest = db.prepare('SELECT MAX(created_at) AS latest FROM tokens').get() as { latest: string | null }
+      const since = new Date((latest.latest ? new Date(latest.latest).getTime() : Date.now()) - LOOKBACK).toISOString()
+
+      const recent = db.prepare(`
+        SELECT address, name, symbol, created_at, social_links, graduation_status FROM tokens
+        WHERE created_at > ? OR graduation_status IN ('graduated', 'migrated')
+      `)
+      for (const row of recent.iterate(since) as IterableIterator<any>) {
+        this.addCandidate(rowToCopycatCandidate(row, row.graduation_status === 'graduated' || row.graduation_status === 'migrated'))
+      }
+
+      const verified = db.prepare(`
+        SELECT m.address, COALESCE(m.name, t.name, m.symbol) AS name, m.symbol, t.created_at, t.social_links
+        FROM token_symbol_mapping m
+        LEFT JOIN tokens t ON t.address = m.address
+        WHERE m.is_verified = 1
+      `)
+      for (const row of verified.iterate() as IterableIterator<any>) {
+        this.addCandidate(rowToCopycatCandidate(row, true))
+      }
+    } catch (error) {
+      enhancedErrorHandler.handleError(error as Error, 'CopycatDetector.loadIndex')
+    }
+  }
+
+  /**
+   * 清理超出回看窗口的近期代币，并标记新毕业的代币为知名代币
+   */
+  private refresh(): void {
+    try {
+      const cutoff = this.latestCreatedAt - LOOKBACK
+      for (const candidate of [...this.candidates.values()]) {
+        if (!candidate.wellKnown && candidate.createdAt && candidate.createdAt.getTime() < cutoff) {
+          this.removeCandidate(candidate)
+        }
+      }
+
+      const graduated = this.db.getDb().prepare(`
+        SELECT address FROM tokens
+        WHERE graduation_status IN ('graduated', 'migrated') AND COALESCE(graduated_at, migrated_at) > ?
+      `).all(new Date(Date.now() - REFRESH_INTERVAL * 2).toISOString()) as { address: string }[]
+      for (const row of graduated) {
+        const candidate = this.candidates.get(row.address)
+        if (candidate) candidate.wellKnown = true
+      }
+    } catch (error) {
+      enhancedErrorHandler.handleError(error as Error, 'CopycatDetector.refresh')
+    }
+  }
+
+  private async raiseAlert(alert: Alert): Promise<void> {
+    if (this.alertEngine) {
+      await this.alertEngine.raiseAlert(alert)
+    }
+  }
+
+  private getTokenLabel(tokenAddress: string): { name: string, symbol: string } {
+    const row = this.db.getDb()
+      .prepare(`
+        SELECT name, symbol FROM tokens WHERE address = ?
+        UNION ALL
+        SELECT COALESCE(name, symbol), symbol FROM token_symbol_mapping WHERE address = ?
+        LIMIT 1
+      `)
+      .get(tokenAddress, tokenAddress) as { name: string, symbol: string } | undefined
+    return row || { name: tokenAddress, symbol: tokenAddress.slice(0, 6) }
+  }
+}
+
+/**
+ * 在候选中找出新代币仿冒的原始代币：名称与代号都相近，或共用社交链接且名称、代号之一相近；
+ * 多个命中时优先知名代币，其次相似度最高、创建最早的代币
+ */
+export function findCopycatMatch(
+  token: { name: string, symbol: string, socialLinks: string[] },
+  candidates: CopycatCandidate[],
+  threshold: number
+): CopycatMatch | null {
+  const name = normalizeTokenText(token.name)
+  const symbol = normalizeTokenText(token.symbol)
+  if (!name && !symbol) return null
+
+  const matches: (CopycatMatch & { candidate: CopycatCandidate })[] = []
+  for (const candidate of candidates) {
+    const nameSimilarity = textSimilarity(name, normalizeTokenText(candidate.name))
+    const symbolSimilarity = textSimilarity(symbol, normalizeTokenText(candidate.symbol))
+    const sharedLinks = token.socialLinks.filter(link => candidate.socialLinks.includes(link))
+
+    // 很短的代号改一个字符相似度就很低，只认归一化后完全相同
+    const symbolMatch = symbol.length <= 3 ? symbolSimilarity === 1 : symbolSimilarity >= threshold
+    const nameMatch = nameSimilarity >= threshold
+    if (!(nameMatch && symbolMatch) && !(sharedLinks.length > 0 && (nameMatch || symbolMatch))) continue
+
+    const reasons = [
+      `${symbolSimilarity === 1 ? '代号相同' : `代号相似 ${(symbolSimilarity * 100).toFixed(0)}%`}: ${candidate.symbol}`,
+      `${nameSimilarity === 1 ? '名称相同' : `名称相似 ${(nameSimilarity * 100).toFixed(0)}%`}: ${candidate.name}`
+    ]
+    if (sharedLinks.length > 0) reasons.push(`共用社交链接: ${sharedLinks.join(', ')}`)
+    if (candidate.wellKnown) reasons.push('原始代币为知名代币')
+
+    matches.push({
+      candidate,
+      originalAddress: candidate.address,
+      nameSimilarity,
+      symbolSimilarity,
+      sharedLinks,
+      similarity: Math.min(1, (nameSimilarity + symbolSimilarity) / 2 + (sharedLinks.length > 0 ? 0.1 : 0)),
+      reasons
+    })
+  }
+  if (matches.length === 0) return null
+
+  matches.sort((a, b) =>
+    Number(b.candidate.wellKnown) - Number(a.candidate.wellKnown) ||
+    b.similarity - a.similarity ||
+    (a.candidate.createdAt?.getTime() ?? 0) - (b.candidate.createdAt?.getTime() ?? 0)
+  )
+  const { candidate, ...match } = matches[0]
+  return match
+}
+
+/**
+ * 归一化名称与代号：去掉大小写、空白与符号差异，并替换形近字符
+ */
+export function normalizeTokenText(text: string): string {
+  return (text || '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/^\$/, '')
+    .replace(/[0-9l$]/g, char => HOMOGLYPHS[char] ?? char)
+    .replace(/[^\p{L}\p{N}]/gu, '')
+}
+
+/**
+ * 归一化社交链接，便于比较同一账号或网站的不同写法
+ */
+export function normalizeSocialLinks(links: TokenInfo['socialLinks'] | null | undefined): string[] {
+  if (!links) return []
+  return [links.twitter, links.telegram, links.website]
+    .filter((link): link is string => typeof link === 'string' && link.trim() !== '')
+    .map(link => link.trim().toLowerCase()
+      .replace(/^https?:\/\//, '')
+      .replace(/^www\./, '')
+      .replace(/^twitter\.com\//, 'x.com/')
+      .replace(/^telegram\.me\//, 't.me/')
+      .replace(/[?#].*$/, '')
+      .replace(/\/+$/, ''))
+    .filter(link => link !== '')
+}
+
+/**
+ * 基于编辑距离的相似度 0-1
+ */
+export function textSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0
+  if (a === b) return 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length)
+}
+
+export function queryCopycatInfo(db: DatabaseManager, tokenAddress: string): CopycatInfo | null {
+  const row = db.getDb().prepare(`
+    SELECT t.address, t.copycat_of, t.copycat_similarity, t.copycat_reasons,
+      COALESCE(o.name, m.name) AS original_name, COALESCE(o.symbol, m.symbol) AS original_symbol
+    FROM tokens t
+    LEFT JOIN tokens o ON o.address = t.copycat_of
+    LEFT JOIN token_symbol_mapping m ON m.address = t.copycat_of AND o.address IS NULL
+    WHERE t.address = ? AND t.copycat_of IS NOT NULL
+    LIMIT 1
+  `).get(tokenAddress) as any
+  return row ? rowToCopycatInfo(row) : null
+}
+
+/**
+ * 被标记为仿冒该代币的代币（按创建时间倒序）
+ */
+export function queryCopycats(db: DatabaseManager, originalAddress: string, limit: number = 50): CopycatInfo[] {
+  const rows = db.getDb().prepare(`
+    SELECT t.address, t.copycat_of, t.copycat_similarity, t.copycat_reasons,
+      o.name AS original_name, o.symbol AS original_symbol
+    FROM tokens t
+    LEFT JOIN tokens o ON o.address = t.copycat_of
+    WHERE t.copycat_of = ?
+    ORDER BY t.created_at DESC
+    LIMIT ?
+  `).all(originalAddress, limit) as any[]
+  return rows.map(rowToCopycatInfo)
+}
+
+export function rowToCopycatInfo(row: any): CopycatInfo {
+  return {
+    tokenAddress: row.address,
+    originalAddress: row.copycat_of,
+    originalName: row.original_name ?? null,
+    originalSymbol: row.original_symbol ?? null,
+    similarity: row.copycat_similarity ?? 0,
+    reasons: row.copycat_reasons ? JSON.parse(row.copycat_reasons) : []
+  }
+}
+
+function rowToCopycatCandidate(row: any, wellKnown: boolean): CopycatCandidate {
+  return {
+    address: row.address,
+    name: row.name || '',
+    symbol: row.symbol || '',
+    createdAt: row.created_at ? new Date(row.created_at) : null,
+    socialLinks: normalizeSocialLinks(row.social_links ? JSON.parse(row.social_links) : null),
+    wellKnown
+  }
+}
+
+/**
+ * 代号的索引键：归一化代号本身，以及较长代号删除任一字符后的变体（两个代号编辑距离为 1 时至少共享一个键）
+ */
+function symbolKeys(symbol: string): string[] {
+  if (!symbol) return []
+  const keys = new Set([symbol])
+  if (symbol.length > 3) {
+    for (let i = 0; i < symbol.length; i++) {
+      keys.add(symbol.slice(0, i) + symbol.slice(i + 1))
+    }
+  }
+  return [...keys]
+}
+
+function addToIndex(index: Map<string, Set<string>>, key: string, address: string): void {
+  const addresses = index.get(key) ?? new Set<string>()
+  addresses.add(address)
+  index.set(key, addresses)
+}
+
+function removeFromIndex(index: Map<string, Set<string>>, key: string, address: string): void {
+  const addresses = index.get(key)
+  if (!addresses) return
+  addresses.delete(address)
+  if (addresses.size === 0) index.delete(key)
+}
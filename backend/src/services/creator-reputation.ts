@@ -0,0 +1,150 @@
+import { DatabaseManager } from '../database/schema.js'
+import { TOKEN_TOTAL_SUPPLY } from './bonding-curve.js'
+import { devStatus, type DevStatus } from './dev-tracker.js'
+
+export interface CreatorLaunch {
+  address: string
+  name: string
+  symbol: string
+  createdAt: Date
+  graduationStatus: string
+  lifecycleState: string
+  peakMarketCapSol: number | null
+  lastTradeAt: Date | null
+  abandoned: boolean // 生命周期已进入 dead
+  devStatus: DevStatus
+}
+
+export interface CreatorProfile {
+  creatorAddress: string
+  launchCount: number
+  graduatedCount: number
+  graduationRate: number // %
+  medianPeakMarketCapSol: number | null
+  abandonedCount: number
+  avgTimeToAbandonMs: number | null // 被放弃的代币从创建到最后一笔交易的平均时长
+  dumpCount: number // 开发者清仓的代币数
+  dumpRate: number // %
+  firstLaunchAt: Date | null
+  lastLaunchAt: Date | null
+  reputation: number // 0-100，50 为中性（没有历史）
+}
+
+// 信誉的中性值：没有足够历史的创建者
+export const NEUTRAL_REPUTATION = 50
+// 连续发币却从未毕业的创建者视为批量发币
+const SERIAL_LAUNCH_COUNT = 5
+
+/**
+ * 创建者的全部发币记录（按创建时间倒序），附带峰值市值与开发者持仓状态
+ */
+export function queryCreatorLaunches(db: DatabaseManager, creatorAddress: string, limit?: number): CreatorLaunch[] {
+  const rows = db.getDb().prepare(`
+    SELECT
+      t.address, t.name, t.symbol, t.created_at, t.total_supply, t.last_trade_at,
+      t.graduation_status, t.lifecycle_state,
+      b.peak_market_cap_sol,
+      (SELECT MAX(s.price) FROM price_samples s WHERE s.token_address = t.address) AS peak_sample_price,
+      d.balance AS dev_balance, d.bought_tokens AS dev_bought_tokens, d.sell_count AS dev_sell_count
+    FROM tokens t
+    LEFT JOIN bonding_curve_state b ON b.token_address = t.address
+    LEFT JOIN token_dev_activity d ON d.token_address = t.address
+    WHERE t.creator_address = ?
+    ORDER BY t.created_at DESC
+    LIMIT ?
+  `).all(creatorAddress, limit ?? -1) as any[]
+
+  return rows.map(rowToCreatorLaunch)
+}
+
+/**
+ * 由创建者的全部发币记录汇总信誉档案
+ */
+export function queryCreatorProfile(db: DatabaseManager, creatorAddress: string): CreatorProfile {
+  return buildCreatorProfile(creatorAddress, queryCreatorLaunches(db, creatorAddress))
+}
+
+/**
+ * 代币创建者的信誉，未知创建者返回中性值
+ */
+export function queryCreatorReputation(db: DatabaseManager, tokenAddress: string): number {
+  const row = db.getDb().prepare('SELECT creator_address FROM tokens WHERE address = ?')
+    .get(tokenAddress) as { creator_address: string | null } | undefined
+  if (!row?.creator_address) return NEUTRAL_REPUTATION
+
+  return queryCreatorProfile(db, row.creator_address).reputation
+}
+
+export function buildCreatorProfile(creatorAddress: string, launches: CreatorLaunch[]): CreatorProfile {
+  const graduated = launches.filter(launch => launch.graduationStatus === 'graduated' || launch.graduationStatus === 'migrated')
+  const abandoned = launches.filter(launch => launch.abandoned)
+  const dumped = launches.filter(launch => launch.devStatus === 'sold_out')
+  const rate = (count: number) => launches.length > 0 ? (count / launches.length) * 100 : 0
+
+  const lifetimes = abandoned
+    .filter(launch => launch.lastTradeAt)
+    .map(launch => Math.max(0, launch.lastTradeAt!.getTime() - launch.createdAt.getTime()))
+  const createdTimes = launches.map(launch => launch.createdAt.getTime())
+
+  const profile = {
+    creatorAddress,
+    launchCount: launches.length,
+    graduatedCount: graduated.length,
+    graduationRate: rate(graduated.length),
+    medianPeakMarketCapSol: median(launches.map(launch => launch.peakMarketCapSol).filter((peak): peak is number => peak !== null)),
+    abandonedCount: abandoned.length,
+    avgTimeToAbandonMs: lifetimes.length > 0 ? lifetimes.reduce((total, lifetime) => total + lifetime, 0) / lifetimes.length : null,
+    dumpCount: dumped.length,
+    dumpRate: rate(dumped.length),
+    firstLaunchAt: createdTimes.length > 0 ? new Date(Math.min(...createdTimes)) : null,
+    lastLaunchAt: createdTimes.length > 0 ? new Date(Math.max(...createdTimes)) : null
+  }
+
+  return { ...profile, reputation: calculateCreatorReputation(profile) }
+}
+
+/**
+ * 创建者信誉：毕业率加分，开发者清仓与放弃率扣分，批量发币且从未毕业额外扣分；
+ * 只有一次发币（即当前代币）时没有可参考的历史，返回中性值
+ */
+export function calculateCreatorReputation(profile: Omit<CreatorProfile, 'reputation'>): number {
+  if (profile.launchCount <= 1) return NEUTRAL_REPUTATION
+
+  const abandonRate = (profile.abandonedCount / profile.launchCount) * 100
+  let reputation = NEUTRAL_REPUTATION
+  reputation += profile.graduationRate * 0.6
+  reputation -= profile.dumpRate * 0.3
+  reputation -= abandonRate * 0.2
+  if (profile.launchCount >= SERIAL_LAUNCH_COUNT && profile.graduatedCount === 0) {
+    reputation -= Math.min(20, profile.launchCount)
+  }
+
+  return Math.round(Math.min(100, Math.max(0, reputation)))
+}
+
+export function rowToCreatorLaunch(row: any): CreatorLaunch {
+  const totalSupply = Number(row.total_supply) || TOKEN_TOTAL_SUPPLY
+  // 毕业后的峰值来自 Jupiter 价格采样，与曲线上的峰值取较大者
+  const samplePeak = row.peak_sample_price ? row.peak_sample_price * totalSupply : null
+  const peaks = [row.peak_market_cap_sol, samplePeak].filter((peak): peak is number => typeof peak === 'number' && peak > 0)
+
+  return {
+    address: row.address,
+    name: row.name,
+    symbol: row.symbol,
+    createdAt: new Date(row.created_at),
+    graduationStatus: row.graduation_status || 'bonding',
+    lifecycleState: row.lifecycle_state || 'new',
+    peakMarketCapSol: peaks.length > 0 ? Math.max(...peaks) : null,
+    lastTradeAt: row.last_trade_at ? new Date(row.last_trade_at) : null,
+    abandoned: row.lifecycle_state === 'dead',
+    devStatus: devStatus(Math.max(0, row.dev_balance ?? 0), row.dev_bought_tokens ?? 0, row.dev_sell_count ?? 0)
+  }
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
@@ -1,4 +1,7 @@
-import { getPumpPortalAPI } from './pumpportal-api.js'
+import { getPumpPortalAPI, type PumpPortalMigrationEvent } from './pumpportal-api.js'
+import type { TradeIngestionMetrics } from './trade-ingestion-queue.js'
+import type { ConnectionStatus } from './connection-supervisor.js'
+import type { SubscriptionReason, SubscriptionStats, TokenSubscription } from './subscription-manager.js'
 import { getConfig } from '../config/api-config.js'
 import { logger } from '../utils/logger.js'
 import type { TokenInfo, TradingData } from '../../../shared/types/index.ts'
@@ -118,15 +121,72 @@ export class DataSourceManager {
     }
   }
 
+  /**
+   * 订阅代币迁移事件
+   */
+  onMigration(listener: (event: PumpPortalMigrationEvent) => void): void {
+    if (this.config.pumpportal.enabled) {
+      getPumpPortalAPI().onMigration(listener)
+    }
+  }
+
   /**
    * 订阅特定代币交易
    */
-  subscribeTokenTrades(tokenAddress: string): void {
+  subscribeTokenTrades(tokenAddress: string, reason: SubscriptionReason = 'manual', force: boolean = false): boolean {
+    if (!this.config.pumpportal.enabled) return false
+    return getPumpPortalAPI().subscribeTokenTrades(tokenAddress, reason, force)
+  }
+
+  /**
+   * 释放代币交易订阅原因
+   */
+  releaseTokenTrades(tokenAddress: string, reason: SubscriptionReason): void {
+    if (this.config.pumpportal.enabled) {
+      getPumpPortalAPI().releaseTokenTrades(tokenAddress, reason)
+    }
+  }
+
+  /**
+   * 直接退订代币交易
+   */
+  unsubscribeTokenTrades(tokenAddress: string): boolean {
+    if (!this.config.pumpportal.enabled) return false
+    return getPumpPortalAPI().unsubscribeTokenTrades(tokenAddress)
+  }
+
+  /**
+   * 订阅指定钱包的交易事件
+   */
+  subscribeAccountTrades(accounts: string[]): void {
+    if (this.config.pumpportal.enabled) {
+      getPumpPortalAPI().subscribeAccountTrades(accounts)
+    }
+  }
+
+  /**
+   * 退订指定钱包的交易事件
+   */
+  unsubscribeAccountTrades(accounts: string[]): void {
     if (this.config.pumpportal.enabled) {
-      getPumpPortalAPI().subscribeTokenTrades(tokenAddress)
+      getPumpPortalAPI().unsubscribeAccountTrades(accounts)
     }
   }
 
+  /**
+   * 获取代币交易订阅列表
+   */
+  getSubscriptions(reason?: SubscriptionReason): TokenSubscription[] {
+    return getPumpPortalAPI().getSubscriptions(reason)
+  }
+
+  /**
+   * 获取代币交易订阅统计
+   */
+  getSubscriptionStats(): SubscriptionStats {
+    return getPumpPortalAPI().getSubscriptionStats()
+  }
+
   /**
    * 获取当前数据源
    */
@@ -140,10 +200,19 @@ export class DataSourceManager {
   getDataSourceStatus(): {
     current: string
     pumpPortalConnected: boolean
+    connection: ConnectionStatus
+    subscriptions: SubscriptionStats
+    ingestion: TradeIngestionMetrics
+    trades: { duplicates: number, late: number }
   } {
+    const api = getPumpPortalAPI()
     return {
       current: 'pumpportal',
-      pumpPortalConnected: getPumpPortalAPI().isConnected()
+      pumpPortalConnected: api.isConnected(),
+      connection: api.getConnectionStatus(),
+      subscriptions: api.getSubscriptionStats(),
+      ingestion: api.getIngestionMetrics(),
+      trades: api.getTradeStats()
     }
   }
 }
@@ -0,0 +1,333 @@
+import { DatabaseManager } from '../database/schema.js'
+import { AlertType } from '../../../shared/types/index.js'
+import { logger } from '../utils/logger.js'
+import { enhancedErrorHandler } from '../utils/enhanced-error-handler.js'
+import { environment } from '../config/environment.js'
+import { TOKEN_TOTAL_SUPPLY } from './bonding-curve.js'
+import type { AlertEngine } from './alert-engine.js'
+import type { Alert } from '../../../shared/types/index.ts'
+import type { Server } from 'socket.io'
+import type { Statement } from 'better-sqlite3'
+
+// 开发者持仓状态：未买入、持有、部分卖出、已清仓
+export type DevStatus = 'none' | 'holding' | 'partial' | 'sold_out'
+
+export interface DevTrade {
+  tokenAddress: string
+  wallet: string
+  isBuy: boolean
+  tokenAmount: number
+  solAmount: number
+  timestamp: number // 事件时间（毫秒）
+}
+
+export interface DevHolding {
+  tokenAddress: string
+  creatorAddress: string
+  initialBuyTokens: number // 首笔买入（通常是创建时的初始买入）
+  initialBuySol: number
+  initialBuyPercentage: number
+  boughtTokens: number
+  soldTokens: number
+  balance: number
+  holdingPercentage: number // 当前持仓占总供应量
+  soldPercentage: number // 已卖出占累计买入
+  buyCount: number
+  sellCount: number
+  firstSellAt: Date | null
+  lastSellAt: Date | null
+  status: DevStatus
+}
+
+// 余额低于该数量视为已清仓（与持仓账本的尘埃余额一致）
+const DUST_BALANCE = 1
+// 创建者缓存定期整体清空，按需从代币表重新加载
+const CREATOR_CACHE_TTL = 10 * 60 * 1000
+
+/**
+ * 开发者行为跟踪 - 跟踪创建者钱包在自己代币上的买卖，开发者卖出时实时预警
+ */
+export class DevTracker {
+  private db: DatabaseManager
+  private io?: Server
+  private alertEngine?: AlertEngine
+  private isRunning: boolean = false
+  private pruneTimer?: NodeJS.Timeout
+  private creators: Map<string, string | null> = new Map() // null 表示代币未知或没有记录创建者
+  private selectStmt: Statement | null = null
+  private upsertStmt: Statement | null = null
+
+  constructor(db: DatabaseManager) {
+    this.db = db
+    logger.info('👨‍💻 开发者行为跟踪服务已初始化')
+  }
+
+  setSocketIO(io: Server): void {
+    this.io = io
+  }
+
+  setAlertEngine(alertEngine: AlertEngine): void {
+    this.alertEngine = alertEngine
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return
+    this.isRunning = true
+
+    logger.info(`👨‍💻 开发者行为跟踪服务启动 (卖出预警阈值: ${environment.alerts.dev.minSellPercent}%)`)
+
+    this.backfillMissing()
+
+    this.pruneTimer = setInterval(() => this.creators.clear(), CREATOR_CACHE_TTL)
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer)
+    }
+    this.creators.clear()
+    logger.info('👨‍💻 开发者行为跟踪服务停止')
+  }
+
+  /**
+   * 记录代币创建者
+   */
+  recordLaunch(tokenAddress: string, creator: string): void {
+    this.creators.set(tokenAddress, creator || null)
+  }
+
+  /**
+   * 创建者在自己代币上的交易：更新持仓，卖出时发出预警
+   */
+  async recordTrade(trade: DevTrade): Promise<void> {
+    if (!trade.wallet || !(trade.tokenAmount > 0)) return
+
+    const creator = this.getCreator(trade.tokenAddress)
+    if (!creator || trade.wallet !== creator) return
+
+    try {
+      const db = this.db.getDb()
+      this.selectStmt ??= db.prepare('SELECT * FROM token_dev_activity WHERE token_address = ?')
+      this.upsertStmt ??= db.prepare(`
+        INSERT INTO token_dev_activity (
+          token_address, creator_address, initial_buy_tokens, initial_buy_sol, initial_buy_at,
+          bought_tokens, sold_tokens, balance, buy_count, sell_count, first_sell_at, last_sell_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        ON CONFLICT(token_address) DO UPDATE SET
+          initial_buy_tokens = excluded.initial_buy_tokens,
+          initial_buy_sol = excluded.initial_buy_sol,
+          initial_buy_at = excluded.initial_buy_at,
+          bought_tokens = excluded.bought_tokens,
+          sold_tokens = excluded.sold_tokens,
+          balance = excluded.balance,
+          buy_count = excluded.buy_count,
+          sell_count = excluded.sell_count,
+          first_sell_at = excluded.first_sell_at,
+          last_sell_at = excluded.last_sell_at,
+          updated_at = CURRENT_TIMESTAMP
+      `)
+
+      const previous = this.selectStmt.get(trade.tokenAddress) as any
+      const holding = previous ? rowToDevHolding(previous) : emptyHolding(trade.tokenAddress, creator)
+      const balanceBefore = holding.balance
+      const tradedAt = new Date(trade.timestamp)
+
+      if (trade.isBuy) {
+        if (holding.buyCount === 0) {
+          holding.initialBuyTokens = trade.tokenAmount
+          holding.initialBuySol = trade.solAmount
+        }
+        holding.boughtTokens += trade.tokenAmount
+        holding.balance += trade.tokenAmount
+        holding.buyCount++
+      } else {
+        holding.soldTokens += trade.tokenAmount
+        holding.balance = Math.max(0, holding.balance - trade.tokenAmount)
+        holding.sellCount++
+        holding.firstSellAt ??= tradedAt
+        holding.lastSellAt = tradedAt
+      }
+
+      this.upsertStmt.run(
+        trade.tokenAddress,
+        creator,
+        holding.initialBuyTokens,
+        holding.initialBuySol,
+        previous?.initial_buy_at ?? (trade.isBuy ? tradedAt.toISOString() : null),
+        holding.boughtTokens,
+        holding.soldTokens,
+        holding.balance,
+        holding.buyCount,
+        holding.sellCount,
+        holding.firstSellAt?.toISOString() ?? null,
+        holding.lastSellAt?.toISOString() ?? null
+      )
+
+      if (!trade.isBuy) {
+        // 卖出前没有记录到持仓（例如从别的钱包转入）时按全部卖出计
+        const soldPercent = balanceBefore > 0 ? Math.min(100, (trade.tokenAmount / balanceBefore) * 100) : 100
+        await this.handleDevSell(trade, soldPercent, queryDevHolding(this.db, trade.tokenAddress))
+      }
+    } catch (error) {
+      enhancedErrorHandler.handleError(error as Error, 'DevTracker.recordTrade', { tokenAddress: trade.tokenAddress })
+    }
+  }
+
+  private async handleDevSell(trade: DevTrade, soldPercent: number, holding: DevHolding | null): Promise<void> {
+    if (!holding) return
+
+    const token = this.getTokenLabel(trade.tokenAddress)
+    const soldOut = holding.status === 'sold_out'
+    logger.info(`👨‍💻 开发者卖出: ${token.symbol} 卖出持仓的 ${soldPercent.toFixed(1)}%${soldOut ? ' (已清仓)' : ''}`)
+
+    this.io?.emit('dev_sell', {
+      tokenAddress: trade.tokenAddress,
+      creatorAddress: holding.creatorAddress,
+      soldTokens: trade.tokenAmount,
+      solAmount: trade.solAmount,
+      soldPercent,
+      soldOut,
+      holding,
+      timestamp: new Date(trade.timestamp)
+    })
+
+    if (soldPercent < environment.alerts.dev.minSellPercent && !soldOut) return
+
+    await this.raiseAlert({
+      id: `dev_sell_${trade.tokenAddress}_${Date.now()}`,
+      tokenAddress: trade.tokenAddress,
+      type: AlertType.DEV_SELL,
+      title: soldOut ? `👨‍💻 开发者清仓: ${token.symbol}` : `👨‍💻 开发者卖出 ${soldPercent.toFixed(0)}%: ${token.symbol}`,
+      message: `${token.name} (${token.symbol}) 开发者卖出持仓的 ${soldPercent.toFixed(1)}%\n` +
+               `卖出: ${trade.tokenAmount.toLocaleString()} 枚 (${trade.solAmount.toFixed(3)} SOL)\n` +
+               `剩余持仓: ${holding.holdingPercentage.toFixed(2)}% 供应量`,
+      score: Math.round(soldPercent),
+      conditions: [
+        `本次卖出: ${soldPercent.toFixed(1)}% 持仓`,
+        `累计卖出: ${holding.soldPercentage.toFixed(1)}% 买入量`,
+        `卖出次数: ${holding.sellCount}`
+      ],
+      timestamp: new Date(),
+      isRead: false
+    })
+  }
+
+  /**
+   * 为服务启动前已有交易、尚无开发者记录的近期代币，从交易表汇总创建者的买卖
+   */
+  private backfillMissing(): void {
+    try {
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
+      const result = this.db.getDb().prepare(`
+        INSERT OR IGNORE INTO token_dev_activity (
+          token_address, creator_address, initial_buy_tokens, initial_buy_sol, initial_buy_at,
+          bought_tokens, sold_tokens, balance, buy_count, sell_count, first_sell_at, last_sell_at
+        )
+        SELECT
+          t.address,
+          t.creator_address,
+          COALESCE((SELECT token_amount FROM trades f WHERE f.token_address = t.address AND f.trader_address = t.creator_address AND f.is_buy = 1 ORDER BY f.timestamp ASC LIMIT 1), 0),
+          COALESCE((SELECT sol_amount FROM trades f WHERE f.token_address = t.address AND f.trader_address = t.creator_address AND f.is_buy = 1 ORDER BY f.timestamp ASC LIMIT 1), 0),
+          MIN(CASE WHEN tr.is_buy = 1 THEN tr.timestamp END),
+          SUM(CASE WHEN tr.is_buy = 1 THEN tr.token_amount ELSE 0 END),
+          SUM(CASE WHEN tr.is_buy = 0 THEN tr.token_amount ELSE 0 END),
+          SUM(CASE WHEN tr.is_buy = 1 THEN tr.token_amount ELSE -tr.token_amount END),
+          SUM(CASE WHEN tr.is_buy = 1 THEN 1 ELSE 0 END),
+          SUM(CASE WHEN tr.is_buy = 0 THEN 1 ELSE 0 END),
+          MIN(CASE WHEN tr.is_buy = 0 THEN tr.timestamp END),
+          MAX(CASE WHEN tr.is_buy = 0 THEN tr.timestamp END)
+        FROM tokens t
+        JOIN trades tr ON tr.token_address = t.address AND tr.trader_address = t.creator_address
+        WHERE t.created_at > ?
+          AND NOT EXISTS (SELECT 1 FROM token_dev_activity d WHERE d.token_address = t.address)
+        GROUP BY t.address
+      `).run(since)
+
+      if (result.changes > 0) {
+        logger.info(`👨‍💻 已从历史交易补全 ${result.changes} 个代币的开发者持仓`)
+      }
+    } catch (error) {
+      enhancedErrorHandler.handleError(error as Error, 'DevTracker.backfillMissing')
+    }
+  }
+
+  private getCreator(tokenAddress: string): string | null {
+    const cached = this.creators.get(tokenAddress)
+    if (cached !== undefined) return cached
+
+    const row = this.db.getDb().prepare('SELECT creator_address FROM tokens WHERE address = ?')
+      .get(tokenAddress) as { creator_address: string | null } | undefined
+    const creator = row?.creator_address || null
+    this.creators.set(tokenAddress, creator)
+    return creator
+  }
+
+  private async raiseAlert(alert: Alert): Promise<void> {
+    if (this.alertEngine) {
+      await this.alertEngine.raiseAlert(alert)
+    }
+  }
+
+  private getTokenLabel(tokenAddress: string): { name: string, symbol: string } {
+    const row = this.db.getDb()
+      .prepare('SELECT name, symbol FROM tokens WHERE address = ?')
+      .get(tokenAddress) as { name: string, symbol: string } | undefined
+    return row || { name: tokenAddress, symbol: tokenAddress.slice(0, 6) }
+  }
+}
+
+/**
+ * 按当前余额与累计买入判断开发者持仓状态
+ */
+export function devStatus(balance: number, boughtTokens: number, sellCount: number): DevStatus {
+  if (boughtTokens <= 0 && sellCount === 0) return 'none'
+  if (balance < DUST_BALANCE) return 'sold_out'
+  return sellCount > 0 ? 'partial' : 'holding'
+}
+
+export function queryDevHolding(db: DatabaseManager, tokenAddress: string): DevHolding | null {
+  const row = db.getDb().prepare(`
+    SELECT d.*, t.total_supply
+    FROM token_dev_activity d
+    LEFT JOIN tokens t ON t.address = d.token_address
+    WHERE d.token_address = ?
+  `).get(tokenAddress) as any
+  return row ? rowToDevHolding(row) : null
+}
+
+export function rowToDevHolding(row: any): DevHolding {
+  const totalSupply = Number(row.total_supply) || TOKEN_TOTAL_SUPPLY
+  const balance = Math.max(0, row.balance)
+  return {
+    tokenAddress: row.token_address,
+    creatorAddress: row.creator_address,
+    initialBuyTokens: row.initial_buy_tokens,
+    initialBuySol: row.initial_buy_sol,
+    initialBuyPercentage: (row.initial_buy_tokens / totalSupply) * 100,
+    boughtTokens: row.bought_tokens,
+    soldTokens: row.sold_tokens,
+    balance,
+    holdingPercentage: (balance / totalSupply) * 100,
+    soldPercentage: row.bought_tokens > 0 ? Math.min(100, (row.sold_tokens / row.bought_tokens) * 100) : 0,
+    buyCount: row.buy_count,
+    sellCount: row.sell_count,
+    firstSellAt: row.first_sell_at ? new Date(row.first_sell_at) : null,
+    lastSellAt: row.last_sell_at ? new Date(row.last_sell_at) : null,
+    status: devStatus(balance, row.bought_tokens, row.sell_count)
+  }
+}
+
+function emptyHolding(tokenAddress: string, creatorAddress: string): DevHolding {
+  return rowToDevHolding({
+    token_address: tokenAddress,
+    creator_address: creatorAddress,
+    initial_buy_tokens: 0,
+    initial_buy_sol: 0,
+    bought_tokens: 0,
+    sold_tokens: 0,
+    balance: 0,
+    buy_count: 0,
+    sell_count: 0
+  })
+}
@@ -0,0 +1,208 @@
+import { DatabaseManager } from '../database/schema.js'
+import { AlertType } from '../../../shared/types/index.js'
+import { logger } from '../utils/logger.js'
+import { enhancedErrorHandler } from '../utils/enhanced-error-handler.js'
+import { environment } from '../config/environment.js'
+import type { AlertEngine } from './alert-engine.js'
+import type { TokenLifecycleManager } from './token-lifecycle.js'
+import type { PumpPortalMigrationEvent } from './pumpportal-api.js'
+import type { Alert, BondingCurveState, GraduationStatus } from '../../../shared/types/index.ts'
+import type { Server } from 'socket.io'
+
+/**
+ * 毕业检测服务 - 跟踪联合曲线完成与迁移，发出即将毕业 / 已毕业事件
+ */
+export class GraduationDetector {
+  private db: DatabaseManager
+  private io?: Server
+  private alertEngine?: AlertEngine
+  private lifecycle?: TokenLifecycleManager
+  private statuses: Map<string, GraduationStatus> = new Map()
+  private nearProgress = environment.alerts.graduation.nearProgress
+
+  constructor(db: DatabaseManager) {
+    this.db = db
+    logger.info('🎓 毕业检测服务已初始化')
+  }
+
+  setSocketIO(io: Server): void {
+    this.io = io
+  }
+
+  setAlertEngine(alertEngine: AlertEngine): void {
+    this.alertEngine = alertEngine
+  }
+
+  setLifecycleManager(lifecycle: TokenLifecycleManager): void {
+    this.lifecycle = lifecycle
+  }
+
+  /**
+   * 处理联合曲线状态更新（每笔曲线交易后调用）
+   */
+  async handleCurveUpdate(state: BondingCurveState): Promise<void> {
+    try {
+      const status = this.getStatus(state.tokenAddress)
+      if (status === 'graduated' || status === 'migrated') return
+
+      if (state.progress >= 100) {
+        await this.markGraduated(state.tokenAddress, state.updatedAt, state)
+      } else if (state.progress >= this.nearProgress && status === 'bonding') {
+        await this.markNearGraduation(state)
+      }
+    } catch (error) {
+      await enhancedErrorHandler.handleError(
+        error as Error,
+        'handleCurveUpdate',
+        { tokenAddress: state.tokenAddress }
+      )
+    }
+  }
+
+  /**
+   * 处理迁移事件
+   */
+  async handleMigration(event: PumpPortalMigrationEvent): Promise<void> {
+    try {
+      const status = this.getStatus(event.mint)
+      if (status === 'migrated') return
+
+      const migratedAt = new Date(event.timestamp)
+
+      // 错过曲线完成的代币以迁移时间作为毕业时间
+      if (status !== 'graduated') {
+        await this.markGraduated(event.mint, migratedAt, null)
+      }
+
+      const db = this.db.getDb()
+      db.prepare(`
+        UPDATE tokens
+        SET graduation_status = 'migrated', migrated_at = ?,
+            graduated_at = COALESCE(graduated_at, ?), updated_at = CURRENT_TIMESTAMP
+        WHERE address = ?
+      `).run(migratedAt.toISOString(), migratedAt.toISOString(), event.mint)
+      this.statuses.set(event.mint, 'migrated')
+
+      logger.info(`🎓 代币已迁移: ${event.mint} -> ${event.pool}`)
+
+      this.io?.emit('token_graduated', {
+        tokenAddress: event.mint,
+        status: 'migrated',
+        pool: event.pool,
+        signature: event.signature,
+        migratedAt
+      })
+    } catch (error) {
+      await enhancedErrorHandler.handleError(
+        error as Error,
+        'handleMigration',
+        { tokenAddress: event.mint }
+      )
+    }
+  }
+
+  /**
+   * 获取代币毕业状态（优先内存，其次数据库）
+   */
+  getStatus(tokenAddress: string): GraduationStatus {
+    const cached = this.statuses.get(tokenAddress)
+    if (cached) return cached
+
+    const row = this.db.getDb()
+      .prepare('SELECT graduation_status FROM tokens WHERE address = ?')
+      .get(tokenAddress) as { graduation_status: GraduationStatus | null } | undefined
+    const status = row?.graduation_status || 'bonding'
+
+    // 代币尚未入库时不缓存，避免覆盖之后写入的状态
+    if (row) {
+      this.statuses.set(tokenAddress, status)
+    }
+    return status
+  }
+
+  private async markNearGraduation(state: BondingCurveState): Promise<void> {
+    const db = this.db.getDb()
+    db.prepare(`
+      UPDATE tokens
+      SET graduation_status = 'near_graduation', updated_at = CURRENT_TIMESTAMP
+      WHERE address = ? AND graduation_status = 'bonding'
+    `).run(state.tokenAddress)
+    this.statuses.set(state.tokenAddress, 'near_graduation')
+    this.lifecycle?.transition(state.tokenAddress, 'near_graduation', `曲线进度 ${state.progress.toFixed(1)}%`)
+
+    const token = this.getTokenLabel(state.tokenAddress)
+    logger.info(`🎓 代币即将毕业: ${token.symbol} (${state.progress.toFixed(1)}%)`)
+
+    this.io?.emit('token_near_graduation', {
+      tokenAddress: state.tokenAddress,
+      status: 'near_graduation',
+      progress: state.progress,
+      marketCapSol: state.marketCapSol,
+      realSolReserves: state.realSolReserves
+    })
+
+    await this.raiseAlert({
+      id: `near_graduation_${state.tokenAddress}_${Date.now()}`,
+      tokenAddress: state.tokenAddress,
+      type: AlertType.NEAR_GRADUATION,
+      title: `🎓 即将毕业: ${token.symbol}`,
+      message: `${token.name} (${token.symbol}) 联合曲线进度已达 ${state.progress.toFixed(1)}%\n` +
+               `市值: ${state.marketCapSol.toFixed(2)} SOL\n` +
+               `曲线储备: ${state.realSolReserves.toFixed(2)} SOL`,
+      score: Math.round(state.progress),
+      conditions: [
+        `曲线进度: ${state.progress.toFixed(1)}%`,
+        `市值: ${state.marketCapSol.toFixed(2)} SOL`
+      ],
+      timestamp: new Date(),
+      isRead: false
+    })
+  }
+
+  private async markGraduated(tokenAddress: string, graduatedAt: Date, state: BondingCurveState | null): Promise<void> {
+    const db = this.db.getDb()
+    db.prepare(`
+      UPDATE tokens
+      SET graduation_status = 'graduated', graduated_at = COALESCE(graduated_at, ?), updated_at = CURRENT_TIMESTAMP
+      WHERE address = ?
+    `).run(graduatedAt.toISOString(), tokenAddress)
+    this.statuses.set(tokenAddress, 'graduated')
+    this.lifecycle?.transition(tokenAddress, 'graduated', state ? '联合曲线完成' : '检测到迁移')
+
+    const token = this.getTokenLabel(tokenAddress)
+    logger.info(`🎓 代币已完成联合曲线: ${token.symbol} (${tokenAddress})`)
+
+    this.io?.emit('token_graduated', {
+      tokenAddress,
+      status: 'graduated',
+      graduatedAt,
+      marketCapSol: state?.marketCapSol
+    })
+
+    await this.raiseAlert({
+      id: `token_graduated_${tokenAddress}_${Date.now()}`,
+      tokenAddress,
+      type: AlertType.TOKEN_GRADUATED,
+      title: `🎓 已毕业: ${token.symbol}`,
+      message: `${token.name} (${token.symbol}) 已完成联合曲线，即将迁移至 AMM` +
+               (state ? `\n毕业市值: ${state.marketCapSol.toFixed(2)} SOL` : ''),
+      score: 100,
+      conditions: ['联合曲线进度: 100%'],
+      timestamp: new Date(),
+      isRead: false
+    })
+  }
+
+  private async raiseAlert(alert: Alert): Promise<void> {
+    if (this.alertEngine) {
+      await this.alertEngine.raiseAlert(alert)
+    }
+  }
+
+  private getTokenLabel(tokenAddress: string): { name: string, symbol: string } {
+    const row = this.db.getDb()
+      .prepare('SELECT name, symbol FROM tokens WHERE address = ?')
+      .get(tokenAddress) as { name: string, symbol: string } | undefined
+    return row || { name: tokenAddress, symbol: tokenAddress.slice(0, 6) }
+  }
+}
@@ -0,0 +1,534 @@
+import { DatabaseManager } from '../database/schema.js'
+import { logger } from '../utils/logger.js'
+import { enhancedErrorHandler } from '../utils/enhanced-error-handler.js'
+import { environment } from '../config/environment.js'
+import { curveTokenBalance, TOKEN_TOTAL_SUPPLY } from './bonding-curve.js'
+import type { Server as SocketIOServer } from 'socket.io'
+import type { Statement } from 'better-sqlite3'
+import type { HolderAnalysis, TokenHolder } from '../../../shared/types/index.ts'
+
+// 余额低于该数量视为已清仓（卖出时的舍入残留）
+const DUST_BALANCE = 1
+
+const FLUSH_INTERVAL = 1000
+
+export interface LedgerTrade {
+  tokenAddress: string
+  wallet: string
+  isBuy: boolean
+  tokenAmount: number
+  timestamp: number // 事件时间（毫秒）
+}
+
+// 尚未写入数据库的余额增量
+interface PendingBalance {
+  tokenAddress: string
+  wallet: string
+  delta: number
+  bought: number
+  sold: number
+  buyCount: number
+  sellCount: number
+  firstAcquiredAt: number | null
+  lastTradeAt: number
+}
+
+/**
+ * 持仓账本 - 由交易记录与实时交易流维护每个钱包的余额，并定期生成持币分析快照
+ */
+export class HolderLedger {
+  private db: DatabaseManager
+  private io: SocketIOServer | null = null
+  private isRunning: boolean = false
+  private flushTimer?: NodeJS.Timeout
+  private snapshotTimer?: NodeJS.Timeout
+  private pending: Map<string, PendingBalance> = new Map()
+  private touched: Set<string> = new Set() // 上次快照后有交易的代币
+  private upsertStmt: Statement | null = null
+  private snapshotStmt: Statement | null = null
+  private latestEventTime = 0 // 已见到的最新交易事件时间
+  private latestEventSeenAt = 0 // 见到该交易时的本地时间
+
+  constructor(db: DatabaseManager) {
+    this.db = db
+    logger.info('👥 持仓账本服务已初始化')
+  }
+
+  setSocketIO(io: SocketIOServer): void {
+    this.io = io
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return
+    this.isRunning = true
+
+    logger.info('👥 持仓账本服务启动')
+
+    // 补齐有交易但还没有持仓记录的代币
+    await this.backfillMissing()
+
+    this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL)
+    this.snapshotTimer = setInterval(() => this.snapshot(), environment.monitoring.holderSnapshotInterval)
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer)
+    }
+    if (this.snapshotTimer) {
+      clearInterval(this.snapshotTimer)
+    }
+    this.snapshot()
+    logger.info('👥 持仓账本服务停止')
+  }
+
+  /**
+   * 记录一笔交易对钱包余额的影响
+   */
+  recordTrade(trade: LedgerTrade): void {
+    if (trade.timestamp > this.latestEventTime) {
+      this.latestEventTime = trade.timestamp
+      this.latestEventSeenAt = Date.now()
+    }
+    accumulate(this.pending, trade)
+    this.touched.add(trade.tokenAddress)
+  }
+
+  /**
+   * 代币当前的持币分析
+   */
+  getAnalysis(tokenAddress: string): HolderAnalysis {
+    this.flush()
+    return queryHolderAnalysis(this.db, tokenAddress, this.now())
+  }
+
+  /**
+   * 事件时钟：最新交易事件时间加上此后经过的本地时间。
+   * first_acquired_at 是事件时间，回放旧数据时按它统计新增持有人
+   */
+  private now(): number {
+    if (this.latestEventTime === 0) return queryLatestTradeTime(this.db)
+    return this.latestEventTime + (Date.now() - this.latestEventSeenAt)
+  }
+
+  /**
+   * 按余额从高到低的持有人
+   */
+  getHolders(tokenAddress: string, limit: number = 20): TokenHolder[] {
+    this.flush()
+    return queryHolders(this.db, tokenAddress, limit)
+  }
+
+  /**
+   * 从交易表重建代币的全部持仓，返回参与记账的交易数（仅用于尚无实时增量的代币）
+   */
+  private rebuildFromTrades(tokenAddress: string): number {
+    const db = this.db.getDb()
+    const trades = db.prepare(`
+      SELECT trader_address, is_buy, token_amount, timestamp
+      FROM trades
+      WHERE token_address = ?
+      ORDER BY timestamp ASC
+    `).all(tokenAddress) as any[]
+
+    const rebuilt: Map<string, PendingBalance> = new Map()
+    for (const row of trades) {
+      accumulate(rebuilt, {
+        tokenAddress,
+        wallet: row.trader_address,
+        isBuy: Boolean(row.is_buy),
+        tokenAmount: row.token_amount,
+        timestamp: new Date(row.timestamp).getTime()
+      })
+    }
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM token_holders WHERE token_address = ?').run(tokenAddress)
+      this.writeBalances(Array.from(rebuilt.values()))
+    })()
+
+    return trades.length
+  }
+
+  private async backfillMissing(): Promise<void> {
+    try {
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
+      const rows = this.db.getDb().prepare(`
+        SELECT DISTINCT t.token_address
+        FROM trades t
+        WHERE t.timestamp > ?
+          AND NOT EXISTS (SELECT 1 FROM token_holders h WHERE h.token_address = t.token_address)
+        LIMIT 500
+      `).all(since) as { token_address: string }[]
+
+      if (rows.length === 0) return
+
+      let trades = 0
+      for (const row of rows) {
+        trades += this.rebuildFromTrades(row.token_address)
+        this.touched.add(row.token_address)
+      }
+      logger.info(`👥 已从 ${trades} 笔历史交易重建 ${rows.length} 个代币的持仓`)
+    } catch (error) {
+      await enhancedErrorHandler.handleError(error as Error, 'HolderLedger.backfillMissing')
+    }
+  }
+
+  /**
+   * 将余额增量写入数据库
+   */
+  private flush(): void {
+    if (this.pending.size === 0) return
+
+    const balances = Array.from(this.pending.values())
+    this.pending.clear()
+
+    try {
+      const db = this.db.getDb()
+      db.transaction(() => this.writeBalances(balances))()
+    } catch (error) {
+      // 写入失败时放回队列等待下次重试
+      for (const balance of balances) {
+        const key = balanceKey(balance.tokenAddress, balance.wallet)
+        const newer = this.pending.get(key)
+        if (newer) mergeBalance(balance, newer)
+        this.pending.set(key, balance)
+      }
+      logger.error('❌ 写入持仓失败:', error)
+    }
+  }
+
+  private writeBalances(balances: PendingBalance[]): void {
+    const stmt = this.getUpsertStatement()
+    for (const balance of balances) {
+      stmt.run(
+        balance.tokenAddress,
+        balance.wallet,
+        balance.delta,
+        balance.bought,
+        balance.sold,
+        balance.buyCount,
+        balance.sellCount,
+        balance.firstAcquiredAt !== null ? new Date(balance.firstAcquiredAt).toISOString() : null,
+        new Date(balance.lastTradeAt).toISOString()
+      )
+    }
+  }
+
+  /**
+   * 为上次快照后有交易的代币生成持币分析快照
+   */
+  private snapshot(): void {
+    this.flush()
+    if (this.touched.size === 0) return
+
+    const tokens = Array.from(this.touched)
+    this.touched.clear()
+
+    try {
+      const db = this.db.getDb()
+      this.snapshotStmt ??= db.prepare(`
+        INSERT INTO holder_snapshots (
+          token_address, total_holders, new_holders_5m, new_holders_1h, new_holders_24h,
+          holder_growth_rate, top10_percentage, top20_percentage, gini_coefficient,
+          whale_count, bonding_curve_balance, bonding_curve_percentage, timestamp
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+
+      const now = this.now()
+      const analyses = tokens.map(tokenAddress => queryHolderAnalysis(this.db, tokenAddress, now))
+      db.transaction(() => {
+        for (const analysis of analyses) {
+          this.snapshotStmt!.run(
+            analysis.tokenAddress,
+            analysis.totalHolders,
+            analysis.newHolders5m,
+            analysis.newHolders1h,
+            analysis.newHolders24h,
+            analysis.holderGrowthRate,
+            analysis.top10HoldingPercentage,
+            analysis.top20HoldingPercentage,
+            analysis.giniCoefficient,
+            analysis.whaleCount,
+            analysis.bondingCurveBalance,
+            analysis.bondingCurvePercentage,
+            analysis.timestamp.toISOString()
+          )
+        }
+      })()
+
+      if (this.io) {
+        for (const analysis of analyses) {
+          this.io.to(`token:${analysis.tokenAddress}`).emit('holder_update', analysis)
+        }
+      }
+
+      logger.debug(`👥 生成 ${analyses.length} 个代币的持币快照`)
+    } catch (error) {
+      enhancedErrorHandler.handleError(error as Error, 'HolderLedger.snapshot', { tokens: tokens.length })
+    }
+  }
+
+  private getUpsertStatement(): Statement {
+    // 余额与买卖量累加；首次买入取更早的时间，最后交易取更晚的时间
+    this.upsertStmt ??= this.db.getDb().prepare(`
+      INSERT INTO token_holders (
+        token_address, wallet_address, balance, bought_tokens, sold_tokens,
+        buy_count, sell_count, first_acquired_at, last_trade_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(token_address, wallet_address) DO UPDATE SET
+        balance = token_holders.balance + excluded.balance,
+        bought_tokens = token_holders.bought_tokens + excluded.bought_tokens,
+        sold_tokens = token_holders.sold_tokens + excluded.sold_tokens,
+        buy_count = token_holders.buy_count + excluded.buy_count,
+        sell_count = token_holders.sell_count + excluded.sell_count,
+        first_acquired_at = CASE
+          WHEN token_holders.first_acquired_at IS NULL THEN excluded.first_acquired_at
+          WHEN excluded.first_acquired_at IS NULL THEN token_holders.first_acquired_at
+          ELSE MIN(token_holders.first_acquired_at, excluded.first_acquired_at)
+        END,
+        last_trade_at = MAX(token_holders.last_trade_at, excluded.last_trade_at)
+    `)
+    return this.upsertStmt
+  }
+}
+
+function balanceKey(tokenAddress: string, wallet: string): string {
+  return `${tokenAddress}:${wallet}`
+}
+
+/**
+ * 将交易累加到钱包余额增量
+ */
+function accumulate(pending: Map<string, PendingBalance>, trade: LedgerTrade): void {
+  if (!trade.wallet || trade.wallet === 'unknown' || !(trade.tokenAmount > 0) || !Number.isFinite(trade.timestamp)) return
+
+  const key = balanceKey(trade.tokenAddress, trade.wallet)
+  let balance = pending.get(key)
+  if (!balance) {
+    balance = {
+      tokenAddress: trade.tokenAddress,
+      wallet: trade.wallet,
+      delta: 0,
+      bought: 0,
+      sold: 0,
+      buyCount: 0,
+      sellCount: 0,
+      firstAcquiredAt: null,
+      lastTradeAt: trade.timestamp
+    }
+    pending.set(key, balance)
+  }
+
+  if (trade.isBuy) {
+    balance.delta += trade.tokenAmount
+    balance.bought += trade.tokenAmount
+    balance.buyCount++
+    balance.firstAcquiredAt = balance.firstAcquiredAt === null
+      ? trade.timestamp
+      : Math.min(balance.firstAcquiredAt, trade.timestamp)
+  } else {
+    balance.delta -= trade.tokenAmount
+    balance.sold += trade.tokenAmount
+    balance.sellCount++
+  }
+  balance.lastTradeAt = Math.max(balance.lastTradeAt, trade.timestamp)
+}
+
+/**
+ * 将 source 合并进 target（同一钱包的两段增量）
+ */
+function mergeBalance(target: PendingBalance, source: PendingBalance): void {
+  target.delta += source.delta
+  target.bought += source.bought
+  target.sold += source.sold
+  target.buyCount += source.buyCount
+  target.sellCount += source.sellCount
+  if (source.firstAcquiredAt !== null) {
+    target.firstAcquiredAt = target.firstAcquiredAt === null
+      ? source.firstAcquiredAt
+      : Math.min(target.firstAcquiredAt, source.firstAcquiredAt)
+  }
+  target.lastTradeAt = Math.max(target.lastTradeAt, source.lastTradeAt)
+}
+
+/**
+ * 基尼系数（余额需升序排列）
+ */
+export function giniCoefficient(sortedBalances: number[]): number {
+  const n = sortedBalances.length
+  if (n < 2) return 0
+
+  let total = 0
+  let weighted = 0
+  sortedBalances.forEach((balance, index) => {
+    total += balance
+    weighted += (index + 1) * balance
+  })
+  if (total <= 0) return 0
+
+  return (2 * weighted) / (n * total) - (n + 1) / n
+}
+
+/**
+ * 由持仓余额计算持币分析（不含联合曲线账户）
+ */
+export function calculateHolderAnalysis(
+  tokenAddress: string,
+  holders: { balance: number, firstAcquiredAt: number | null }[],
+  bondingCurveBalance: number,
+  totalSupply: number,
+  now: number // 事件时间（毫秒）
+): HolderAnalysis {
+  const active = holders.filter(holder => holder.balance >= DUST_BALANCE)
+  const balances = active.map(holder => holder.balance).sort((a, b) => a - b)
+  const descending = [...balances].reverse()
+  const percentOf = (amount: number) => totalSupply > 0 ? (amount / totalSupply) * 100 : 0
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+  const newSince = (window: number) => active.filter(holder =>
+    holder.firstAcquiredAt !== null && holder.firstAcquiredAt >= now - window
+  ).length
+
+  const newHolders1h = newSince(60 * 60 * 1000)
+  const previousHolders = active.length - newHolders1h
+  const whaleThreshold = totalSupply * environment.monitoring.holderWhalePercent / 100
+
+  return {
+    tokenAddress,
+    totalHolders: active.length,
+    newHolders5m: newSince(5 * 60 * 1000),
+    newHolders1h,
+    newHolders24h: newSince(24 * 60 * 60 * 1000),
+    holderGrowthRate: previousHolders > 0 ? (newHolders1h / previousHolders) * 100 : (newHolders1h > 0 ? 100 : 0),
+    top10HoldingPercentage: percentOf(sum(descending.slice(0, 10))),
+    top20HoldingPercentage: percentOf(sum(descending.slice(0, 20))),
+    giniCoefficient: giniCoefficient(balances),
+    whaleCount: balances.filter(balance => balance >= whaleThreshold).length,
+    bondingCurveBalance,
+    bondingCurvePercentage: percentOf(bondingCurveBalance),
+    timestamp: new Date(now)
+  }
+}
+
+/**
+ * 代币总供应量与联合曲线账户余额（迁移后曲线账户已清空）
+ */
+function queryCurveHolding(db: DatabaseManager, tokenAddress: string, walletTotal: number): { totalSupply: number, curveBalance: number } {
+  const token = db.getDb().prepare(`
+    SELECT t.total_supply, t.graduation_status, b.virtual_token_reserves
+    FROM tokens t
+    LEFT JOIN bonding_curve_state b ON b.token_address = t.address
+    WHERE t.address = ?
+  `).get(tokenAddress) as { total_supply: string | null, graduation_status: string | null, virtual_token_reserves: number | null } | undefined
+
+  const totalSupply = Number(token?.total_supply) || TOKEN_TOTAL_SUPPLY
+  if (token?.graduation_status === 'migrated') {
+    return { totalSupply, curveBalance: 0 }
+  }
+
+  // 没有曲线状态时，未被钱包持有的部分都在曲线账户中
+  const curveBalance = token?.virtual_token_reserves
+    ? curveTokenBalance(token.virtual_token_reserves)
+    : Math.max(0, totalSupply - walletTotal)
+  return { totalSupply, curveBalance }
+}
+
+/**
+ * 最新一笔交易的事件时间，没有交易时取当前时间
+ */
+export function queryLatestTradeTime(db: DatabaseManager): number {
+  const row = db.getDb().prepare('SELECT MAX(last_trade_at) AS latest FROM tokens')
+    .get() as { latest: string | null }
+  const latest = row.latest ? new Date(row.latest).getTime() : NaN
+  return Number.isFinite(latest) ? latest : Date.now()
+}
+
+/**
+ * 代币的持币分析，新增持有人按 now（事件时间，默认最新交易时间）统计
+ */
+export function queryHolderAnalysis(
+  db: DatabaseManager,
+  tokenAddress: string,
+  now: number = queryLatestTradeTime(db)
+): HolderAnalysis {
+  const rows = db.getDb().prepare(`
+    SELECT balance, first_acquired_at FROM token_holders
+    WHERE token_address = ? AND balance >= ?
+  `).all(tokenAddress, DUST_BALANCE) as { balance: number, first_acquired_at: string | null }[]
+
+  const holders = rows.map(row => ({
+    balance: row.balance,
+    firstAcquiredAt: row.first_acquired_at ? new Date(row.first_acquired_at).getTime() : null
+  }))
+  const walletTotal = holders.reduce((total, holder) => total + holder.balance, 0)
+  const { totalSupply, curveBalance } = queryCurveHolding(db, tokenAddress, walletTotal)
+
+  return calculateHolderAnalysis(tokenAddress, holders, curveBalance, totalSupply, now)
+}
+
+export function queryHolders(db: DatabaseManager, tokenAddress: string, limit: number = 20): TokenHolder[] {
+  const token = db.getDb().prepare('SELECT total_supply FROM tokens WHERE address = ?')
+    .get(tokenAddress) as { total_supply: string | null } | undefined
+  const totalSupply = Number(token?.total_supply) || TOKEN_TOTAL_SUPPLY
+
+  const rows = db.getDb().prepare(`
+    SELECT * FROM token_holders
+    WHERE token_address = ? AND balance >= ?
+    ORDER BY balance DESC
+    LIMIT ?
+  `).all(tokenAddress, DUST_BALANCE, limit) as any[]
+
+  return rows.map(row => rowToTokenHolder(row, totalSupply))
+}
+
+export function queryHolderSnapshots(
+  db: DatabaseManager,
+  tokenAddress: string,
+  options: { from?: Date, limit?: number } = {}
+): HolderAnalysis[] {
+  const rows = db.getDb().prepare(`
+    SELECT * FROM (
+      SELECT * FROM holder_snapshots
+      WHERE token_address = ? AND timestamp >= ?
+      ORDER BY timestamp DESC
+      LIMIT ?
+    ) ORDER BY timestamp ASC
+  `).all(tokenAddress, (options.from ?? new Date(0)).toISOString(), options.limit ?? 100) as any[]
+
+  return rows.map(rowToHolderAnalysis)
+}
+
+export function rowToTokenHolder(row: any, totalSupply: number = TOKEN_TOTAL_SUPPLY): TokenHolder {
+  return {
+    tokenAddress: row.token_address,
+    walletAddress: row.wallet_address,
+    balance: row.balance,
+    percentage: totalSupply > 0 ? (row.balance / totalSupply) * 100 : 0,
+    boughtTokens: row.bought_tokens,
+    soldTokens: row.sold_tokens,
+    buyCount: row.buy_count,
+    sellCount: row.sell_count,
+    firstAcquiredAt: new Date(row.first_acquired_at ?? row.last_trade_at),
+    lastTradeAt: new Date(row.last_trade_at)
+  }
+}
+
+export function rowToHolderAnalysis(row: any): HolderAnalysis {
+  return {
+    tokenAddress: row.token_address,
+    totalHolders: row.total_holders,
+    newHolders5m: row.new_holders_5m,
+    newHolders1h: row.new_holders_1h,
+    newHolders24h: row.new_holders_24h,
+    holderGrowthRate: row.holder_growth_rate,
+    top10HoldingPercentage: row.top10_percentage,
+    top20HoldingPercentage: row.top20_percentage,
+    giniCoefficient: row.gini_coefficient,
+    whaleCount: row.whale_count,
+    bondingCurveBalance: row.bonding_curve_balance,
+    bondingCurvePercentage: row.bonding_curve_percentage,
+    timestamp: new Date(row.timestamp)
+  }
+}
@@ -2,7 +2,12 @@ import { httpClient } from '../utils/http-client.js'
 import { getConfig } from '../config/api-config.js'
 import { logger } from '../utils/logger.js'
 import { errorHandler, createError } from '../utils/error-handler.js'
-import type { PriceData } from '../../../shared/types/index.ts'
+import type { CandleAggregator } from './candle-aggregator.js'
+import type { PriceHistoryService } from './price-history.js'
+import type { PriceData, CandleInterval } from '../../../shared/types/index.ts'
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112'
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
 
 // Jupiter API响应接口
 interface JupiterPriceResponse {
@@ -29,6 +34,22 @@ export class JupiterAPI {
   private config = getConfig()
   private priceCache = new Map<string, { price: number; timestamp: number }>()
   private readonly CACHE_DURATION = 30 * 1000 // 30秒缓存
+  private candleAggregator?: CandleAggregator
+  private priceHistory?: PriceHistoryService
+
+  /**
+   * 设置K线来源（Jupiter 不提供历史价格，历史数据来自本地聚合的K线）
+   */
+  setCandleAggregator(candleAggregator: CandleAggregator): void {
+    this.candleAggregator = candleAggregator
+  }
+
+  /**
+   * 设置价格历史来源（曲线成交与毕业后的价格采样）
+   */
+  setPriceHistory(priceHistory: PriceHistoryService): void {
+    this.priceHistory = priceHistory
+  }
 
   /**
    * 获取代币当前价格（以SOL计价）
@@ -72,6 +93,28 @@ export class JupiterAPI {
     }
   }
 
+  /**
+   * 获取 SOL 的美元价格（以 USDC 计价）
+   */
+  async getSolUsdPrice(): Promise<number | null> {
+    try {
+      const url = this.config.jupiter.baseUrl + this.config.jupiter.endpoints.price
+      const queryParams = httpClient.buildQueryString({
+        ids: SOL_MINT,
+        vsToken: USDC_MINT
+      })
+
+      const response = await httpClient.request<JupiterPriceResponse>(
+        url + queryParams
+      )
+
+      return response.data[SOL_MINT]?.price ?? null
+    } catch (error) {
+      errorHandler.handleError(error as Error, '获取SOL美元价格')
+      return null
+    }
+  }
+
   /**
    * 获取多个代币的价格
    */
@@ -127,14 +170,18 @@ export class JupiterAPI {
    */
   async getTokenPriceHistory(
     tokenAddress: string,
-    timeframe: '1m' | '5m' | '15m' | '1h' | '24h' = '1h',
+    timeframe: CandleInterval = '1h',
     limit: number = 100
   ): Promise<Array<{ timestamp: Date; price: number }>> {
     try {
-      // 注意：Jupiter API可能不直接提供历史数据
-      // 这里可能需要使用其他数据源如Birdeye或DexScreener
-      console.warn('⚠️ Jupiter API历史价格功能待实现，建议使用Birdeye API')
-      return []
+      if (!this.candleAggregator) {
+        logger.warn('⚠️ 未设置K线来源，无法获取历史价格')
+        return []
+      }
+
+      return this.candleAggregator
+        .getCandles(tokenAddress, timeframe, { limit })
+        .map(candle => ({ timestamp: candle.openTime, price: candle.close }))
     } catch (error) {
       console.error(`❌ 获取历史价格失败 ${tokenAddress}:`, error)
       return []
@@ -142,49 +189,22 @@ export class JupiterAPI {
   }
 
   /**
-   * 计算价格变化百分比
+   * 计算价格变化百分比（历史不足的窗口为 null）
    */
   async calculatePriceChanges(tokenAddress: string): Promise<PriceData | null> {
     try {
-      const currentPrice = await this.getTokenPrice(tokenAddress)
-      if (!currentPrice) {
+      if (!this.priceHistory) {
+        logger.warn('⚠️ 未设置价格历史来源，无法计算价格变化')
         return null
       }
 
-      // 由于Jupiter API限制，这里使用模拟的历史价格计算
-      // 在实际应用中，应该使用真实的历史数据
-      const mockHistoricalPrices = {
-        price1mAgo: currentPrice * (1 + (Math.random() - 0.5) * 0.1),
-        price5mAgo: currentPrice * (1 + (Math.random() - 0.5) * 0.2),
-        price15mAgo: currentPrice * (1 + (Math.random() - 0.5) * 0.3),
-        price1hAgo: currentPrice * (1 + (Math.random() - 0.5) * 0.5),
-        price24hAgo: currentPrice * (1 + (Math.random() - 0.5) * 1.0)
-      }
-
-      return {
-        tokenAddress,
-        price: currentPrice,
-        priceChange1m: this.calculatePercentageChange(currentPrice, mockHistoricalPrices.price1mAgo),
-        priceChange5m: this.calculatePercentageChange(currentPrice, mockHistoricalPrices.price5mAgo),
-        priceChange15m: this.calculatePercentageChange(currentPrice, mockHistoricalPrices.price15mAgo),
-        priceChange1h: this.calculatePercentageChange(currentPrice, mockHistoricalPrices.price1hAgo),
-        priceChange24h: this.calculatePercentageChange(currentPrice, mockHistoricalPrices.price24hAgo),
-        timestamp: new Date()
-      }
+      return await this.priceHistory.getPriceChanges(tokenAddress)
     } catch (error) {
       console.error(`❌ 计算价格变化失败 ${tokenAddress}:`, error)
       return null
     }
   }
 
-  /**
-   * 计算百分比变化
-   */
-  private calculatePercentageChange(current: number, previous: number): number {
-    if (previous === 0) return 0
-    return ((current - previous) / previous) * 100
-  }
-
   /**
    * 清理过期缓存
    */
@@ -2,6 +2,7 @@ import { DatabaseManager } from '../database/schema.js'
 import { logger } from '../utils/logger.js'
 import { enhancedErrorHandler, ErrorType, ErrorSeverity } from '../utils/enhanced-error-handler.js'
 import { environment } from '../config/environment.js'
+import type { DataSourceManager } from './data-source-manager.js'
 import type { Server } from 'socket.io'
 
 // KOL信息接口
@@ -65,6 +66,7 @@ export class KOLTracker {
   private io?: Server
   private isRunning: boolean = false
   private monitoredKOLs: Set<string> = new Set()
+  private dataSourceManager?: DataSourceManager
   
   constructor(db: DatabaseManager) {
     this.db = db
@@ -75,6 +77,10 @@ export class KOLTracker {
     this.io = io
   }
 
+  setDataSourceManager(dataSourceManager: DataSourceManager): void {
+    this.dataSourceManager = dataSourceManager
+  }
+
   async start(): Promise<void> {
     if (this.isRunning) return
     this.isRunning = true
@@ -88,11 +94,12 @@ export class KOLTracker {
       
       logger.info('🎯 KOL追踪器启动完成')
       
-      // 定期更新KOL统计数据
+      // 定期更新KOL统计数据，并同步活跃KOL列表（停用的KOL退订钱包交易）
       setInterval(() => {
         this.updateKOLStatistics().catch(error => {
           enhancedErrorHandler.handleError(error, 'updateKOLStatistics定时任务')
         })
+        this.loadActiveKOLs()
       }, 300000) // 每5分钟更新一次
       
     } catch (error) {
@@ -139,6 +146,9 @@ export class KOLTracker {
       )
       
       this.monitoredKOLs.add(kolInfo.walletAddress)
+      if (this.isRunning && kolInfo.isActive) {
+        this.dataSourceManager?.subscribeAccountTrades([kolInfo.walletAddress])
+      }
       logger.info(`✅ 已添加KOL到监控列表: ${kolInfo.name} (${kolInfo.walletAddress})`)
       
       return result.lastInsertRowid as number
@@ -162,14 +172,15 @@ export class KOLTracker {
         return // 不是监控的KOL，忽略
       }
       
+      // 重连或回放时同一笔交易可能再次到达，按签名去重
       const stmt = db.prepare(`
-        INSERT INTO kol_transactions (
+        INSERT OR IGNORE INTO kol_transactions (
           kol_wallet_address, token_address, transaction_hash, action,
           amount, price, value_sol, timestamp, profit_loss, holding_period
         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `)
       
-      stmt.run(
+      const result = stmt.run(
         transaction.kolWalletAddress,
         transaction.tokenAddress,
         transaction.transactionHash,
@@ -181,6 +192,12 @@ export class KOLTracker {
         transaction.profitLoss || null,
         transaction.holdingPeriod || null
       )
+      if (result.changes === 0) return
+      
+      // KOL 买入的代币持续订阅交易，长时间无交易后由订阅管理自动退订
+      if (transaction.action === 'buy') {
+        this.dataSourceManager?.subscribeTokenTrades(transaction.tokenAddress, 'kol_holding')
+      }
       
       // 生成KOL信号
       await this.generateKOLSignal(transaction)
@@ -348,7 +365,7 @@ export class KOLTracker {
     }
   }
 
-  // 加载活跃的KOL列表
+  // 加载活跃的KOL列表，并按差异订阅 / 退订KOL钱包的交易
   private async loadActiveKOLs(): Promise<void> {
     const db = this.db.getDb()
     
@@ -358,13 +375,17 @@ export class KOLTracker {
       `)
       
       const rows = stmt.all() as any[]
-      this.monitoredKOLs.clear()
+      const active = new Set<string>(rows.map(row => row.wallet_address))
+      const added = [...active].filter(wallet => !this.monitoredKOLs.has(wallet))
+      const removed = [...this.monitoredKOLs].filter(wallet => !active.has(wallet))
+      this.monitoredKOLs = active
       
-      rows.forEach(row => {
-        this.monitoredKOLs.add(row.wallet_address)
-      })
+      this.dataSourceManager?.subscribeAccountTrades(added)
+      this.dataSourceManager?.unsubscribeAccountTrades(removed)
       
-      logger.info(`📋 加载了 ${this.monitoredKOLs.size} 个活跃KOL`)
+      if (added.length > 0 || removed.length > 0) {
+        logger.info(`📋 加载了 ${this.monitoredKOLs.size} 个活跃KOL (新增 ${added.length}, 停用 ${removed.length})`)
+      }
     } catch (error) {
       await enhancedErrorHandler.handleError(
         error as Error,
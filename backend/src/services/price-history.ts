@@ -0,0 +1,195 @@
+import { DatabaseManager } from '../database/schema.js'
+import { logger } from '../utils/logger.js'
+import { enhancedErrorHandler } from '../utils/enhanced-error-handler.js'
+import { environment } from '../config/environment.js'
+import { jupiterAPI } from './jupiter-api.js'
+import type { PriceData } from '../../../shared/types/index.ts'
+
+// 价格变化的回看窗口（毫秒）
+const LOOKBACKS = {
+  priceChange1m: 60 * 1000,
+  priceChange5m: 5 * 60 * 1000,
+  priceChange15m: 15 * 60 * 1000,
+  priceChange1h: 60 * 60 * 1000,
+  priceChange24h: 24 * 60 * 60 * 1000
+}
+
+const SAMPLE_BATCH_SIZE = 100
+
+// 曲线上成交的价格（与K线一致，优先用成交额/成交量）
+const TRADE_PRICE = 'CASE WHEN token_amount > 0 THEN sol_amount / token_amount ELSE price_per_token END'
+
+interface TokenSource {
+  graduated: boolean
+  graduatedAt: number | null
+}
+
+/**
+ * 价格历史服务 - 曲线上的代币使用本地成交记录，毕业后的代币定期采样 Jupiter 价格，
+ * 历史不足的时间段返回 null 而不是估算值
+ */
+export class PriceHistoryService {
+  private db: DatabaseManager
+  private isRunning: boolean = false
+  private sampleTimer?: NodeJS.Timeout
+  private pruneTimer?: NodeJS.Timeout
+
+  constructor(db: DatabaseManager) {
+    this.db = db
+    logger.info('📈 价格历史服务已初始化')
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return
+    this.isRunning = true
+
+    logger.info('📈 价格历史服务启动')
+
+    await this.sampleGraduated()
+
+    this.sampleTimer = setInterval(() => this.sampleGraduated(), environment.monitoring.priceSampleInterval)
+    this.pruneTimer = setInterval(() => this.prune(), 60 * 60 * 1000) // 每小时清理一次
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false
+    if (this.sampleTimer) {
+      clearInterval(this.sampleTimer)
+    }
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer)
+    }
+    logger.info('📈 价格历史服务停止')
+  }
+
+  /**
+   * 计算各窗口的价格变化，窗口起点没有可用价格时对应字段为 null
+   */
+  async getPriceChanges(tokenAddress: string): Promise<PriceData | null> {
+    const source = this.getTokenSource(tokenAddress)
+    if (!source) return null
+
+    const now = Date.now()
+    // 曲线代币的现价与回看价格都取成交价，不与曲线现价混用，否则价格未变时也会算出涨跌
+    const price = source.graduated
+      ? await jupiterAPI.getTokenPrice(tokenAddress) ?? this.getSamplePriceAt(tokenAddress, now)
+      : this.getTradePriceAt(tokenAddress, now)
+    if (!price) return null
+
+    const change = (lookback: number): number | null => {
+      const previous = this.getPriceAt(tokenAddress, source, now - lookback)
+      return previous ? ((price - previous) / previous) * 100 : null
+    }
+
+    return {
+      tokenAddress,
+      price,
+      priceChange1m: change(LOOKBACKS.priceChange1m),
+      priceChange5m: change(LOOKBACKS.priceChange5m),
+      priceChange15m: change(LOOKBACKS.priceChange15m),
+      priceChange1h: change(LOOKBACKS.priceChange1h),
+      priceChange24h: change(LOOKBACKS.priceChange24h),
+      timestamp: new Date(now)
+    }
+  }
+
+  /**
+   * 为已毕业且未死亡的代币采样 Jupiter 价格
+   */
+  private async sampleGraduated(): Promise<void> {
+    try {
+      const db = this.db.getDb()
+      const tokens = db.prepare(`
+        SELECT address FROM tokens
+        WHERE graduation_status IN ('graduated', 'migrated') AND lifecycle_state != 'dead'
+      `).all() as { address: string }[]
+
+      if (tokens.length === 0) return
+
+      const insertStmt = db.prepare(`
+        INSERT OR REPLACE INTO price_samples (token_address, price, source, timestamp)
+        VALUES (?, ?, 'jupiter', ?)
+      `)
+
+      let sampled = 0
+      for (let i = 0; i < tokens.length; i += SAMPLE_BATCH_SIZE) {
+        const batch = tokens.slice(i, i + SAMPLE_BATCH_SIZE).map(token => token.address)
+        const prices = await jupiterAPI.getMultipleTokenPrices(batch)
+        const timestamp = new Date().toISOString()
+
+        db.transaction(() => {
+          for (const [tokenAddress, price] of prices) {
+            if (!(price > 0)) continue
+            insertStmt.run(tokenAddress, price, timestamp)
+            sampled++
+          }
+        })()
+      }
+
+      logger.debug(`📈 采样 ${sampled}/${tokens.length} 个毕业代币的价格`)
+    } catch (error) {
+      await enhancedErrorHandler.handleError(error as Error, 'PriceHistoryService.sampleGraduated')
+    }
+  }
+
+  private prune(): void {
+    try {
+      const cutoff = new Date(Date.now() - environment.monitoring.priceSampleRetention).toISOString()
+      const result = this.db.getDb().prepare('DELETE FROM price_samples WHERE timestamp < ?').run(cutoff)
+      if (result.changes > 0) {
+        logger.debug(`🧹 清理 ${result.changes} 条过期价格采样`)
+      }
+    } catch (error) {
+      logger.error('❌ 清理价格采样失败:', error)
+    }
+  }
+
+  private getTokenSource(tokenAddress: string): TokenSource | null {
+    const row = this.db.getDb().prepare(`
+      SELECT graduation_status, graduated_at FROM tokens WHERE address = ?
+    `).get(tokenAddress) as { graduation_status: string | null, graduated_at: string | null } | undefined
+    if (!row) return null
+
+    return {
+      graduated: row.graduation_status === 'graduated' || row.graduation_status === 'migrated',
+      graduatedAt: row.graduated_at ? new Date(row.graduated_at).getTime() : null
+    }
+  }
+
+  /**
+   * 某一时刻的价格：毕业之后取 Jupiter 采样，毕业之前取曲线成交
+   */
+  private getPriceAt(tokenAddress: string, source: TokenSource, time: number): number | null {
+    if (source.graduated && (source.graduatedAt === null || time >= source.graduatedAt)) {
+      return this.getSamplePriceAt(tokenAddress, time)
+    }
+    return this.getTradePriceAt(tokenAddress, time)
+  }
+
+  /**
+   * 该时刻之前最后一笔成交价，之前没有成交时返回 null
+   */
+  private getTradePriceAt(tokenAddress: string, time: number): number | null {
+    const row = this.db.getDb().prepare(`
+      SELECT ${TRADE_PRICE} AS price FROM trades
+      WHERE token_address = ? AND timestamp <= ?
+      ORDER BY timestamp DESC
+      LIMIT 1
+    `).get(tokenAddress, new Date(time).toISOString()) as { price: number } | undefined
+    return row?.price || null
+  }
+
+  /**
+   * 该时刻之前最近的采样；与该时刻相隔超过两个采样周期视为缺失（例如服务停机期间）
+   */
+  private getSamplePriceAt(tokenAddress: string, time: number): number | null {
+    const maxGap = environment.monitoring.priceSampleInterval * 2
+    const row = this.db.getDb().prepare(`
+      SELECT price FROM price_samples
+      WHERE token_address = ? AND timestamp <= ? AND timestamp >= ?
+      ORDER BY timestamp DESC
+      LIMIT 1
+    `).get(tokenAddress, new Date(time).toISOString(), new Date(time - maxGap).toISOString()) as { price: number } | undefined
+    return row?.price || null
+  }
+}
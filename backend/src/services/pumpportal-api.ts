@@ -1,8 +1,24 @@
 import WebSocket from 'ws'
+import { createHash } from 'crypto'
 import { logger } from '../utils/logger.js'
 import { errorHandler } from '../utils/error-handler.js'
 import { DatabaseManager } from '../database/schema.js'
-import type { TokenInfo, TradingData } from '../../../shared/types/index.ts'
+import { getConfig } from '../config/api-config.js'
+import { StreamRecorder } from './stream-recorder.js'
+import { StreamReplaySource, parseReplaySpeed, type ReplayStats } from './stream-replay.js'
+import { BondingCurveTracker, type CurveReserves } from './bonding-curve.js'
+import { TradeIngestionQueue, type TradeIngestionMetrics } from './trade-ingestion-queue.js'
+import { ConnectionSupervisor, type ConnectionStatus } from './connection-supervisor.js'
+import {
+  TokenSubscriptionManager,
+  type SubscriptionReason,
+  type SubscriptionStats,
+  type TokenSubscription
+} from './subscription-manager.js'
+import { NEUTRAL_REPUTATION, queryCreatorReputation } from './creator-reputation.js'
+import { queryWashTradeStats } from './wash-trade-detector.js'
+import type { TokenInfo, TradingData, BondingCurveState } from '../../../shared/types/index.ts'
+import type { Statement } from 'better-sqlite3'
 
 // PumpPortal WebSocket 消息接口
 interface PumpPortalTokenEvent {
@@ -20,6 +36,16 @@ interface PumpPortalTokenEvent {
   twitter?: string
   telegram?: string
   website?: string
+  // PumpPortal 实际推送的字段
+  traderPublicKey?: string
+  bondingCurveKey?: string
+  vSolInBondingCurve?: number
+  vTokensInBondingCurve?: number
+  marketCapSol?: number
+  uri?: string
+  initialBuy?: number // 开发者创建时同笔交易买入的代币数量
+  solAmount?: number // 开发者首笔买入花费的 SOL
+  signature?: string
 }
 
 interface PumpPortalTradeEvent {
@@ -30,77 +56,146 @@ interface PumpPortalTradeEvent {
   user: string
   timestamp: number
   signature: string
+  traderPublicKey?: string
+  txType?: 'buy' | 'sell'
+  bondingCurveKey?: string
+  vSolInBondingCurve?: number
+  vTokensInBondingCurve?: number
+  marketCapSol?: number
+  bondingCurve?: BondingCurveState // 该笔交易后的曲线状态
+  pool?: string
+  eventTime: number // 交易发生时间（毫秒），帧中无时间戳时取接收时间
+  receivedAt: number // 本地接收时间（毫秒）
+  isLate?: boolean // 早于该代币已处理的最新交易（乱序到达）
+}
+
+// 代币完成联合曲线并迁移到 AMM
+export interface PumpPortalMigrationEvent {
+  mint: string
+  signature: string
+  pool: string
+  timestamp: number
 }
 
 export class PumpPortalAPI {
   private ws: WebSocket | null = null
-  private reconnectAttempts = 0
-  private maxReconnectAttempts = 5
-  private reconnectDelay = 5000
-  private isConnecting = false
   private db: DatabaseManager
+  private config = getConfig()
+  
+  // 连接监督（重连、停滞检测）
+  private supervisor: ConnectionSupervisor
+  
+  // 代币交易订阅，重连后自动恢复
+  private subscriptions: TokenSubscriptionManager
+  private subscribeBatchSize = 100
+  
+  // 钱包交易订阅（KOL 钱包），重连后自动恢复
+  private accountSubscriptions: Set<string> = new Set()
+  
+  // 录制与回放
+  private recorder: StreamRecorder | null = null
+  private replaySource: StreamReplaySource | null = null
+  
+  // 联合曲线状态
+  private bondingCurves: BondingCurveTracker
+  
+  // 交易批量写入
+  private tradeQueue: TradeIngestionQueue
   
   // 数据缓存
   private newTokens: TokenInfo[] = []
   private tokenTrades: Map<string, PumpPortalTradeEvent[]> = new Map()
   private maxCacheSize = 1000
   
+  // 交易去重与乱序检测
+  private seenSignatures: Set<string> = new Set()
+  private maxSeenSignatures = 50000
+  private latestEventTimes: Map<string, number> = new Map()
+  private signatureExistsStmt: Statement | null = null
+  private tradeStats = { duplicates: 0, late: 0 }
+  
   // 事件监听器
   private tokenListeners: ((token: TokenInfo) => void)[] = []
   private tradeListeners: ((trade: PumpPortalTradeEvent) => void)[] = []
+  private migrationListeners: ((event: PumpPortalMigrationEvent) => void)[] = []
 
-  constructor(db: DatabaseManager) {
+  constructor(db: DatabaseManager, options: { live?: boolean } = {}) {
     this.db = db
-    this.connect()
+    this.bondingCurves = new BondingCurveTracker(db)
+    this.bondingCurves.start(this.config.pumpportal.ingestion.flushInterval)
+    this.tradeQueue = new TradeIngestionQueue(db, this.config.pumpportal.ingestion)
+    this.tradeQueue.start()
+    
+    this.subscriptions = new TokenSubscriptionManager(this.config.pumpportal.subscriptions, {
+      subscribe: keys => this.sendTradeSubscription('subscribeTokenTrade', keys),
+      unsubscribe: keys => this.sendTradeSubscription('unsubscribeTokenTrade', keys)
+    })
+    this.subscriptions.start()
+    
+    if (this.config.pumpportal.recorder.enabled) {
+      this.recorder = new StreamRecorder(this.config.pumpportal.recorder)
+    }
+    
+    // 重启后从数据库恢复最近的代币缓存
+    this.loadCachedTokens()
+    
+    const { reconnectDelay, maxReconnectDelay, staleTimeout } = this.config.pumpportal
+    this.supervisor = new ConnectionSupervisor(
+      { name: 'PumpPortal WebSocket', baseDelay: reconnectDelay, maxDelay: maxReconnectDelay, staleTimeout },
+      {
+        connect: () => this.connect(),
+        terminate: () => this.ws?.terminate()
+      }
+    )
+    
+    // 回放模式下不连接实时数据流
+    if (options.live !== false) {
+      this.supervisor.start()
+    }
   }
 
   /**
-   * 连接到 PumpPortal WebSocket
+   * 连接到 PumpPortal WebSocket（重连由 supervisor 调度）
    */
-  private async connect(): Promise<void> {
-    if (this.isConnecting || (this.ws && this.ws.readyState === WebSocket.OPEN)) {
-      return
+  private connect(): void {
+    if (this.ws) {
+      this.ws.removeAllListeners()
+      // 旧连接的错误不再处理，避免未捕获的 error 事件
+      this.ws.on('error', () => {})
+      this.ws.terminate()
+      this.ws = null
     }
-
-    this.isConnecting = true
     
-    try {
-      logger.info('正在连接 PumpPortal WebSocket...')
-      this.ws = new WebSocket('wss://pumpportal.fun/api/data')
-      
-      this.ws.on('open', () => {
-        logger.info('PumpPortal WebSocket 连接成功')
-        this.isConnecting = false
-        this.reconnectAttempts = 0
-        this.subscribeToEvents()
-      })
-      
-      this.ws.on('message', (data: Buffer) => {
-        try {
-          const message = JSON.parse(data.toString())
-          this.handleMessage(message)
-        } catch (error) {
-          logger.error('解析 PumpPortal 消息失败:', error)
-        }
-      })
-      
-      this.ws.on('close', () => {
-        logger.warn('PumpPortal WebSocket 连接关闭')
-        this.isConnecting = false
-        this.scheduleReconnect()
-      })
-      
-      this.ws.on('error', (error) => {
-        logger.error('PumpPortal WebSocket 错误:', error)
-        this.isConnecting = false
-        this.scheduleReconnect()
-      })
-      
-    } catch (error) {
-      logger.error('连接 PumpPortal WebSocket 失败:', error)
-      this.isConnecting = false
-      this.scheduleReconnect()
-    }
+    logger.info(`正在连接 PumpPortal WebSocket: ${this.config.pumpportal.websocketUrl}`)
+    const ws = new WebSocket(this.config.pumpportal.websocketUrl, {
+      handshakeTimeout: this.config.pumpportal.staleTimeout
+    })
+    this.ws = ws
+    
+    ws.on('open', () => {
+      logger.info('PumpPortal WebSocket 连接成功')
+      this.supervisor.markConnected()
+      this.subscribeToEvents()
+    })
+    
+    ws.on('message', (data: Buffer) => {
+      this.supervisor.markMessage()
+      this.processFrame(data.toString(), Date.now())
+    })
+    
+    ws.on('close', (code: number) => {
+      if (this.ws !== ws) return
+      this.ws = null
+      this.supervisor.markDisconnected(`close ${code}`)
+    })
+    
+    ws.on('error', (error) => {
+      logger.error('PumpPortal WebSocket 错误:', error)
+      if (this.ws !== ws) return
+      this.ws = null
+      ws.terminate()
+      this.supervisor.markDisconnected(error.message)
+    })
   }
 
   /**
@@ -122,27 +217,100 @@ export class PumpPortalAPI {
       keys: ['all']
     }))
     
-    logger.info('已订阅 PumpPortal 新代币事件和交易事件')
+    // 订阅迁移事件
+    this.ws.send(JSON.stringify({
+      method: 'subscribeMigration'
+    }))
+    
+    // 恢复断线前的代币交易订阅
+    const tokens = this.subscriptions.getKeys()
+    this.sendTradeSubscription('subscribeTokenTrade', tokens)
+    
+    // 恢复断线前的钱包交易订阅
+    const accounts = [...this.accountSubscriptions]
+    this.sendTradeSubscription('subscribeAccountTrade', accounts)
+    
+    logger.info(`已订阅 PumpPortal 新代币事件、交易事件和迁移事件，恢复 ${tokens.length} 个代币交易订阅、${accounts.length} 个钱包交易订阅`)
+  }
+
+  /**
+   * 分批发送代币 / 钱包交易订阅与退订，未连接时跳过（连接建立后统一恢复）
+   */
+  private sendTradeSubscription(
+    method: 'subscribeTokenTrade' | 'unsubscribeTokenTrade' | 'subscribeAccountTrade' | 'unsubscribeAccountTrade',
+    keys: string[]
+  ): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return
+    }
+
+    for (let i = 0; i < keys.length; i += this.subscribeBatchSize) {
+      this.ws.send(JSON.stringify({
+        method,
+        keys: keys.slice(i, i + this.subscribeBatchSize)
+      }))
+    }
+  }
+
+  /**
+   * 处理一帧原始数据（实时连接与回放共用入口）
+   */
+  private processFrame(raw: string, receivedAt: number): void {
+    // 回放时不重复录制
+    if (this.recorder && !this.replaySource) {
+      this.recorder.record(raw, receivedAt)
+    }
+    
+    try {
+      const message = JSON.parse(raw)
+      this.handleMessage(message, receivedAt)
+    } catch (error) {
+      logger.error('解析 PumpPortal 消息失败:', error)
+    }
+  }
+
+  /**
+   * 回放录制文件，帧经过与实时数据相同的处理路径
+   */
+  async replay(path: string, speed: string = '1'): Promise<ReplayStats> {
+    if (this.replaySource) {
+      throw new Error('已有回放任务正在进行')
+    }
+    
+    this.replaySource = new StreamReplaySource(path, parseReplaySpeed(speed))
+    try {
+      return await this.replaySource.replay((raw, receivedAt) => this.processFrame(raw, receivedAt))
+    } finally {
+      this.replaySource = null
+    }
   }
 
   /**
    * 处理 WebSocket 消息
    */
-  private handleMessage(message: any): void {
+  private handleMessage(message: any, receivedAt: number): void {
     try {
-      // 添加INFO级别日志来查看消息格式
-      logger.info('🔍 收到 PumpPortal 消息:', {
+      logger.debug('🔍 收到 PumpPortal 消息:', {
         messageKeys: Object.keys(message || {}),
         rawData: message
       })
       
       // 处理新代币事件
       if (message.mint && message.name && message.symbol) {
-        const tokenInfo = this.transformTokenEvent(message as PumpPortalTokenEvent)
+        const tokenInfo = this.transformTokenEvent(message as PumpPortalTokenEvent, receivedAt)
+        
+        // 创建帧中已包含开发者首笔买入后的储备；按事件时间记录，否则回放中之后的交易都会被当作乱序丢弃
+        const createdAt = this.normalizeTimestamp(message.timestamp, receivedAt)
+        const curve = this.bondingCurves.update(message.mint, this.readCurveReserves(message), new Date(createdAt))
+        if (curve) {
+          tokenInfo.initialLiquidity = curve.realSolReserves
+          tokenInfo.initialMarketCapSol = tokenInfo.initialMarketCapSol ?? curve.marketCapSol
+        }
         this.addNewToken(tokenInfo)
+        this.saveTokenToDatabase(tokenInfo)
         
-        // 自动订阅新代币的交易事件
-        this.subscribeTokenTrades(tokenInfo.address)
+        // 自动订阅新代币的交易事件（达到上限时淘汰不活跃代币）
+        this.subscribeTokenTrades(tokenInfo.address, 'new_launch')
         
         // 通知监听器
         this.tokenListeners.forEach(listener => {
@@ -152,35 +320,39 @@ export class PumpPortalAPI {
             logger.error('代币监听器执行失败:', error)
           }
         })
+        
+        // 开发者首笔买入与创建在同一笔交易中，按普通买入记账（持仓、开发者行为都依赖它）
+        if (Number(message.initialBuy) > 0 && message.solAmount !== undefined) {
+          this.handleTrade({
+            ...message,
+            traderPublicKey: tokenInfo.creatorAddress || message.traderPublicKey,
+            tokenAmount: Number(message.initialBuy),
+            txType: 'buy'
+          }, receivedAt)
+        }
       }
       
       // 判断是否为交易事件（基于实际消息格式）
       if (message.mint && message.solAmount !== undefined && message.tokenAmount !== undefined && message.txType) {
-        // 根据txType判断买卖方向：'buy' 为买入，'sell' 为卖出
-        const isBuy = message.txType === 'buy'
-        
-        const tradeEvent = {
-          ...message,
-          isBuy: isBuy
-        }
-        
-        logger.info('📈 收到交易事件:', {
+        this.handleTrade(message, receivedAt)
+      }
+      
+      // 处理迁移事件
+      if (message.mint && message.txType === 'migrate') {
+        const migrationEvent: PumpPortalMigrationEvent = {
           mint: message.mint,
-          solAmount: message.solAmount,
-          tokenAmount: message.tokenAmount,
-          txType: message.txType,
-          isBuy: isBuy,
-          trader: message.traderPublicKey
-        })
+          signature: message.signature,
+          pool: message.pool || 'unknown',
+          timestamp: message.timestamp || Date.now()
+        }
         
-        this.addTrade(tradeEvent)
+        logger.info(`🎓 代币迁移: ${message.mint} -> ${migrationEvent.pool}`)
         
-        // 通知监听器
-        this.tradeListeners.forEach(listener => {
+        this.migrationListeners.forEach(listener => {
           try {
-            listener(tradeEvent)
+            listener(migrationEvent)
           } catch (error) {
-            logger.error('交易监听器执行失败:', error)
+            logger.error('迁移监听器执行失败:', error)
           }
         })
       }
@@ -190,10 +362,131 @@ export class PumpPortalAPI {
     }
   }
 
+  /**
+   * 处理交易帧：去重、标记乱序、更新联合曲线并通知监听器
+   */
+  private handleTrade(message: any, receivedAt: number): void {
+    // 根据txType判断买卖方向：'buy' 为买入，'sell' 为卖出
+    const isBuy = message.txType === 'buy'
+    const signature = message.signature || this.syntheticSignature(message)
+
+    // 重连或回放时同一笔交易可能重复到达
+    if (this.isDuplicateSignature(signature)) {
+      this.tradeStats.duplicates++
+      logger.debug(`重复交易已忽略: ${signature}`)
+      return
+    }
+
+    const eventTime = this.normalizeTimestamp(message.timestamp, receivedAt)
+    const latest = this.latestEventTimes.get(message.mint) || 0
+    const isLate = eventTime < latest
+    if (isLate) {
+      this.tradeStats.late++
+    } else {
+      this.latestEventTimes.set(message.mint, eventTime)
+    }
+    this.subscriptions.recordActivity(message.mint, receivedAt)
+
+    const tradeEvent: PumpPortalTradeEvent = {
+      ...message,
+      signature,
+      isBuy: isBuy,
+      eventTime,
+      receivedAt,
+      isLate
+    }
+
+    // 迁移后的 AMM 交易不再反映联合曲线储备；乱序到达的旧储备不覆盖当前状态
+    if (!message.pool || message.pool === 'pump') {
+      const curve = this.bondingCurves.update(message.mint, this.readCurveReserves(message), new Date(eventTime))
+      if (curve) {
+        tradeEvent.bondingCurve = curve
+      }
+    }
+
+    logger.debug('📈 收到交易事件:', {
+      mint: message.mint,
+      solAmount: message.solAmount,
+      tokenAmount: message.tokenAmount,
+      txType: message.txType,
+      isBuy: isBuy,
+      trader: message.traderPublicKey
+    })
+
+    this.addTrade(tradeEvent)
+
+    // 通知监听器
+    this.tradeListeners.forEach(listener => {
+      try {
+        listener(tradeEvent)
+      } catch (error) {
+        logger.error('交易监听器执行失败:', error)
+      }
+    })
+  }
+
+  /**
+   * 时间戳统一为毫秒，无效时使用后备值
+   */
+  private normalizeTimestamp(value: unknown, fallback: number): number {
+    if (typeof value !== 'number' || !isFinite(value) || value <= 0) {
+      return fallback
+    }
+    return value < 1e12 ? value * 1000 : value
+  }
+
+  /**
+   * 缺少签名的交易按内容生成确定性签名，保证重复到达时仍能去重
+   */
+  private syntheticSignature(message: any): string {
+    const key = [
+      message.mint,
+      message.traderPublicKey || message.user,
+      message.txType,
+      message.solAmount,
+      message.tokenAmount,
+      message.vSolInBondingCurve,
+      message.vTokensInBondingCurve,
+      message.timestamp
+    ].join('|')
+    return `synthetic_${createHash('sha1').update(key).digest('hex')}`
+  }
+
+  /**
+   * 检查签名是否已处理过：先查最近的签名（含尚未落库的排队交易），再查已持久化的交易表，
+   * 保证回放到已有数据库或长时间断线重连后，派生表不会重复记账
+   */
+  private isDuplicateSignature(signature: string): boolean {
+    if (this.seenSignatures.has(signature)) {
+      return true
+    }
+    
+    this.signatureExistsStmt ??= this.db.getDb().prepare('SELECT 1 FROM trades WHERE transaction_signature = ? LIMIT 1')
+    const persisted = this.signatureExistsStmt.get(signature) !== undefined
+    
+    this.seenSignatures.add(signature)
+    if (this.seenSignatures.size > this.maxSeenSignatures) {
+      const oldest = this.seenSignatures.values().next().value
+      if (oldest) this.seenSignatures.delete(oldest)
+    }
+    return persisted
+  }
+
+  /**
+   * 从 PumpPortal 帧中读取虚拟储备（兼容旧字段名）
+   */
+  private readCurveReserves(message: any): CurveReserves {
+    return {
+      virtualSolReserves: Number(message.vSolInBondingCurve ?? message.virtualSolReserves ?? 0),
+      virtualTokenReserves: Number(message.vTokensInBondingCurve ?? message.virtualTokenReserves ?? 0),
+      marketCapSol: message.marketCapSol !== undefined ? Number(message.marketCapSol) : undefined
+    }
+  }
+
   /**
    * 转换 PumpPortal 事件为 TokenInfo
    */
-  private transformTokenEvent(event: PumpPortalTokenEvent): TokenInfo {
+  private transformTokenEvent(event: PumpPortalTokenEvent, receivedAt: number = Date.now()): TokenInfo {
     // 安全处理时间戳
     let createdAt: Date
     try {
@@ -203,13 +496,14 @@ export class PumpPortalAPI {
         createdAt = new Date(timestamp)
         // 验证日期是否有效
         if (isNaN(createdAt.getTime())) {
-          createdAt = new Date()
+          createdAt = new Date(receivedAt)
         }
       } else {
-        createdAt = new Date()
+        // 创建帧不带时间戳时以接收时间近似链上创建时间
+        createdAt = new Date(receivedAt)
       }
     } catch (error) {
-      createdAt = new Date()
+      createdAt = new Date(receivedAt)
     }
 
     return {
@@ -219,14 +513,19 @@ export class PumpPortalAPI {
       decimals: 6,
       totalSupply: event.totalSupply?.toString() || '1000000000',
       createdAt,
-      creatorAddress: event.creator || '',
+      creatorAddress: event.creator || event.traderPublicKey || '',
       initialLiquidity: event.virtualSolReserves || 0,
       socialLinks: {
         twitter: event.twitter,
         telegram: event.telegram,
         website: event.website
       },
-      isActive: true
+      isActive: true,
+      description: event.description,
+      imageUri: event.image,
+      metadataUri: event.uri,
+      initialMarketCapSol: event.marketCapSol,
+      firstSeenAt: new Date(receivedAt)
     }
   }
 
@@ -242,6 +541,94 @@ export class PumpPortalAPI {
     }
   }
 
+  /**
+   * 写入代币信息，重复的创建事件只补充缺失的元数据，保留首次发现时间
+   */
+  private saveTokenToDatabase(token: TokenInfo): void {
+    try {
+      const db = this.db.getDb()
+      
+      db.prepare(`
+        INSERT INTO tokens (
+          address, name, symbol, decimals, total_supply,
+          created_at, creator_address, initial_liquidity, social_links, is_active,
+          description, image_uri, metadata_uri, initial_market_cap_sol, first_seen_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(address) DO UPDATE SET
+          name = excluded.name,
+          symbol = excluded.symbol,
+          creator_address = CASE WHEN excluded.creator_address != '' THEN excluded.creator_address ELSE tokens.creator_address END,
+          social_links = COALESCE(excluded.social_links, tokens.social_links),
+          description = COALESCE(excluded.description, tokens.description),
+          image_uri = COALESCE(excluded.image_uri, tokens.image_uri),
+          metadata_uri = COALESCE(excluded.metadata_uri, tokens.metadata_uri),
+          initial_market_cap_sol = COALESCE(tokens.initial_market_cap_sol, excluded.initial_market_cap_sol),
+          first_seen_at = COALESCE(tokens.first_seen_at, excluded.first_seen_at),
+          updated_at = CURRENT_TIMESTAMP
+      `).run(
+        token.address,
+        token.name,
+        token.symbol,
+        token.decimals,
+        token.totalSupply,
+        token.createdAt.toISOString(),
+        token.creatorAddress,
+        token.initialLiquidity,
+        this.serializeSocialLinks(token.socialLinks),
+        1,
+        token.description || null,
+        token.imageUri || null,
+        token.metadataUri || null,
+        token.initialMarketCapSol ?? null,
+        (token.firstSeenAt || new Date()).toISOString()
+      )
+    } catch (error) {
+      logger.error(`❌ 保存代币信息失败: ${token.address}`, error)
+    }
+  }
+
+  private serializeSocialLinks(links: TokenInfo['socialLinks']): string | null {
+    if (!links || !Object.values(links).some(Boolean)) return null
+    return JSON.stringify(links)
+  }
+
+  /**
+   * 从数据库加载最近发现的代币到内存缓存
+   */
+  private loadCachedTokens(): void {
+    try {
+      const rows = this.db.getDb().prepare(`
+        SELECT * FROM tokens
+        ORDER BY COALESCE(first_seen_at, created_at) DESC
+        LIMIT ?
+      `).all(this.maxCacheSize) as any[]
+      
+      this.newTokens = rows.map(row => ({
+        address: row.address,
+        name: row.name,
+        symbol: row.symbol,
+        decimals: row.decimals,
+        totalSupply: row.total_supply,
+        createdAt: new Date(row.created_at),
+        creatorAddress: row.creator_address,
+        initialLiquidity: row.initial_liquidity,
+        socialLinks: row.social_links ? JSON.parse(row.social_links) : undefined,
+        isActive: Boolean(row.is_active),
+        description: row.description || undefined,
+        imageUri: row.image_uri || undefined,
+        metadataUri: row.metadata_uri || undefined,
+        initialMarketCapSol: row.initial_market_cap_sol ?? undefined,
+        firstSeenAt: row.first_seen_at ? new Date(row.first_seen_at) : undefined
+      }))
+      
+      if (this.newTokens.length > 0) {
+        logger.info(`📦 从数据库恢复 ${this.newTokens.length} 个代币到缓存`)
+      }
+    } catch (error) {
+      logger.error('从数据库恢复代币缓存失败:', error)
+    }
+  }
+
   /**
    * 添加交易到缓存
    */
@@ -251,8 +638,10 @@ export class PumpPortalAPI {
       this.tokenTrades.set(trade.mint, [])
     }
     
+    // 缓存按事件时间倒序，乱序到达的交易插入到对应位置
     const trades = this.tokenTrades.get(trade.mint)!
-    trades.unshift(trade)
+    const index = trades.findIndex(existing => existing.eventTime <= trade.eventTime)
+    trades.splice(index === -1 ? trades.length : index, 0, trade)
     
     // 限制每个代币的交易记录数量
     if (trades.length > 500) {
@@ -264,116 +653,30 @@ export class PumpPortalAPI {
   }
   
   /**
-   * 保存交易数据到数据库
+   * 将交易加入批量写入队列
    */
   private saveTradeToDatabase(trade: PumpPortalTradeEvent): void {
-    try {
-      const db = this.db.getDb()
-      
-      // 计算每代币价格
-      const pricePerToken = trade.tokenAmount > 0 ? trade.solAmount / trade.tokenAmount : 0
-      
-      // 验证必填字段
-      const tokenAddress = trade.mint
-      const signature = trade.signature || `${trade.mint}_${Date.now()}_${Math.random()}`
-      const traderAddress = trade.user || 'unknown'
-      const isBuy = trade.isBuy ? 1 : 0
-      const solAmount = trade.solAmount || 0
-      const tokenAmount = trade.tokenAmount || 0
-      
-      // 检查必填字段是否为空
-      if (!tokenAddress) {
-        throw new Error('token_address is required but is null/undefined')
-      }
-      if (!signature) {
-        throw new Error('transaction_signature is required but is null/undefined')
-      }
-      if (!traderAddress) {
-        throw new Error('trader_address is required but is null/undefined')
-      }
-      if (solAmount === null || solAmount === undefined) {
-        throw new Error('sol_amount is required but is null/undefined')
-      }
-      if (tokenAmount === null || tokenAmount === undefined) {
-        throw new Error('token_amount is required but is null/undefined')
-      }
-      if (pricePerToken === null || pricePerToken === undefined) {
-        throw new Error('price_per_token is required but is null/undefined')
-      }
-      
-      const stmt = db.prepare(`
-        INSERT OR IGNORE INTO trades (
-          token_address, transaction_signature, trader_address, 
-          is_buy, sol_amount, token_amount, price_per_token, timestamp
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-      `)
-      
-      const result = stmt.run(
-        tokenAddress,
-        signature,
-        traderAddress,
-        isBuy,
-        solAmount,
-        tokenAmount,
-        pricePerToken,
-        new Date().toISOString()
-      )
-      
-      if (result.changes > 0) {
-        logger.info('✅ 交易数据已保存到数据库')
-      }
-    } catch (error: any) {
-      const calculatedPrice = trade.tokenAmount > 0 ? trade.solAmount / trade.tokenAmount : 0
-      
-      // 使用console.log确保错误信息能够输出
-      console.log('❌ 保存交易数据失败 - 详细信息:')
-      console.log('错误代码:', error.code)
-      console.log('错误消息:', error.message)
-      console.log('完整错误对象:', error)
-      console.log('交易数据:', {
-        mint: trade.mint,
-        signature: trade.signature,
-        user: trade.user,
-        solAmount: trade.solAmount,
-        tokenAmount: trade.tokenAmount,
-        isBuy: trade.isBuy,
-        pricePerToken: calculatedPrice
-      })
-      console.log('SQL参数值:', {
-        token_address: trade.mint,
-        transaction_signature: trade.signature || `${trade.mint}_${Date.now()}_${Math.random()}`,
-        trader_address: trade.user || 'unknown',
-        is_buy: trade.isBuy ? 1 : 0,
-        sol_amount: trade.solAmount,
-        token_amount: trade.tokenAmount,
-        price_per_token: calculatedPrice,
-        timestamp: new Date().toISOString()
-      })
-      
-      // 同时使用logger
-      logger.error('❌ 保存交易数据失败:', {
-        code: error.code
-      })
-    }
-  }
-
-  /**
-   * 计划重连
-   */
-  private scheduleReconnect(): void {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      logger.error('PumpPortal WebSocket 重连次数已达上限，停止重连')
+    const tokenAddress = trade.mint
+    const traderAddress = trade.traderPublicKey || trade.user || 'unknown'
+    const solAmount = trade.solAmount || 0
+    const tokenAmount = trade.tokenAmount || 0
+    
+    if (!tokenAddress) {
+      logger.warn('交易缺少代币地址，已忽略')
       return
     }
     
-    this.reconnectAttempts++
-    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1)
-    
-    logger.info(`${delay}ms 后尝试重连 PumpPortal WebSocket (第 ${this.reconnectAttempts} 次)`)
-    
-    setTimeout(() => {
-      this.connect()
-    }, delay)
+    this.tradeQueue.enqueue({
+      tokenAddress,
+      signature: trade.signature,
+      traderAddress,
+      isBuy: trade.isBuy,
+      solAmount,
+      tokenAmount,
+      pricePerToken: tokenAmount > 0 ? solAmount / tokenAmount : 0,
+      timestamp: new Date(trade.eventTime).toISOString(),
+      receivedAt: new Date(trade.receivedAt).toISOString()
+    })
   }
 
   /**
@@ -412,7 +715,7 @@ export class PumpPortalAPI {
       const oneDayAgo = now - 24 * 60 * 60 * 1000
       
       // 过滤24小时内的交易
-      const trades24h = trades.filter(trade => trade.timestamp * 1000 > oneDayAgo)
+      const trades24h = trades.filter(trade => trade.eventTime > oneDayAgo)
       
       // 计算24小时交易量
       const volume24h = trades24h.reduce((sum, trade) => {
@@ -420,11 +723,12 @@ export class PumpPortalAPI {
       }, 0)
       
       // 计算活跃交易者
-      const uniqueTraders = new Set(trades24h.map(trade => trade.user)).size
+      const uniqueTraders = new Set(trades24h.map(trade => trade.traderPublicKey || trade.user)).size
       
-      // 获取代币信息以计算流动性
+      // 流动性取联合曲线中的真实 SOL 储备，没有曲线数据时退回初始流动性
+      const curve = this.bondingCurves.getState(address)
       const tokenInfo = await this.getTokenInfo(address)
-      const liquidity = tokenInfo?.initialLiquidity || 0
+      const liquidity = curve ? curve.realSolReserves : (tokenInfo?.initialLiquidity || 0)
       
       return {
         tokenAddress: address,
@@ -443,20 +747,76 @@ export class PumpPortalAPI {
   }
 
   /**
-   * 订阅特定代币的交易事件
+   * 获取代币联合曲线状态
    */
-  subscribeTokenTrades(tokenAddress: string): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      logger.warn('WebSocket 未连接，无法订阅代币交易')
-      return
+  getBondingCurveState(address: string): BondingCurveState | null {
+    return this.bondingCurves.getState(address)
+  }
+
+  /**
+   * 订阅特定代币的交易事件，force 为 true 时不受上限限制且不会被淘汰
+   */
+  subscribeTokenTrades(tokenAddress: string, reason: SubscriptionReason = 'manual', force: boolean = false): boolean {
+    const subscribed = this.subscriptions.subscribe(tokenAddress, reason, force)
+    if (subscribed) {
+      logger.debug(`已订阅代币 ${tokenAddress} 的交易事件 (${reason})`)
     }
+    return subscribed
+  }
 
-    this.ws.send(JSON.stringify({
-      method: 'subscribeTokenTrade',
-      keys: [tokenAddress]
-    }))
+  /**
+   * 释放代币的某个订阅原因，没有剩余原因时退订
+   */
+  releaseTokenTrades(tokenAddress: string, reason: SubscriptionReason): void {
+    this.subscriptions.release(tokenAddress, reason)
+  }
+
+  /**
+   * 直接退订代币交易
+   */
+  unsubscribeTokenTrades(tokenAddress: string): boolean {
+    return this.subscriptions.unsubscribe(tokenAddress)
+  }
+
+  /**
+   * 获取代币交易订阅列表
+   */
+  getSubscriptions(reason?: SubscriptionReason): TokenSubscription[] {
+    return this.subscriptions.getSubscriptions(reason)
+  }
+
+  /**
+   * 订阅指定钱包的交易事件（不受代币订阅上限限制）
+   */
+  subscribeAccountTrades(accounts: string[]): void {
+    const added = accounts.filter(account => account && !this.accountSubscriptions.has(account))
+    if (added.length === 0) return
     
-    logger.info(`已订阅代币 ${tokenAddress} 的交易事件`)
+    added.forEach(account => this.accountSubscriptions.add(account))
+    this.sendTradeSubscription('subscribeAccountTrade', added)
+    logger.debug(`已订阅 ${added.length} 个钱包的交易事件`)
+  }
+
+  /**
+   * 退订指定钱包的交易事件
+   */
+  unsubscribeAccountTrades(accounts: string[]): void {
+    const removed = accounts.filter(account => this.accountSubscriptions.delete(account))
+    this.sendTradeSubscription('unsubscribeAccountTrade', removed)
+  }
+
+  /**
+   * 获取已订阅交易事件的钱包
+   */
+  getAccountSubscriptions(): string[] {
+    return [...this.accountSubscriptions]
+  }
+
+  /**
+   * 获取订阅统计
+   */
+  getSubscriptionStats(): SubscriptionStats {
+    return this.subscriptions.getStats()
   }
 
   /**
@@ -473,6 +833,34 @@ export class PumpPortalAPI {
     this.tradeListeners.push(listener)
   }
 
+  /**
+   * 添加迁移监听器
+   */
+  onMigration(listener: (event: PumpPortalMigrationEvent) => void): void {
+    this.migrationListeners.push(listener)
+  }
+
+  /**
+   * 获取连接状态
+   */
+  getConnectionStatus(): ConnectionStatus {
+    return this.supervisor.getStatus()
+  }
+
+  /**
+   * 获取交易去重与乱序统计
+   */
+  getTradeStats(): { duplicates: number, late: number } {
+    return { ...this.tradeStats }
+  }
+
+  /**
+   * 获取交易写入队列指标
+   */
+  getIngestionMetrics(): TradeIngestionMetrics {
+    return this.tradeQueue.getMetrics()
+  }
+
   /**
    * 检查连接状态
    */
@@ -483,11 +871,28 @@ export class PumpPortalAPI {
   /**
    * 关闭连接
    */
-  disconnect(): void {
+  async disconnect(): Promise<void> {
+    // 先停止监督，主动关闭不触发重连
+    this.supervisor.stop()
+    this.subscriptions.stop()
     if (this.ws) {
       this.ws.close()
       this.ws = null
     }
+    
+    this.replaySource?.stop()
+    
+    // 写入队列中剩余的交易与联合曲线状态
+    await this.tradeQueue.stop()
+    this.bondingCurves.stop()
+    
+    if (this.recorder) {
+      try {
+        await this.recorder.close()
+      } catch (error) {
+        logger.error('关闭 PumpPortal 录制文件失败:', error)
+      }
+    }
   }
 
   /**
@@ -509,6 +914,13 @@ export class PumpPortalAPI {
       const reasons: string[] = []
       let score = 0
       
+      // 剔除对倒成交后的交易者、交易量与交易次数
+      const washStats = queryWashTradeStats(this.db, address)
+      const authenticity = washStats?.authenticity ?? 1
+      const activeTraders = Math.max(0, tradingData.activeTraders - (washStats?.washWalletCount ?? 0))
+      const volume24h = tradingData.volume24h * authenticity
+      const txCount24h = Math.max(0, tradingData.txCount24h - (washStats?.washTxCount ?? 0))
+      
       // 检查流动性（> 10 SOL）
       if (tradingData.liquidity > 10) {
         score += 20
@@ -516,21 +928,32 @@ export class PumpPortalAPI {
       }
       
       // 检查活跃交易者数量（> 50）
-      if (tradingData.activeTraders > 50) {
+      if (activeTraders > 50) {
         score += 25
-        reasons.push(`活跃交易者众多: ${tradingData.activeTraders}人`)
+        reasons.push(`活跃交易者众多: ${activeTraders}人`)
       }
       
       // 检查24小时交易量（> 100 SOL）
-      if (tradingData.volume24h > 100) {
+      if (volume24h > 100) {
         score += 25
-        reasons.push(`24h交易量: ${tradingData.volume24h.toFixed(2)} SOL`)
+        reasons.push(`24h交易量: ${volume24h.toFixed(2)} SOL`)
       }
       
       // 检查交易次数（> 100）
-      if (tradingData.txCount24h > 100) {
+      if (txCount24h > 100) {
         score += 30
-        reasons.push(`24h交易次数: ${tradingData.txCount24h}次`)
+        reasons.push(`24h交易次数: ${txCount24h}次`)
+      }
+      
+      if (authenticity < 0.9) {
+        reasons.push(`真实成交占比: ${(authenticity * 100).toFixed(0)}%`)
+      }
+      
+      // 创建者信誉修正 (-20~+20分)
+      const creatorReputation = queryCreatorReputation(this.db, address)
+      if (creatorReputation !== NEUTRAL_REPUTATION) {
+        score = Math.round(Math.min(100, Math.max(0, score + (creatorReputation - NEUTRAL_REPUTATION) * 0.4)))
+        reasons.push(`创建者信誉: ${creatorReputation}`)
       }
       
       const isGoldenDog = score >= 70
@@ -564,7 +987,9 @@ export const getPumpPortalAPI = (): PumpPortalAPI => {
 // 导出初始化函数
 export const initializePumpPortalAPI = (db: DatabaseManager): PumpPortalAPI => {
   if (!pumpPortalAPIInstance) {
-    pumpPortalAPIInstance = new PumpPortalAPI(db)
+    // 配置了回放文件时不连接实时数据流，由调用方在监听器注册完成后启动回放
+    const live = !getConfig().pumpportal.replay.file
+    pumpPortalAPIInstance = new PumpPortalAPI(db, { live })
   }
   return pumpPortalAPIInstance
 }
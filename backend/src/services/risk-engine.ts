@@ -0,0 +1,422 @@
+import { DatabaseManager } from '../database/schema.js'
+import { logger } from '../utils/logger.js'
+import { enhancedErrorHandler } from '../utils/enhanced-error-handler.js'
+import { environment } from '../config/environment.js'
+import { queryHolderAnalysis } from './holder-ledger.js'
+import { querySniperStats } from './sniper-detector.js'
+import { queryBundleStats } from './bundle-detector.js'
+import { queryDevHolding } from './dev-tracker.js'
+import { NEUTRAL_REPUTATION, queryCreatorReputation } from './creator-reputation.js'
+import { realSolReservesAtMarketCap } from './bonding-curve.js'
+import type { RiskAssessment } from '../../../shared/types/index.ts'
+import type { Statement } from 'better-sqlite3'
+
+export type RiskLevel = 'high' | 'medium' | null
+
+// 代币的市场状态（曲线储备、最近价格变化、卖压），用于流动性与波动风险
+interface MarketState {
+  bonding: boolean
+  liquidity: number | null // 曲线上的真实 SOL 储备，迁移后未知
+  peakLiquidity: number | null // 峰值市值时的真实 SOL 储备
+  marketCapSol: number | null
+  peakMarketCapSol: number | null
+  priceChange5m: number | null
+  volumeChange: number | null
+  sellVolume5m: number
+  buyVolume5m: number
+  sellRatioBaseline: number | null // 之前 30 分钟的卖出占比
+}
+
+// 每轮最多评估的代币数，其余有新成交的代币留到下一轮
+const MAX_TOKENS_PER_RUN = 100
+// 最近该时长内有成交的代币视为活跃
+const ACTIVE_WINDOW = 60 * 60 * 1000
+// 评估结果变化不大时，至少间隔该时长才写入一行
+const PERSIST_INTERVAL = 5 * 60 * 1000
+
+/**
+ * 跑路风险评估 - 综合持仓集中度、开发者/狙击/捆绑持仓、卖压、流动性回撤与创建者历史，
+ * 为活跃代币生成 RiskAssessment 并落库
+ */
+export class RiskEngine {
+  private db: DatabaseManager
+  private isRunning: boolean = false
+  private pruneTimer?: NodeJS.Timeout
+  private lastPersisted: Map<string, { overallRisk: number, factors: string, at: number }> = new Map()
+  private assessedUntil: string | null = null // 已评估到的 last_trade_at
+  private insertStmt: Statement | null = null
+
+  constructor(db: DatabaseManager) {
+    this.db = db
+    logger.info('🛡️ 风险评估引擎已初始化')
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return
+    this.isRunning = true
+
+    logger.info('🛡️ 风险评估引擎启动')
+
+    this.pruneTimer = setInterval(() => this.prune(), 60 * 60 * 1000) // 每小时清理一次
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer)
+    }
+    this.lastPersisted.clear()
+    logger.info('🛡️ 风险评估引擎停止')
+  }
+
+  /**
+   * 评估上一轮以来有新成交的活跃代币（未死亡），按最后交易时间从早到晚分批推进，
+   * 没有新成交的代币沿用上次的评估
+   */
+  assessActiveTokens(): RiskAssessment[] {
+    try {
+      // 活跃窗口与各时间窗口以最新成交的事件时间为准，回放历史数据时同样适用
+      const latest = this.db.getDb().prepare('SELECT MAX(last_trade_at) AS latest FROM tokens')
+        .get() as { latest: string | null }
+      const now = latest.latest ? new Date(latest.latest).getTime() : Date.now()
+      const activeSince = new Date(now - ACTIVE_WINDOW).toISOString()
+      const since = this.assessedUntil && this.assessedUntil > activeSince ? this.assessedUntil : activeSince
+      const tokens = this.db.getDb().prepare(`
+        SELECT address, last_trade_at FROM tokens
+        WHERE is_active = 1 AND lifecycle_state != 'dead' AND last_trade_at > ?
+        ORDER BY last_trade_at ASC
+        LIMIT ?
+      `).all(since, MAX_TOKENS_PER_RUN) as { address: string, last_trade_at: string }[]
+      if (tokens.length > 0) {
+        this.assessedUntil = tokens[tokens.length - 1].last_trade_at
+      }
+
+      const assessments: RiskAssessment[] = []
+      for (const token of tokens) {
+        const assessment = this.assess(token.address, now)
+        if (assessment) assessments.push(assessment)
+      }
+      return assessments
+    } catch (error) {
+      enhancedErrorHandler.handleError(error as Error, 'RiskEngine.assessActiveTokens')
+      return []
+    }
+  }
+
+  /**
+   * 评估单个代币并写入历史，now 为计算价格与卖压窗口的事件时间
+   */
+  assess(tokenAddress: string, now: number = Date.now()): RiskAssessment | null {
+    try {
+      const market = this.queryMarketState(tokenAddress, now)
+      if (!market) return null
+
+      const riskFactors: string[] = []
+      // contractSecurity 字段承载发行方风险（开发者与创建者），见 RiskAssessment 的说明
+      const contractSecurity = this.scoreIssuerRisk(tokenAddress, riskFactors)
+      const whaleRisk = this.scoreWhaleRisk(tokenAddress, now, riskFactors)
+      const liquidityRisk = scoreLiquidityRisk(market, riskFactors)
+      const volatilityRisk = scoreVolatilityRisk(market, riskFactors)
+
+      const assessment: RiskAssessment = {
+        tokenAddress,
+        contractSecurity,
+        liquidityRisk,
+        whaleRisk,
+        volatilityRisk,
+        overallRisk: calculateOverallRisk({ contractSecurity, liquidityRisk, whaleRisk, volatilityRisk }),
+        riskFactors,
+        timestamp: new Date()
+      }
+
+      this.persist(assessment)
+      return assessment
+    } catch (error) {
+      enhancedErrorHandler.handleError(error as Error, 'RiskEngine.assess', { tokenAddress })
+      return null
+    }
+  }
+
+  /**
+   * 发行方风险：pump.fun 合约固定供应、没有增发与冻结权限，风险主要来自创建者信誉与开发者持仓、出货
+   */
+  private scoreIssuerRisk(tokenAddress: string, riskFactors: string[]): number {
+    let risk = 0
+
+    const dev = queryDevHolding(this.db, tokenAddress)
+    if (dev) {
+      risk += Math.min(40, dev.holdingPercentage * 2)
+      if (dev.holdingPercentage >= 10) {
+        riskFactors.push(`开发者持有 ${dev.holdingPercentage.toFixed(1)}% 供应量`)
+      }
+      if (dev.status === 'sold_out') {
+        risk += 30
+        riskFactors.push('开发者已清仓')
+      } else if (dev.status === 'partial') {
+        risk += 15
+        riskFactors.push(`开发者已卖出 ${dev.soldPercentage.toFixed(0)}% 持仓`)
+      }
+    }
+
+    const reputation = queryCreatorReputation(this.db, tokenAddress)
+    risk += reputation < NEUTRAL_REPUTATION
+      ? (NEUTRAL_REPUTATION - reputation) * 0.6
+      : -(reputation - NEUTRAL_REPUTATION) * 0.2
+    if (reputation < 30) {
+      riskFactors.push(`创建者信誉较差 (${reputation})`)
+    }
+
+    return clampScore(risk)
+  }
+
+  /**
+   * 持仓集中风险：前10持有人（不含联合曲线账户）、狙击钱包与捆绑钱包仍持有的比例
+   */
+  private scoreWhaleRisk(tokenAddress: string, now: number, riskFactors: string[]): number {
+    const holders = queryHolderAnalysis(this.db, tokenAddress, now)
+    const snipers = querySniperStats(this.db, tokenAddress)
+    const bundle = queryBundleStats(this.db, tokenAddress)
+
+    if (holders.top10HoldingPercentage >= 30) {
+      riskFactors.push(`前10持有人占 ${holders.top10HoldingPercentage.toFixed(1)}% 供应量`)
+    }
+    if (snipers.holdingPercentage >= 10) {
+      riskFactors.push(`狙击钱包仍持有 ${snipers.holdingPercentage.toFixed(1)}% 供应量`)
+    }
+    if (bundle.holdingPercentage >= 10) {
+      riskFactors.push(`捆绑钱包仍持有 ${bundle.holdingPercentage.toFixed(1)}% 供应量`)
+    }
+
+    return clampScore(holders.top10HoldingPercentage * 1.2 + snipers.holdingPercentage + bundle.holdingPercentage)
+  }
+
+  private queryMarketState(tokenAddress: string, now: number): MarketState | null {
+    const db = this.db.getDb()
+    const token = db.prepare(`
+      SELECT t.graduation_status, b.real_sol_reserves, b.market_cap_sol, b.peak_market_cap_sol
+      FROM tokens t
+      LEFT JOIN bonding_curve_state b ON b.token_address = t.address
+      WHERE t.address = ?
+    `).get(tokenAddress) as {
+      graduation_status: string | null
+      real_sol_reserves: number | null
+      market_cap_sol: number | null
+      peak_market_cap_sol: number | null
+    } | undefined
+    if (!token) return null
+
+    // 只使用最近一次检查点，过旧的价格变化不代表当前状态
+    const recent = new Date(now - 10 * 60 * 1000).toISOString()
+    const price = db.prepare(`
+      SELECT price_change_5m FROM price_data
+      WHERE token_address = ? AND timestamp > ?
+      ORDER BY timestamp DESC LIMIT 1
+    `).get(tokenAddress, recent) as { price_change_5m: number | null } | undefined
+    const trading = db.prepare(`
+      SELECT volume_change FROM trading_data
+      WHERE token_address = ? AND timestamp > ?
+      ORDER BY timestamp DESC LIMIT 1
+    `).get(tokenAddress, recent) as { volume_change: number | null } | undefined
+
+    const since5m = new Date(now - 5 * 60 * 1000).toISOString()
+    const flow = db.prepare(`
+      SELECT
+        SUM(CASE WHEN timestamp > ? AND is_buy = 0 THEN sol_amount ELSE 0 END) AS sell_5m,
+        SUM(CASE WHEN timestamp > ? AND is_buy = 1 THEN sol_amount ELSE 0 END) AS buy_5m,
+        SUM(CASE WHEN timestamp <= ? AND is_buy = 0 THEN sol_amount ELSE 0 END) AS sell_before,
+        SUM(CASE WHEN timestamp <= ? THEN sol_amount ELSE 0 END) AS total_before
+      FROM trades
+      WHERE token_address = ? AND timestamp > ?
+    `).get(
+      since5m, since5m, since5m, since5m,
+      tokenAddress,
+      new Date(now - 35 * 60 * 1000).toISOString()
+    ) as { sell_5m: number | null, buy_5m: number | null, sell_before: number | null, total_before: number | null }
+
+    const bonding = !token.graduation_status || token.graduation_status === 'bonding' || token.graduation_status === 'near_graduation'
+
+    return {
+      bonding,
+      liquidity: bonding ? token.real_sol_reserves : null,
+      peakLiquidity: bonding && token.peak_market_cap_sol
+        ? Math.max(realSolReservesAtMarketCap(token.peak_market_cap_sol), token.real_sol_reserves ?? 0)
+        : null,
+      marketCapSol: token.market_cap_sol,
+      peakMarketCapSol: token.peak_market_cap_sol,
+      priceChange5m: price?.price_change_5m ?? null,
+      volumeChange: trading?.volume_change ?? null,
+      sellVolume5m: flow.sell_5m ?? 0,
+      buyVolume5m: flow.buy_5m ?? 0,
+      sellRatioBaseline: flow.total_before ? (flow.sell_before ?? 0) / flow.total_before : null
+    }
+  }
+
+  /**
+   * 评估结果有明显变化或距上次写入已久时才落库，避免每轮都写入全部代币
+   */
+  private persist(assessment: RiskAssessment): void {
+    const factors = JSON.stringify(assessment.riskFactors)
+    const previous = this.lastPersisted.get(assessment.tokenAddress)
+    const now = assessment.timestamp.getTime()
+    if (
+      previous &&
+      previous.factors === factors &&
+      Math.abs(previous.overallRisk - assessment.overallRisk) < 5 &&
+      now - previous.at < PERSIST_INTERVAL
+    ) {
+      return
+    }
+
+    this.insertStmt ??= this.db.getDb().prepare(`
+      INSERT INTO risk_assessments (
+        token_address, contract_security, liquidity_risk, whale_risk, volatility_risk,
+        overall_risk, risk_factors, timestamp
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    this.insertStmt.run(
+      assessment.tokenAddress,
+      assessment.contractSecurity,
+      assessment.liquidityRisk,
+      assessment.whaleRisk,
+      assessment.volatilityRisk,
+      assessment.overallRisk,
+      factors,
+      assessment.timestamp.toISOString()
+    )
+    this.lastPersisted.set(assessment.tokenAddress, { overallRisk: assessment.overallRisk, factors, at: now })
+  }
+
+  private prune(): void {
+    try {
+      const cutoff = Date.now() - environment.monitoring.riskAssessmentRetention
+      const result = this.db.getDb().prepare('DELETE FROM risk_assessments WHERE timestamp < ?')
+        .run(new Date(cutoff).toISOString())
+      if (result.changes > 0) {
+        logger.debug(`🧹 清理 ${result.changes} 条过期风险评估`)
+      }
+
+      for (const [tokenAddress, persisted] of this.lastPersisted) {
+        if (persisted.at < cutoff) this.lastPersisted.delete(tokenAddress)
+      }
+    } catch (error) {
+      logger.error('❌ 清理风险评估失败:', error)
+    }
+  }
+}
+
+/**
+ * 流动性风险：曲线储备较峰值减少超过 alerts.risk.liquidityDrop，以及市值较峰值的回撤。
+ * 曲线从 0 储备起步，多数代币的储备始终很低，因此只看从峰值流失的数量而不设储备下限
+ */
+function scoreLiquidityRisk(market: MarketState, riskFactors: string[]): number {
+  let risk = 0
+
+  if (market.liquidity !== null && market.peakLiquidity !== null) {
+    const drop = market.peakLiquidity - market.liquidity
+    if (drop >= environment.alerts.risk.liquidityDrop) {
+      risk += 50
+      riskFactors.push(`流动性较峰值减少 ${drop.toFixed(2)} SOL (剩余 ${market.liquidity.toFixed(2)} SOL)`)
+    }
+  }
+
+  if (market.bonding && market.marketCapSol && market.peakMarketCapSol && market.peakMarketCapSol > market.marketCapSol) {
+    const drawdown = ((market.peakMarketCapSol - market.marketCapSol) / market.peakMarketCapSol) * 100
+    risk += drawdown * 0.6
+    if (drawdown >= 50) {
+      riskFactors.push(`市值较峰值回撤 ${drawdown.toFixed(0)}%`)
+    }
+  }
+
+  return clampScore(risk)
+}
+
+/**
+ * 波动风险：5分钟跌幅与交易量下降（alerts.risk 阈值），以及相对之前 30 分钟突然放大的卖压
+ */
+function scoreVolatilityRisk(market: MarketState, riskFactors: string[]): number {
+  let risk = 0
+
+  if (market.priceChange5m !== null) {
+    risk += Math.min(30, Math.abs(market.priceChange5m) / 2)
+    if (market.priceChange5m <= environment.alerts.risk.priceDrop5m) {
+      risk += 40
+      riskFactors.push(`5分钟下跌 ${market.priceChange5m.toFixed(1)}%`)
+    }
+  }
+
+  if (market.volumeChange !== null && market.volumeChange <= environment.alerts.risk.volumeDrop) {
+    risk += 15
+    riskFactors.push(`交易量下降 ${market.volumeChange.toFixed(0)}%`)
+  }
+
+  const volume5m = market.sellVolume5m + market.buyVolume5m
+  if (volume5m >= 1) {
+    const sellRatio = market.sellVolume5m / volume5m
+    const spike = market.sellRatioBaseline === null || sellRatio - market.sellRatioBaseline >= 0.2
+    if (sellRatio >= 0.7 && spike) {
+      risk += 35
+      riskFactors.push(`卖压激增: 5分钟卖出占比 ${(sellRatio * 100).toFixed(0)}%`)
+    }
+  }
+
+  return clampScore(risk)
+}
+
+/**
+ * 综合风险：加权平均，单项极高时不被其他低分项稀释
+ */
+export function calculateOverallRisk(scores: Pick<RiskAssessment, 'contractSecurity' | 'liquidityRisk' | 'whaleRisk' | 'volatilityRisk'>): number {
+  const weighted =
+    scores.whaleRisk * 0.3 +
+    scores.contractSecurity * 0.25 +
+    scores.liquidityRisk * 0.25 +
+    scores.volatilityRisk * 0.2
+  const highest = Math.max(scores.whaleRisk, scores.contractSecurity, scores.liquidityRisk, scores.volatilityRisk)
+  return clampScore(Math.max(weighted, highest * 0.75))
+}
+
+/**
+ * 按 alerts.risk 的评分阈值划分预警等级
+ */
+export function riskLevel(overallRisk: number): RiskLevel {
+  if (overallRisk >= environment.alerts.risk.highRiskScore) return 'high'
+  if (overallRisk >= environment.alerts.risk.mediumRiskScore) return 'medium'
+  return null
+}
+
+export function queryLatestRiskAssessment(db: DatabaseManager, tokenAddress: string): RiskAssessment | null {
+  const row = db.getDb().prepare(`
+    SELECT * FROM risk_assessments
+    WHERE token_address = ?
+    ORDER BY timestamp DESC
+    LIMIT 1
+  `).get(tokenAddress) as any
+  return row ? rowToRiskAssessment(row) : null
+}
+
+export function queryRiskAssessments(db: DatabaseManager, tokenAddress: string, limit: number = 100): RiskAssessment[] {
+  const rows = db.getDb().prepare(`
+    SELECT * FROM risk_assessments
+    WHERE token_address = ?
+    ORDER BY timestamp DESC
+    LIMIT ?
+  `).all(tokenAddress, limit) as any[]
+  return rows.map(rowToRiskAssessment)
+}
+
+export function rowToRiskAssessment(row: any): RiskAssessment {
+  return {
+    tokenAddress: row.token_address,
+    contractSecurity: row.contract_security,
+    liquidityRisk: row.liquidity_risk,
+    whaleRisk: row.whale_risk,
+    volatilityRisk: row.volatility_risk,
+    overallRisk: row.overall_risk,
+    riskFactors: row.risk_factors ? JSON.parse(row.risk_factors) : [],
+    timestamp: new Date(row.timestamp)
+  }
+}
+
+function clampScore(score: number): number {
+  return Math.round(Math.min(100, Math.max(0, score)))
+}
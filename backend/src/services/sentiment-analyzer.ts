@@ -541,8 +541,9 @@ export class SentimentAnalyzer {
         SELECT DISTINCT t.address, t.symbol
         FROM tokens t
         LEFT JOIN trading_data td ON t.address = td.token_address
-        WHERE td.timestamp > datetime('now', '-24 hours')
-        ORDER BY td.volume DESC
+        WHERE t.is_active = 1
+          AND td.timestamp > datetime('now', '-24 hours')
+        ORDER BY td.volume_24h DESC
         LIMIT ?
       `)
       
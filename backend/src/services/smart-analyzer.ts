@@ -1,9 +1,15 @@
 import { DatabaseManager } from '../database/schema.js'
 import { logger } from '../utils/logger.js'
 import { enhancedErrorHandler, ErrorType, ErrorSeverity } from '../utils/enhanced-error-handler.js'
+import { environment } from '../config/environment.js'
 import type { Server } from 'socket.io'
 import type { KOLTracker, KOLTransaction } from './kol-tracker.js'
 import type { SentimentAnalyzer, SentimentAnalysis } from './sentiment-analyzer.js'
+import { queryLatestIndicatorSnapshots, toTechnicalIndicators } from './technical-indicators.js'
+import { querySniperStats } from './sniper-detector.js'
+import { queryBundleStats } from './bundle-detector.js'
+import { NEUTRAL_REPUTATION, queryCreatorReputation } from './creator-reputation.js'
+import { queryVolumeAuthenticity } from './wash-trade-detector.js'
 
 // 技术指标接口
 export interface TechnicalIndicator {
@@ -64,6 +70,16 @@ export interface SmartAnalysis {
     volatility: number
   }
   
+  // 发射阶段风险
+  launchAnalysis: {
+    sniperRisk: number // 0-100
+    sniperCount: number
+    sniperHoldingPercentage: number
+    bundledPercentage: number
+    creatorReputation: number // 0-100，50 为中性
+    riskFactors: string[]
+  }
+  
   // 投资建议
   recommendation: {
     action: 'strong_buy' | 'buy' | 'hold' | 'sell' | 'strong_sell'
@@ -200,6 +216,7 @@ export class SmartAnalyzer {
       const sentimentAnalysis = await this.getSentimentAnalysis(tokenAddress)
       const kolAnalysis = await this.performKOLAnalysis(tokenAddress)
       const marketAnalysis = await this.performMarketAnalysis(tokenAddress)
+      const launchAnalysis = this.performLaunchAnalysis(tokenAddress)
       
       // 计算综合评分
       const overallScore = this.calculateOverallScore(
@@ -213,7 +230,8 @@ export class SmartAnalyzer {
       const riskScore = this.calculateRiskScore(
         technicalAnalysis,
         sentimentAnalysis,
-        marketAnalysis
+        marketAnalysis,
+        launchAnalysis
       )
       
       // 计算潜力评分
@@ -231,7 +249,8 @@ export class SmartAnalyzer {
         potentialScore,
         technicalAnalysis,
         sentimentAnalysis,
-        marketAnalysis
+        marketAnalysis,
+        launchAnalysis
       )
       
       // 生成价格预测
@@ -253,6 +272,7 @@ export class SmartAnalyzer {
         sentimentAnalysis,
         kolAnalysis,
         marketAnalysis,
+        launchAnalysis,
         recommendation,
         prediction,
         timestamp: new Date(),
@@ -278,7 +298,7 @@ export class SmartAnalyzer {
       const priceData = await this.getPriceData(tokenAddress, 100)
       
       // 计算技术指标
-      const indicators = await this.calculateTechnicalIndicators(tokenAddress, priceData)
+      const indicators = await this.calculateTechnicalIndicators(tokenAddress)
       
       // 分析趋势
       const trend = this.analyzeTrend(priceData)
@@ -446,13 +466,16 @@ export class SmartAnalyzer {
         ? ((tradingData.maxPrice - tradingData.minPrice) / tradingData.avgPrice) * 100 
         : 0
       
+      // 剔除对倒成交后的交易量
+      const volume24h = (tradingData?.volume24h || 0) * queryVolumeAuthenticity(this.db, tokenAddress)
+      
       // 估算市值和流动性（简化计算）
       const marketCap = currentPrice * 1000000 // 假设供应量
-      const liquidity = tradingData?.volume24h || 0
+      const liquidity = volume24h
       
       // 计算市场分析评分
       const score = this.calculateMarketScore(
-        tradingData?.volume24h || 0,
+        volume24h,
         priceChange24h,
         volatility,
         liquidity
@@ -460,7 +483,7 @@ export class SmartAnalyzer {
       
       return {
         score,
-        volume24h: tradingData?.volume24h || 0,
+        volume24h,
         priceChange24h,
         marketCap,
         liquidity,
@@ -479,6 +502,45 @@ export class SmartAnalyzer {
     }
   }
 
+  // 发射阶段分析（狙击钱包与捆绑钱包持仓、创建者信誉）
+  private performLaunchAnalysis(tokenAddress: string): SmartAnalysis['launchAnalysis'] {
+    try {
+      const snipers = querySniperStats(this.db, tokenAddress)
+      const bundle = queryBundleStats(this.db, tokenAddress)
+      const creatorReputation = queryCreatorReputation(this.db, tokenAddress)
+      const riskFactors: string[] = []
+      
+      if (snipers.sniperRisk >= 50) {
+        riskFactors.push(`狙击钱包仍持有 ${snipers.holdingPercentage.toFixed(1)}% 供应量`)
+      }
+      if (bundle.bundledPercentage >= environment.alerts.bundle.supplyPercent) {
+        riskFactors.push(`捆绑发射买入 ${bundle.bundledPercentage.toFixed(1)}% 供应量`)
+      }
+      if (creatorReputation < 30) {
+        riskFactors.push(`创建者信誉较差 (${creatorReputation})`)
+      }
+      
+      return {
+        sniperRisk: snipers.sniperRisk,
+        sniperCount: snipers.sniperCount,
+        sniperHoldingPercentage: snipers.holdingPercentage,
+        bundledPercentage: bundle.bundledPercentage,
+        creatorReputation,
+        riskFactors
+      }
+    } catch (error) {
+      logger.error('发射阶段分析失败:', error)
+      return {
+        sniperRisk: 0,
+        sniperCount: 0,
+        sniperHoldingPercentage: 0,
+        bundledPercentage: 0,
+        creatorReputation: NEUTRAL_REPUTATION,
+        riskFactors: []
+      }
+    }
+  }
+
   // 计算综合评分
   private calculateOverallScore(
     technical: SmartAnalysis['technicalAnalysis'],
@@ -507,7 +569,8 @@ export class SmartAnalyzer {
   private calculateRiskScore(
     technical: SmartAnalysis['technicalAnalysis'],
     sentiment: SmartAnalysis['sentimentAnalysis'],
-    market: SmartAnalysis['marketAnalysis']
+    market: SmartAnalysis['marketAnalysis'],
+    launch: SmartAnalysis['launchAnalysis']
   ): number {
     let riskScore = 50 // 基础风险
     
@@ -524,7 +587,14 @@ export class SmartAnalyzer {
     if (market.volume24h < 1000) riskScore += 15
     if (market.priceChange24h < -20) riskScore += 25
     
-    return Math.min(100, Math.max(0, riskScore))
+    // 发射风险：狙击钱包与捆绑钱包随时可能出货
+    riskScore += launch.sniperRisk * 0.3
+    riskScore += Math.min(20, launch.bundledPercentage)
+    
+    // 创建者信誉：历史上频繁清仓、放弃的创建者风险更高
+    riskScore += (NEUTRAL_REPUTATION - launch.creatorReputation) * 0.4
+    
+    return Math.min(100, Math.max(0, Math.round(riskScore)))
   }
 
   // 计算潜力评分
@@ -562,7 +632,8 @@ export class SmartAnalyzer {
     potentialScore: number,
     technical: SmartAnalysis['technicalAnalysis'],
     sentiment: SmartAnalysis['sentimentAnalysis'],
-    market: SmartAnalysis['marketAnalysis']
+    market: SmartAnalysis['marketAnalysis'],
+    launch: SmartAnalysis['launchAnalysis']
   ): SmartAnalysis['recommendation'] {
     let action: SmartAnalysis['recommendation']['action'] = 'hold'
     let confidence = 50
@@ -614,6 +685,8 @@ export class SmartAnalyzer {
       riskFactors.push('情绪分析置信度低')
     }
     
+    riskFactors.push(...launch.riskFactors)
+    
     // 确定时间范围
     let timeHorizon: 'short' | 'medium' | 'long' = 'medium'
     if (market.volatility > 70) {
@@ -692,46 +765,9 @@ export class SmartAnalyzer {
     return stmt.all(tokenAddress, limit) as any[]
   }
 
-  private async calculateTechnicalIndicators(tokenAddress: string, priceData: any[]): Promise<TechnicalIndicator[]> {
-    // 简化的技术指标计算
-    const indicators: TechnicalIndicator[] = []
-    
-    if (priceData.length >= 14) {
-      // 简化的RSI计算
-      const rsi = this.calculateRSI(priceData.slice(0, 14))
-      indicators.push({
-        tokenAddress,
-        indicatorType: 'rsi',
-        timeframe: '1h',
-        value: rsi,
-        signal: rsi > 70 ? 'sell' : rsi < 30 ? 'buy' : 'hold',
-        strength: Math.abs(rsi - 50) * 2,
-        timestamp: new Date(),
-        metadata: { period: 14 }
-      })
-    }
-    
-    return indicators
-  }
-
-  private calculateRSI(priceData: any[]): number {
-    // 简化的RSI计算
-    let gains = 0
-    let losses = 0
-    
-    for (let i = 1; i < priceData.length; i++) {
-      const change = priceData[i-1].price - priceData[i].price
-      if (change > 0) gains += change
-      else losses += Math.abs(change)
-    }
-    
-    const avgGain = gains / (priceData.length - 1)
-    const avgLoss = losses / (priceData.length - 1)
-    
-    if (avgLoss === 0) return 100
-    
-    const rs = avgGain / avgLoss
-    return 100 - (100 / (1 + rs))
+  // 各周期最新的技术指标（由技术指标服务基于K线计算）
+  private async calculateTechnicalIndicators(tokenAddress: string): Promise<TechnicalIndicator[]> {
+    return queryLatestIndicatorSnapshots(this.db, tokenAddress).flatMap(toTechnicalIndicators)
   }
 
   private analyzeTrend(priceData: any[]): 'bullish' | 'bearish' | 'neutral' {
@@ -765,9 +801,9 @@ export class SmartAnalyzer {
     
     indicators.forEach(indicator => {
       if (indicator.signal === 'buy') {
-        signals.push(`${indicator.indicatorType.toUpperCase()} 买入信号`)
+        signals.push(`${indicator.indicatorType.toUpperCase()} (${indicator.timeframe}) 买入信号`)
       } else if (indicator.signal === 'sell') {
-        signals.push(`${indicator.indicatorType.toUpperCase()} 卖出信号`)
+        signals.push(`${indicator.indicatorType.toUpperCase()} (${indicator.timeframe}) 卖出信号`)
       }
     })
     
@@ -787,11 +823,15 @@ export class SmartAnalyzer {
     if (trend === 'bullish') score += 20
     else if (trend === 'bearish') score -= 20
     
-    // 基于指标
-    indicators.forEach(indicator => {
-      if (indicator.signal === 'buy') score += 10
-      else if (indicator.signal === 'sell') score -= 10
-    })
+    // 基于指标（多周期指标较多，按买卖信号净占比计分）
+    if (indicators.length > 0) {
+      const net = indicators.reduce((sum, indicator) => {
+        if (indicator.signal === 'buy') return sum + 1
+        if (indicator.signal === 'sell') return sum - 1
+        return sum
+      }, 0)
+      score += Math.round((net / indicators.length) * 30)
+    }
     
     return Math.min(100, Math.max(0, score))
   }
@@ -878,8 +918,9 @@ export class SmartAnalyzer {
         SELECT DISTINCT t.address, t.symbol
         FROM tokens t
         LEFT JOIN trading_data td ON t.address = td.token_address
-        WHERE td.timestamp > datetime('now', '-24 hours')
-        ORDER BY td.volume DESC
+        WHERE t.is_active = 1
+          AND td.timestamp > datetime('now', '-24 hours')
+        ORDER BY td.volume_24h DESC
         LIMIT ?
       `)
       
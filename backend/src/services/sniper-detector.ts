@@ -0,0 +1,241 @@
+import { DatabaseManager } from '../database/schema.js'
+import { logger } from '../utils/logger.js'
+import { enhancedErrorHandler } from '../utils/enhanced-error-handler.js'
+import { environment } from '../config/environment.js'
+import { TOKEN_TOTAL_SUPPLY } from './bonding-curve.js'
+import type { Statement } from 'better-sqlite3'
+
+// 狙击钱包当前持仓状态：仍持有、部分卖出、已清仓
+export type SniperStatus = 'holding' | 'partial' | 'dumped'
+
+export interface SniperTrade {
+  tokenAddress: string
+  wallet: string
+  isBuy: boolean
+  tokenAmount: number
+  timestamp: number // 事件时间（毫秒）
+}
+
+export interface TokenSniper {
+  tokenAddress: string
+  walletAddress: string
+  firstBuyAt: Date
+  delayMs: number // 首次买入距创建的时间
+  boughtTokens: number // 狙击窗口内买入的数量
+  balance: number // 当前持仓（来自持仓账本）
+  status: SniperStatus
+}
+
+export interface SniperStats {
+  tokenAddress: string
+  sniperCount: number
+  boughtPercentage: number // 狙击买入量占总供应量
+  holdingPercentage: number // 狙击钱包当前仍持有的占比
+  holdingCount: number
+  partialCount: number
+  dumpedCount: number
+  sniperRisk: number // 0-100
+}
+
+interface LaunchInfo {
+  createdAt: number
+  creator: string
+}
+
+// 只需记住最近创建的代币，更早的代币不会再出现狙击买入
+const LAUNCH_CACHE_TTL = 10 * 60 * 1000
+
+/**
+ * 狙击检测 - 标记代币创建后数秒内买入的钱包，结合持仓账本跟踪其是否已经出货
+ */
+export class SniperDetector {
+  private db: DatabaseManager
+  private isRunning: boolean = false
+  private pruneTimer?: NodeJS.Timeout
+  private launches: Map<string, LaunchInfo | null> = new Map() // null 表示已确认不在狙击窗口内
+  private latestEventTime = 0 // 已见到的最新事件时间，缓存按它过期，回放历史数据时同样适用
+  private upsertStmt: Statement | null = null
+
+  constructor(db: DatabaseManager) {
+    this.db = db
+    logger.info('🎯 狙击检测服务已初始化')
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return
+    this.isRunning = true
+
+    logger.info(`🎯 狙击检测服务启动 (窗口: ${environment.monitoring.sniperWindow}ms)`)
+
+    this.pruneTimer = setInterval(() => this.pruneLaunches(), 60 * 1000)
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer)
+    }
+    this.launches.clear()
+    logger.info('🎯 狙击检测服务停止')
+  }
+
+  /**
+   * 记录代币创建时间与创建者（创建者自己的首笔买入不算狙击）
+   */
+  recordLaunch(tokenAddress: string, createdAt: Date, creator: string): void {
+    this.latestEventTime = Math.max(this.latestEventTime, createdAt.getTime())
+    this.launches.set(tokenAddress, { createdAt: createdAt.getTime(), creator })
+  }
+
+  /**
+   * 检查买入是否落在创建后的狙击窗口内
+   */
+  recordTrade(trade: SniperTrade): void {
+    this.latestEventTime = Math.max(this.latestEventTime, trade.timestamp)
+    if (!trade.isBuy || !trade.wallet || !(trade.tokenAmount > 0)) return
+
+    const launch = this.getLaunch(trade.tokenAddress)
+    if (!launch || trade.wallet === launch.creator) return
+
+    // 创建帧与交易帧的时间来源不同，允许少量负偏差
+    const delayMs = Math.max(0, trade.timestamp - launch.createdAt)
+    if (delayMs > environment.monitoring.sniperWindow) return
+
+    try {
+      this.upsertStmt ??= this.db.getDb().prepare(`
+        INSERT INTO token_snipers (token_address, wallet_address, first_buy_at, delay_ms, bought_tokens)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(token_address, wallet_address) DO UPDATE SET
+          first_buy_at = MIN(token_snipers.first_buy_at, excluded.first_buy_at),
+          delay_ms = MIN(token_snipers.delay_ms, excluded.delay_ms),
+          bought_tokens = token_snipers.bought_tokens + excluded.bought_tokens
+      `)
+      this.upsertStmt.run(
+        trade.tokenAddress,
+        trade.wallet,
+        new Date(trade.timestamp).toISOString(),
+        delayMs,
+        trade.tokenAmount
+      )
+      logger.debug(`🎯 狙击买入: ${trade.wallet} -> ${trade.tokenAddress} (创建后 ${delayMs}ms)`)
+    } catch (error) {
+      enhancedErrorHandler.handleError(error as Error, 'SniperDetector.recordTrade', { tokenAddress: trade.tokenAddress })
+    }
+  }
+
+  /**
+   * 创建时间优先取内存，其次查询代币表（服务启动前创建的代币）
+   */
+  private getLaunch(tokenAddress: string): LaunchInfo | null {
+    const cached = this.launches.get(tokenAddress)
+    if (cached !== undefined) return cached
+
+    const row = this.db.getDb().prepare(`
+      SELECT created_at, creator_address FROM tokens WHERE address = ?
+    `).get(tokenAddress) as { created_at: string, creator_address: string | null } | undefined
+
+    const createdAt = row ? new Date(row.created_at).getTime() : NaN
+    const launch = Number.isFinite(createdAt) && createdAt > this.latestEventTime - LAUNCH_CACHE_TTL
+      ? { createdAt, creator: row?.creator_address || '' }
+      : null
+    this.launches.set(tokenAddress, launch)
+    return launch
+  }
+
+  private pruneLaunches(): void {
+    const cutoff = this.latestEventTime - LAUNCH_CACHE_TTL
+    for (const [tokenAddress, launch] of this.launches) {
+      if (!launch || launch.createdAt < cutoff) {
+        this.launches.delete(tokenAddress)
+      }
+    }
+  }
+}
+
+/**
+ * 按当前持仓与狙击买入量判断是否已出货
+ */
+export function sniperStatus(balance: number, boughtTokens: number): SniperStatus {
+  if (boughtTokens <= 0 || balance >= boughtTokens * 0.9) return 'holding'
+  if (balance <= boughtTokens * 0.1) return 'dumped'
+  return 'partial'
+}
+
+/**
+ * 狙击风险：狙击钱包仍持有的供应量占比为主，狙击钱包数量为辅
+ */
+export function calculateSniperRisk(holdingPercentage: number, sniperCount: number): number {
+  const risk = holdingPercentage * 2.5 + Math.min(20, sniperCount * 2)
+  return Math.round(Math.min(100, Math.max(0, risk)))
+}
+
+export function querySnipers(db: DatabaseManager, tokenAddress: string): TokenSniper[] {
+  const rows = db.getDb().prepare(`
+    SELECT s.*, COALESCE(h.balance, 0) AS balance
+    FROM token_snipers s
+    LEFT JOIN token_holders h ON h.token_address = s.token_address AND h.wallet_address = s.wallet_address
+    WHERE s.token_address = ?
+    ORDER BY s.delay_ms ASC
+  `).all(tokenAddress) as any[]
+
+  return rows.map(rowToTokenSniper)
+}
+
+export function querySniperStats(db: DatabaseManager, tokenAddress: string): SniperStats {
+  const snipers = querySnipers(db, tokenAddress)
+  const token = db.getDb().prepare('SELECT total_supply FROM tokens WHERE address = ?')
+    .get(tokenAddress) as { total_supply: string | null } | undefined
+  const totalSupply = Number(token?.total_supply) || TOKEN_TOTAL_SUPPLY
+  const percentOf = (amount: number) => (amount / totalSupply) * 100
+
+  const bought = snipers.reduce((total, sniper) => total + sniper.boughtTokens, 0)
+  const holding = snipers.reduce((total, sniper) => total + Math.max(0, sniper.balance), 0)
+  const holdingPercentage = percentOf(holding)
+
+  return {
+    tokenAddress,
+    sniperCount: snipers.length,
+    boughtPercentage: percentOf(bought),
+    holdingPercentage,
+    holdingCount: snipers.filter(sniper => sniper.status === 'holding').length,
+    partialCount: snipers.filter(sniper => sniper.status === 'partial').length,
+    dumpedCount: snipers.filter(sniper => sniper.status === 'dumped').length,
+    sniperRisk: calculateSniperRisk(holdingPercentage, snipers.length)
+  }
+}
+
+/**
+ * 批量计算多个代币的狙击风险（列表页使用，一次查询代替逐个统计）
+ */
+export function querySniperRisks(db: DatabaseManager, tokenAddresses: string[]): Map<string, number> {
+  const risks = new Map(tokenAddresses.map(tokenAddress => [tokenAddress, 0]))
+  if (tokenAddresses.length === 0) return risks
+
+  const rows = db.getDb().prepare(`
+    SELECT s.token_address, t.total_supply, COUNT(*) AS sniper_count,
+           SUM(MAX(0, COALESCE(h.balance, 0))) AS holding
+    FROM token_snipers s
+    LEFT JOIN token_holders h ON h.token_address = s.token_address AND h.wallet_address = s.wallet_address
+    LEFT JOIN tokens t ON t.address = s.token_address
+    WHERE s.token_address IN (${tokenAddresses.map(() => '?').join(', ')})
+    GROUP BY s.token_address
+  `).all(...tokenAddresses) as { token_address: string, total_supply: string | null, sniper_count: number, holding: number }[]
+
+  for (const row of rows) {
+    const totalSupply = Number(row.total_supply) || TOKEN_TOTAL_SUPPLY
+    risks.set(row.token_address, calculateSniperRisk((row.holding / totalSupply) * 100, row.sniper_count))
+  }
+  return risks
+}
+
+export function rowToTokenSniper(row: any): TokenSniper {
+  return {
+    tokenAddress: row.token_address,
+    walletAddress: row.wallet_address,
+    firstBuyAt: new Date(row.first_buy_at),
+    delayMs: row.delay_ms,
+    boughtTokens: row.bought_tokens,
+    balance: row.balance ?? 0,
+    status: sniperStatus(row.balance ?? 0, row.bought_tokens)
+  }
+}
@@ -0,0 +1,234 @@
+import { DatabaseManager } from '../database/schema.js'
+import { logger } from '../utils/logger.js'
+import { enhancedErrorHandler } from '../utils/enhanced-error-handler.js'
+import { environment } from '../config/environment.js'
+import { jupiterAPI } from './jupiter-api.js'
+
+// 汇率来源：Jupiter 实时价格、本地历史记录、配置的固定价格
+export type SolPriceSource = 'jupiter' | 'history' | 'static'
+
+export interface SolPricePoint {
+  timestamp: Date
+  priceUsd: number
+  source: SolPriceSource
+}
+
+export interface SolPriceStatus {
+  priceUsd: number
+  source: SolPriceSource
+  updatedAt: Date | null
+  mode: 'jupiter' | 'static'
+  samples: number // 内存中的历史点数
+}
+
+// 内存中保留的历史汇率，更早的时间点查询数据库
+const MEMORY_WINDOW = 7 * 24 * 60 * 60 * 1000
+
+type EventTime = Date | string | number
+
+/**
+ * SOL/USD 汇率服务 - 定期从 Jupiter 获取并记录历史，按事件发生时的汇率换算美元；
+ * 离线或请求失败时使用最近一次记录的汇率，没有任何记录时使用配置的固定价格
+ */
+export class SolPriceProvider {
+  private db: DatabaseManager
+  private isRunning: boolean = false
+  private refreshTimer?: NodeJS.Timeout
+  private series: { timestamp: number, price: number }[] = [] // 按时间升序
+  private current: { price: number, source: SolPriceSource, updatedAt: number | null }
+
+  constructor(db: DatabaseManager) {
+    this.db = db
+    this.current = { price: environment.api.solPrice.fallbackPrice, source: 'static', updatedAt: null }
+    logger.info('💵 SOL汇率服务已初始化')
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return
+    this.isRunning = true
+
+    logger.info(`💵 SOL汇率服务启动 (来源: ${environment.api.solPrice.source})`)
+
+    this.loadHistory()
+
+    if (environment.api.solPrice.source === 'jupiter') {
+      await this.refresh()
+      this.refreshTimer = setInterval(() => this.refresh(), environment.api.solPrice.refreshInterval)
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer)
+      this.refreshTimer = undefined
+    }
+    logger.info('💵 SOL汇率服务停止')
+  }
+
+  /**
+   * 当前 SOL/USD
+   */
+  getPrice(): number {
+    return this.current.price
+  }
+
+  /**
+   * 指定时刻适用的 SOL/USD：该时刻之前最近的记录；早于全部记录时取最早的记录
+   */
+  getPriceAt(time: EventTime): number {
+    const timestamp = toTimestamp(time)
+    if (timestamp === null) return this.current.price
+
+    const { series } = this
+    if (series.length > 0 && timestamp >= series[0].timestamp) {
+      let low = 0
+      let high = series.length - 1
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2)
+        if (series[mid].timestamp <= timestamp) low = mid
+        else high = mid - 1
+      }
+      return series[low].price
+    }
+
+    return this.lookupHistory(timestamp) ?? series[0]?.price ?? this.current.price
+  }
+
+  /**
+   * 将 SOL 数额换算为美元，未传时间时按当前汇率
+   */
+  toUsd(sol: number | null | undefined, time?: EventTime): number | null {
+    if (sol === null || sol === undefined || !Number.isFinite(sol)) return null
+    const price = time === undefined ? this.current.price : this.getPriceAt(time)
+    return sol * price
+  }
+
+  getStatus(): SolPriceStatus {
+    return {
+      priceUsd: this.current.price,
+      source: this.current.source,
+      updatedAt: this.current.updatedAt ? new Date(this.current.updatedAt) : null,
+      mode: environment.api.solPrice.source,
+      samples: this.series.length
+    }
+  }
+
+  /**
+   * 历史汇率（按时间升序）
+   */
+  getHistory(options: { from?: Date, to?: Date, limit?: number } = {}): SolPricePoint[] {
+    const conditions: string[] = []
+    const params: any[] = []
+    if (options.from) {
+      conditions.push('timestamp >= ?')
+      params.push(options.from.toISOString())
+    }
+    if (options.to) {
+      conditions.push('timestamp <= ?')
+      params.push(options.to.toISOString())
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+
+    const rows = this.db.getDb().prepare(`
+      SELECT * FROM (
+        SELECT timestamp, price_usd, source FROM sol_price_history
+        ${where}
+        ORDER BY timestamp DESC
+        LIMIT ?
+      ) ORDER BY timestamp ASC
+    `).all(...params, options.limit ?? 1440) as { timestamp: string, price_usd: number, source: SolPriceSource }[]
+
+    return rows.map(row => ({
+      timestamp: new Date(row.timestamp),
+      priceUsd: row.price_usd,
+      source: row.source
+    }))
+  }
+
+  /**
+   * 载入最近的历史汇率，最新一条作为离线时的当前汇率
+   */
+  private loadHistory(): void {
+    try {
+      const since = new Date(Date.now() - MEMORY_WINDOW).toISOString()
+      const rows = this.db.getDb().prepare(`
+        SELECT timestamp, price_usd FROM sol_price_history
+        WHERE timestamp >= ?
+        ORDER BY timestamp ASC
+      `).all(since) as { timestamp: string, price_usd: number }[]
+
+      this.series = rows.map(row => ({ timestamp: new Date(row.timestamp).getTime(), price: row.price_usd }))
+
+      const latest = this.series.at(-1) ?? this.lookupLatest()
+      if (latest) {
+        this.current = { price: latest.price, source: 'history', updatedAt: latest.timestamp }
+      }
+    } catch (error) {
+      enhancedErrorHandler.handleError(error as Error, 'SolPriceProvider.loadHistory')
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    const price = await jupiterAPI.getSolUsdPrice()
+    if (!price || !(price > 0)) {
+      logger.warn(`⚠️ 获取SOL美元价格失败，继续使用 ${this.current.price.toFixed(2)} USD (${this.current.source})`)
+      return
+    }
+
+    const now = Date.now()
+    this.current = { price, source: 'jupiter', updatedAt: now }
+    this.series.push({ timestamp: now, price })
+
+    const cutoff = now - MEMORY_WINDOW
+    const expired = this.series.findIndex(point => point.timestamp >= cutoff)
+    if (expired > 0) this.series.splice(0, expired)
+
+    try {
+      this.db.getDb().prepare(`
+        INSERT OR REPLACE INTO sol_price_history (timestamp, price_usd, source) VALUES (?, ?, 'jupiter')
+      `).run(new Date(now).toISOString(), price)
+    } catch (error) {
+      logger.error('❌ 记录SOL汇率失败:', error)
+    }
+  }
+
+  private lookupHistory(timestamp: number): number | null {
+    const row = this.db.getDb().prepare(`
+      SELECT price_usd FROM sol_price_history
+      WHERE timestamp <= ?
+      ORDER BY timestamp DESC
+      LIMIT 1
+    `).get(new Date(timestamp).toISOString()) as { price_usd: number } | undefined
+    return row?.price_usd ?? null
+  }
+
+  private lookupLatest(): { timestamp: number, price: number } | null {
+    const row = this.db.getDb().prepare(`
+      SELECT timestamp, price_usd FROM sol_price_history ORDER BY timestamp DESC LIMIT 1
+    `).get() as { timestamp: string, price_usd: number } | undefined
+    return row ? { timestamp: new Date(row.timestamp).getTime(), price: row.price_usd } : null
+  }
+}
+
+function toTimestamp(time: EventTime): number | null {
+  const timestamp = time instanceof Date ? time.getTime() : typeof time === 'number' ? time : new Date(time).getTime()
+  return Number.isFinite(timestamp) ? timestamp : null
+}
+
+// 单例实例
+let solPriceProviderInstance: SolPriceProvider | null = null
+
+export const getSolPriceProvider = (): SolPriceProvider => {
+  if (!solPriceProviderInstance) {
+    throw new Error('SOL汇率服务尚未初始化，请先调用 initializeSolPriceProvider')
+  }
+  return solPriceProviderInstance
+}
+
+export const initializeSolPriceProvider = (db: DatabaseManager): SolPriceProvider => {
+  if (!solPriceProviderInstance) {
+    solPriceProviderInstance = new SolPriceProvider(db)
+  }
+  return solPriceProviderInstance
+}
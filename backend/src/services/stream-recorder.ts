@@ -0,0 +1,131 @@
+import { createWriteStream, existsSync, mkdirSync, readdirSync, unlinkSync, type WriteStream } from 'fs'
+import { join } from 'path'
+import { logger } from '../utils/logger.js'
+
+// 录制文件中的单行记录（NDJSON）
+export interface RecordedFrame {
+  receivedAt: number // 本地接收时间（毫秒）
+  frame: string // 原始 WebSocket 帧内容
+}
+
+export interface StreamRecorderOptions {
+  dir: string
+  prefix?: string
+  maxFileSize: number // 单个录制文件最大字节数，超出后轮转
+  maxFiles: number // 目录中最多保留的录制文件数
+}
+
+/**
+ * WebSocket 原始帧录制器 - 按大小轮转写入 NDJSON 文件
+ */
+export class StreamRecorder {
+  private options: Required<StreamRecorderOptions>
+  private stream: WriteStream | null = null
+  private currentFile: string | null = null
+  private currentSize = 0
+  private framesWritten = 0
+  private fileSequence = 0
+
+  constructor(options: StreamRecorderOptions) {
+    this.options = {
+      prefix: 'pumpportal',
+      ...options
+    }
+
+    if (!existsSync(this.options.dir)) {
+      mkdirSync(this.options.dir, { recursive: true })
+    }
+  }
+
+  /**
+   * 录制一帧原始数据
+   */
+  record(raw: string, receivedAt: number = Date.now()): void {
+    try {
+      const entry: RecordedFrame = { receivedAt, frame: raw }
+      const line = JSON.stringify(entry) + '\n'
+      const size = Buffer.byteLength(line)
+
+      if (!this.stream || this.currentSize + size > this.options.maxFileSize) {
+        this.rotate(receivedAt)
+      }
+
+      this.stream!.write(line)
+      this.currentSize += size
+      this.framesWritten++
+    } catch (error) {
+      logger.error('录制 PumpPortal 帧失败:', error)
+    }
+  }
+
+  /**
+   * 获取录制状态
+   */
+  getStatus(): { file: string | null; bytes: number; framesWritten: number } {
+    return {
+      file: this.currentFile,
+      bytes: this.currentSize,
+      framesWritten: this.framesWritten
+    }
+  }
+
+  /**
+   * 关闭当前录制文件
+   */
+  async close(): Promise<void> {
+    const stream = this.stream
+    this.stream = null
+    if (stream) {
+      await new Promise<void>(resolve => stream.end(resolve))
+    }
+  }
+
+  /**
+   * 切换到新的录制文件，并清理超出保留数量的旧文件
+   */
+  private rotate(receivedAt: number): void {
+    if (this.stream) {
+      this.stream.end()
+    }
+
+    const stamp = new Date(receivedAt).toISOString().replace(/[-:]/g, '').replace(/\..+$/, '')
+    const sequence = String(this.fileSequence++).padStart(4, '0')
+    this.currentFile = join(this.options.dir, `${this.options.prefix}-${stamp}-${process.pid}-${sequence}.ndjson`)
+    this.currentSize = 0
+    this.stream = createWriteStream(this.currentFile, { flags: 'a' })
+    this.stream.on('error', (error) => {
+      logger.error('PumpPortal 录制文件写入失败:', error)
+    })
+
+    logger.info(`📼 PumpPortal 录制文件: ${this.currentFile}`)
+    this.pruneOldFiles()
+  }
+
+  private pruneOldFiles(): void {
+    // 新文件由写入流异步创建，此处只需为它预留一个名额
+    const files = listCaptureFiles(this.options.dir, this.options.prefix)
+      .filter(file => file !== this.currentFile)
+    const excess = files.length - (this.options.maxFiles - 1)
+
+    for (let i = 0; i < excess; i++) {
+      try {
+        unlinkSync(files[i])
+        logger.debug(`🗑️ 删除旧录制文件: ${files[i]}`)
+      } catch (error) {
+        logger.warn(`删除旧录制文件失败: ${files[i]}`)
+      }
+    }
+  }
+}
+
+/**
+ * 按时间顺序列出目录中的录制文件（文件名带时间戳，字典序即时间序）
+ */
+export function listCaptureFiles(dir: string, prefix: string = 'pumpportal'): string[] {
+  if (!existsSync(dir)) return []
+
+  return readdirSync(dir)
+    .filter(name => name.startsWith(`${prefix}-`) && name.endsWith('.ndjson'))
+    .sort()
+    .map(name => join(dir, name))
+}
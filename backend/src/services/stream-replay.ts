@@ -0,0 +1,131 @@
+import { createReadStream, existsSync, statSync } from 'fs'
+import { createInterface } from 'readline'
+import { logger } from '../utils/logger.js'
+import { listCaptureFiles, type RecordedFrame } from './stream-recorder.js'
+
+// 回放速度：倍数（1 = 原速）或 'max'（不等待，尽可能快）
+export type ReplaySpeed = number | 'max'
+
+export interface ReplayStats {
+  files: number
+  frames: number
+  skipped: number
+  durationMs: number
+}
+
+/**
+ * 解析回放速度配置，支持 "1"、"10"、"10x"、"max"
+ */
+export function parseReplaySpeed(value: string | undefined): ReplaySpeed {
+  if (!value) return 1
+
+  const normalized = value.trim().toLowerCase()
+  if (normalized === 'max') return 'max'
+
+  const speed = parseFloat(normalized.replace(/x$/, ''))
+  if (isNaN(speed) || speed <= 0) {
+    logger.warn(`无效的回放速度: ${value}，使用 1x`)
+    return 1
+  }
+  return speed
+}
+
+/**
+ * 录制文件回放源 - 按原始接收时间间隔（可加速）重新投递帧
+ */
+export class StreamReplaySource {
+  private path: string
+  private speed: ReplaySpeed
+  private stopped = false
+
+  constructor(path: string, speed: ReplaySpeed = 1) {
+    this.path = path
+    this.speed = speed
+  }
+
+  /**
+   * 开始回放，path 为目录时按时间顺序回放其中所有录制文件
+   */
+  async replay(onFrame: (raw: string, receivedAt: number) => void): Promise<ReplayStats> {
+    const files = this.resolveFiles()
+    const stats: ReplayStats = { files: files.length, frames: 0, skipped: 0, durationMs: 0 }
+    const startedAt = Date.now()
+
+    logger.info(`⏯️ 开始回放 PumpPortal 录制: ${this.path} (${files.length} 个文件, 速度 ${this.speed === 'max' ? 'max' : `${this.speed}x`})`)
+
+    let firstReceivedAt: number | null = null
+
+    for (const file of files) {
+      const lines = createInterface({
+        input: createReadStream(file, { encoding: 'utf8' }),
+        crlfDelay: Infinity
+      })
+
+      for await (const line of lines) {
+        if (this.stopped) break
+        if (!line.trim()) continue
+
+        let entry: RecordedFrame
+        try {
+          entry = JSON.parse(line)
+        } catch (error) {
+          stats.skipped++
+          continue
+        }
+
+        if (firstReceivedAt === null) {
+          firstReceivedAt = entry.receivedAt
+        }
+
+        await this.waitUntil(startedAt, entry.receivedAt - firstReceivedAt, stats.frames)
+
+        try {
+          onFrame(entry.frame, entry.receivedAt)
+        } catch (error) {
+          logger.error('回放帧处理失败:', error)
+        }
+        stats.frames++
+      }
+
+      lines.close()
+      if (this.stopped) break
+    }
+
+    stats.durationMs = Date.now() - startedAt
+    logger.info(`⏹️ PumpPortal 回放结束: ${stats.frames} 帧, 跳过 ${stats.skipped} 行, 耗时 ${stats.durationMs}ms`)
+    return stats
+  }
+
+  /**
+   * 停止回放
+   */
+  stop(): void {
+    this.stopped = true
+  }
+
+  private resolveFiles(): string[] {
+    if (!existsSync(this.path)) {
+      throw new Error(`回放文件不存在: ${this.path}`)
+    }
+
+    return statSync(this.path).isDirectory() ? listCaptureFiles(this.path) : [this.path]
+  }
+
+  /**
+   * 等待到该帧在回放时间轴上的投递时刻
+   */
+  private async waitUntil(startedAt: number, offsetMs: number, frameIndex: number): Promise<void> {
+    if (this.speed === 'max') {
+      // 全速回放时定期让出事件循环，避免阻塞其他定时任务
+      if (frameIndex % 500 === 0) {
+        await new Promise(resolve => setImmediate(resolve))
+      }
+      return
+    }
+
+    const delay = startedAt + offsetMs / this.speed - Date.now()
+    if (delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay))
+    }
+  }
+}
@@ -0,0 +1,280 @@
+import { logger } from '../utils/logger.js'
+
+// 订阅原因：新发射、前端关注、预警配置、KOL 持仓、手动强制订阅
+export type SubscriptionReason = 'new_launch' | 'watchlist' | 'alert_config' | 'kol_holding' | 'manual'
+
+export interface SubscriptionOptions {
+  maxSubscriptions: number // 同时订阅的代币上限
+  idleTimeout: number // 超过该时长无交易的代币自动退订（毫秒）
+  sweepInterval: number // 不活跃检查间隔（毫秒）
+}
+
+export interface SubscriptionTransport {
+  subscribe: (keys: string[]) => void
+  unsubscribe: (keys: string[]) => void
+}
+
+export interface TokenSubscription {
+  tokenAddress: string
+  reasons: SubscriptionReason[]
+  forced: boolean
+  subscribedAt: Date
+  lastActivityAt: Date
+  tradeCount: number
+  score: number
+}
+
+export interface SubscriptionStats {
+  total: number
+  max: number
+  forced: number
+  byReason: Record<SubscriptionReason, number>
+  rejected: number
+  evictedIdle: number
+  evictedCapacity: number
+}
+
+interface SubscriptionEntry {
+  reasons: Set<SubscriptionReason>
+  forced: boolean
+  subscribedAt: number
+  lastActivityAt: number
+  tradeCount: number
+}
+
+// 各订阅原因的基础分，容量不足时优先淘汰低分代币
+const REASON_WEIGHTS: Record<SubscriptionReason, number> = {
+  manual: 100,
+  watchlist: 80,
+  alert_config: 60,
+  kol_holding: 40,
+  new_launch: 10
+}
+
+// 由使用方显式释放的原因，不参与不活跃淘汰
+const PINNED_REASONS: SubscriptionReason[] = ['manual', 'watchlist', 'alert_config']
+
+/**
+ * 代币交易订阅管理 - 记录订阅原因，限制总数并按不活跃或低分淘汰
+ */
+export class TokenSubscriptionManager {
+  private options: SubscriptionOptions
+  private transport: SubscriptionTransport
+  private entries: Map<string, SubscriptionEntry> = new Map()
+  private sweepTimer?: NodeJS.Timeout
+
+  private stats = {
+    rejected: 0,
+    evictedIdle: 0,
+    evictedCapacity: 0
+  }
+
+  constructor(options: SubscriptionOptions, transport: SubscriptionTransport) {
+    this.options = options
+    this.transport = transport
+  }
+
+  start(): void {
+    if (this.sweepTimer) return
+    this.sweepTimer = setInterval(() => this.evictIdle(), this.options.sweepInterval)
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer)
+      this.sweepTimer = undefined
+    }
+  }
+
+  /**
+   * 以指定原因订阅代币；强制订阅不受上限限制且不会被淘汰。容量已满且无可淘汰代币时返回 false
+   */
+  subscribe(tokenAddress: string, reason: SubscriptionReason, force: boolean = false): boolean {
+    const existing = this.entries.get(tokenAddress)
+    if (existing) {
+      existing.reasons.add(reason)
+      existing.forced = existing.forced || force
+      return true
+    }
+
+    const now = Date.now()
+    const entry: SubscriptionEntry = {
+      reasons: new Set([reason]),
+      forced: force,
+      subscribedAt: now,
+      lastActivityAt: now,
+      tradeCount: 0
+    }
+
+    if (this.entries.size >= this.options.maxSubscriptions && !this.makeRoom(entry, now)) {
+      this.stats.rejected++
+      if (this.stats.rejected % 100 === 1) {
+        logger.warn(`⚠️ 代币订阅已达上限 (${this.options.maxSubscriptions})，累计拒绝 ${this.stats.rejected} 个订阅`)
+      }
+      return false
+    }
+
+    this.entries.set(tokenAddress, entry)
+    this.transport.subscribe([tokenAddress])
+    return true
+  }
+
+  /**
+   * 释放某个订阅原因，没有剩余原因时退订
+   */
+  release(tokenAddress: string, reason: SubscriptionReason): void {
+    const entry = this.entries.get(tokenAddress)
+    if (!entry) return
+
+    entry.reasons.delete(reason)
+    if (reason === 'manual') {
+      entry.forced = false
+    }
+    if (entry.reasons.size === 0) {
+      this.remove([tokenAddress])
+    }
+  }
+
+  /**
+   * 无论原因直接退订
+   */
+  unsubscribe(tokenAddress: string): boolean {
+    if (!this.entries.has(tokenAddress)) return false
+    this.remove([tokenAddress])
+    return true
+  }
+
+  /**
+   * 记录代币交易，用于不活跃判断与评分
+   */
+  recordActivity(tokenAddress: string, at: number = Date.now()): void {
+    const entry = this.entries.get(tokenAddress)
+    if (!entry) return
+
+    entry.tradeCount++
+    entry.lastActivityAt = Math.max(entry.lastActivityAt, at)
+  }
+
+  has(tokenAddress: string): boolean {
+    return this.entries.has(tokenAddress)
+  }
+
+  /**
+   * 当前订阅的全部代币地址（重连后恢复订阅用）
+   */
+  getKeys(): string[] {
+    return Array.from(this.entries.keys())
+  }
+
+  /**
+   * 订阅列表，按评分从高到低排序
+   */
+  getSubscriptions(reason?: SubscriptionReason): TokenSubscription[] {
+    const now = Date.now()
+    const result: TokenSubscription[] = []
+
+    for (const [tokenAddress, entry] of this.entries) {
+      if (reason && !entry.reasons.has(reason)) continue
+      result.push({
+        tokenAddress,
+        reasons: Array.from(entry.reasons),
+        forced: entry.forced,
+        subscribedAt: new Date(entry.subscribedAt),
+        lastActivityAt: new Date(entry.lastActivityAt),
+        tradeCount: entry.tradeCount,
+        score: this.score(entry, now)
+      })
+    }
+
+    return result.sort((a, b) => b.score - a.score)
+  }
+
+  getStats(): SubscriptionStats {
+    const byReason: Record<SubscriptionReason, number> = {
+      new_launch: 0,
+      watchlist: 0,
+      alert_config: 0,
+      kol_holding: 0,
+      manual: 0
+    }
+    let forced = 0
+
+    for (const entry of this.entries.values()) {
+      if (entry.forced) forced++
+      entry.reasons.forEach(reason => byReason[reason]++)
+    }
+
+    return {
+      total: this.entries.size,
+      max: this.options.maxSubscriptions,
+      forced,
+      byReason,
+      ...this.stats
+    }
+  }
+
+  /**
+   * 评分 = 最高原因基础分 + 交易活跃度 - 空闲分钟数
+   */
+  private score(entry: SubscriptionEntry, now: number): number {
+    let weight = 0
+    entry.reasons.forEach(reason => {
+      weight = Math.max(weight, REASON_WEIGHTS[reason])
+    })
+
+    const activity = Math.min(30, Math.log2(1 + entry.tradeCount) * 5)
+    const idleMinutes = Math.min(60, (now - entry.lastActivityAt) / 60000)
+    return Math.round((weight + activity - idleMinutes) * 100) / 100
+  }
+
+  /**
+   * 容量已满时淘汰评分最低的代币，同分时新订阅优先
+   */
+  private makeRoom(candidate: SubscriptionEntry, now: number): boolean {
+    let lowestAddress: string | null = null
+    let lowestScore = Infinity
+
+    for (const [tokenAddress, entry] of this.entries) {
+      if (entry.forced) continue
+      const score = this.score(entry, now)
+      if (score < lowestScore) {
+        lowestScore = score
+        lowestAddress = tokenAddress
+      }
+    }
+
+    if (lowestAddress && (candidate.forced || lowestScore <= this.score(candidate, now))) {
+      this.remove([lowestAddress])
+      this.stats.evictedCapacity++
+      return true
+    }
+
+    // 全部为强制订阅时仍允许新的强制订阅
+    return candidate.forced
+  }
+
+  /**
+   * 退订长时间无交易的代币（仅限未被显式关注的代币）
+   */
+  private evictIdle(): void {
+    const cutoff = Date.now() - this.options.idleTimeout
+    const idle: string[] = []
+
+    for (const [tokenAddress, entry] of this.entries) {
+      if (entry.forced || entry.lastActivityAt >= cutoff) continue
+      if (PINNED_REASONS.some(reason => entry.reasons.has(reason))) continue
+      idle.push(tokenAddress)
+    }
+
+    if (idle.length === 0) return
+
+    this.remove(idle)
+    this.stats.evictedIdle += idle.length
+    logger.info(`📉 退订 ${idle.length} 个不活跃代币，当前订阅 ${this.entries.size} 个`)
+  }
+
+  private remove(tokenAddresses: string[]): void {
+    tokenAddresses.forEach(tokenAddress => this.entries.delete(tokenAddress))
+    this.transport.unsubscribe(tokenAddresses)
+  }
+}
@@ -0,0 +1,393 @@
+import { RSI, MACD, BollingerBands, SMA, EMA } from 'technicalindicators'
+import { DatabaseManager } from '../database/schema.js'
+import { logger } from '../utils/logger.js'
+import { enhancedErrorHandler } from '../utils/enhanced-error-handler.js'
+import { CANDLE_INTERVALS, queryCandles } from './candle-aggregator.js'
+import type { Statement } from 'better-sqlite3'
+import type { TechnicalIndicator } from './smart-analyzer.js'
+import type { Candle, CandleInterval } from '../../../shared/types/index.ts'
+
+export type IndicatorTimeframe = Exclude<CandleInterval, '1s'>
+
+// 计算指标的周期（秒级K线噪声太大，不参与）
+export const INDICATOR_TIMEFRAMES: IndicatorTimeframe[] = ['1m', '5m', '15m', '1h', '4h']
+
+// 每次计算使用的K线数量，足够 MACD(12,26,9) 收敛
+const CANDLE_WINDOW = 100
+const MIN_CANDLES = 15
+
+// 某一周期最新一根K线上的指标值
+export interface IndicatorSnapshot {
+  tokenAddress: string
+  timeframe: IndicatorTimeframe
+  timestamp: Date // 最新K线开盘时间
+  close: number
+  volume: number
+  rsi14: number | null
+  macdLine: number | null
+  macdSignal: number | null
+  macdHistogram: number | null
+  bbUpper: number | null
+  bbMiddle: number | null
+  bbLower: number | null
+  priceSma20: number | null
+  priceEma12: number | null
+  priceEma26: number | null
+  volumeSma20: number | null
+  support: number
+  resistance: number
+}
+
+/**
+ * 无交易的周期按上一根收盘价补齐（成交量为 0），保证指标按时间而不是按成交计算
+ */
+export function fillCandleGaps(candles: Candle[], interval: CandleInterval): Candle[] {
+  const size = CANDLE_INTERVALS[interval]
+  const filled: Candle[] = []
+
+  for (const candle of candles) {
+    const previous = filled[filled.length - 1]
+    if (previous) {
+      for (let time = previous.openTime.getTime() + size; time < candle.openTime.getTime(); time += size) {
+        filled.push({
+          ...previous,
+          openTime: new Date(time),
+          open: previous.close,
+          high: previous.close,
+          low: previous.close,
+          volumeSol: 0,
+          volumeToken: 0,
+          buyVolumeSol: 0,
+          sellVolumeSol: 0,
+          buyCount: 0,
+          sellCount: 0
+        })
+      }
+    }
+    filled.push(candle)
+  }
+
+  return filled.slice(-CANDLE_WINDOW)
+}
+
+/**
+ * 根据K线计算 RSI-14、MACD(12,26,9)、布林带(20,2)、均线与成交量均线
+ */
+export function calculateIndicatorSnapshot(
+  tokenAddress: string,
+  timeframe: IndicatorTimeframe,
+  candles: Candle[]
+): IndicatorSnapshot | null {
+  if (candles.length < MIN_CANDLES) return null
+
+  const closes = candles.map(candle => candle.close)
+  const volumes = candles.map(candle => candle.volumeSol)
+  const last = candles[candles.length - 1]
+
+  const macd = MACD.calculate({
+    values: closes,
+    fastPeriod: 12,
+    slowPeriod: 26,
+    signalPeriod: 9,
+    SimpleMAOscillator: false,
+    SimpleMASignal: false
+  }).at(-1)
+  const bollinger = BollingerBands.calculate({ values: closes, period: 20, stdDev: 2 }).at(-1)
+
+  // 支撑 / 阻力取最近 20 根的最低价与最高价
+  const recent = candles.slice(-20)
+
+  return {
+    tokenAddress,
+    timeframe,
+    timestamp: last.openTime,
+    close: last.close,
+    volume: last.volumeSol,
+    rsi14: RSI.calculate({ values: closes, period: 14 }).at(-1) ?? null,
+    macdLine: macd?.MACD ?? null,
+    macdSignal: macd?.signal ?? null,
+    macdHistogram: macd?.histogram ?? null,
+    bbUpper: bollinger?.upper ?? null,
+    bbMiddle: bollinger?.middle ?? null,
+    bbLower: bollinger?.lower ?? null,
+    priceSma20: SMA.calculate({ values: closes, period: 20 }).at(-1) ?? null,
+    priceEma12: EMA.calculate({ values: closes, period: 12 }).at(-1) ?? null,
+    priceEma26: EMA.calculate({ values: closes, period: 26 }).at(-1) ?? null,
+    volumeSma20: SMA.calculate({ values: volumes, period: 20 }).at(-1) ?? null,
+    support: Math.min(...recent.map(candle => candle.low)),
+    resistance: Math.max(...recent.map(candle => candle.high))
+  }
+}
+
+/**
+ * 将指标快照转换为带买卖信号的指标列表
+ */
+export function toTechnicalIndicators(snapshot: IndicatorSnapshot): TechnicalIndicator[] {
+  const { tokenAddress, timeframe, timestamp, close } = snapshot
+  const indicators: TechnicalIndicator[] = []
+
+  if (snapshot.rsi14 !== null) {
+    const rsi = snapshot.rsi14
+    indicators.push({
+      tokenAddress,
+      indicatorType: 'rsi',
+      timeframe,
+      value: rsi,
+      signal: rsi > 70 ? 'sell' : rsi < 30 ? 'buy' : 'hold',
+      strength: Math.min(100, Math.abs(rsi - 50) * 2),
+      timestamp,
+      metadata: { period: 14 }
+    })
+  }
+
+  if (snapshot.macdHistogram !== null && snapshot.macdLine !== null) {
+    const histogram = snapshot.macdHistogram
+    indicators.push({
+      tokenAddress,
+      indicatorType: 'macd',
+      timeframe,
+      value: histogram,
+      signal: histogram > 0 ? 'buy' : histogram < 0 ? 'sell' : 'hold',
+      strength: snapshot.macdLine !== 0
+        ? Math.min(100, Math.abs(histogram / snapshot.macdLine) * 100)
+        : 0,
+      timestamp,
+      metadata: {
+        fastPeriod: 12,
+        slowPeriod: 26,
+        signalPeriod: 9,
+        macd: snapshot.macdLine,
+        signalLine: snapshot.macdSignal
+      }
+    })
+  }
+
+  if (snapshot.bbUpper !== null && snapshot.bbLower !== null) {
+    const width = snapshot.bbUpper - snapshot.bbLower
+    const percentB = width > 0 ? (close - snapshot.bbLower) / width : 0.5
+    indicators.push({
+      tokenAddress,
+      indicatorType: 'bollinger_bands',
+      timeframe,
+      value: percentB,
+      signal: close < snapshot.bbLower ? 'buy' : close > snapshot.bbUpper ? 'sell' : 'hold',
+      strength: Math.min(100, Math.abs(percentB - 0.5) * 200),
+      timestamp,
+      metadata: {
+        period: 20,
+        stdDev: 2,
+        upper: snapshot.bbUpper,
+        middle: snapshot.bbMiddle,
+        lower: snapshot.bbLower
+      }
+    })
+  }
+
+  if (snapshot.priceSma20 !== null && snapshot.priceEma12 !== null && snapshot.priceEma26 !== null) {
+    const sma = snapshot.priceSma20
+    const crossUp = close > sma && snapshot.priceEma12 > snapshot.priceEma26
+    const crossDown = close < sma && snapshot.priceEma12 < snapshot.priceEma26
+    indicators.push({
+      tokenAddress,
+      indicatorType: 'moving_average',
+      timeframe,
+      value: sma,
+      signal: crossUp ? 'buy' : crossDown ? 'sell' : 'hold',
+      // 偏离均线 10% 视为满强度
+      strength: sma > 0 ? Math.min(100, Math.abs(close / sma - 1) * 1000) : 0,
+      timestamp,
+      metadata: {
+        sma20: sma,
+        ema12: snapshot.priceEma12,
+        ema26: snapshot.priceEma26
+      }
+    })
+  }
+
+  if (snapshot.volumeSma20 !== null && snapshot.volumeSma20 > 0) {
+    const ratio = snapshot.volume / snapshot.volumeSma20
+    const aboveEma = snapshot.priceEma12 !== null && close > snapshot.priceEma12
+    indicators.push({
+      tokenAddress,
+      indicatorType: 'volume_profile',
+      timeframe,
+      value: ratio,
+      // 放量时跟随价格方向
+      signal: ratio > 1.5 ? (aboveEma ? 'buy' : 'sell') : 'hold',
+      strength: Math.min(100, ratio * 25),
+      timestamp,
+      metadata: {
+        volume: snapshot.volume,
+        volumeSma20: snapshot.volumeSma20
+      }
+    })
+  }
+
+  return indicators
+}
+
+/**
+ * 查询代币各周期最新的指标快照
+ */
+export function queryLatestIndicatorSnapshots(db: DatabaseManager, tokenAddress: string): IndicatorSnapshot[] {
+  const rows = db.getDb().prepare(`
+    SELECT ti.*
+    FROM technical_indicators ti
+    WHERE ti.token_address = ?
+      AND ti.timeframe IS NOT NULL
+      AND ti.timestamp = (
+        SELECT MAX(timestamp) FROM technical_indicators
+        WHERE token_address = ti.token_address AND timeframe = ti.timeframe
+      )
+  `).all(tokenAddress) as any[]
+
+  return rows
+    .map(rowToIndicatorSnapshot)
+    .sort((a, b) => INDICATOR_TIMEFRAMES.indexOf(a.timeframe) - INDICATOR_TIMEFRAMES.indexOf(b.timeframe))
+}
+
+/**
+ * 数据库行转换为 IndicatorSnapshot
+ */
+export function rowToIndicatorSnapshot(row: any): IndicatorSnapshot {
+  return {
+    tokenAddress: row.token_address,
+    timeframe: row.timeframe,
+    timestamp: new Date(row.timestamp),
+    close: row.close_price,
+    volume: row.volume,
+    rsi14: row.rsi_14,
+    macdLine: row.macd_line,
+    macdSignal: row.macd_signal,
+    macdHistogram: row.macd_histogram,
+    bbUpper: row.bb_upper,
+    bbMiddle: row.bb_middle,
+    bbLower: row.bb_lower,
+    priceSma20: row.price_sma_20,
+    priceEma12: row.price_ema_12,
+    priceEma26: row.price_ema_26,
+    volumeSma20: row.volume_sma_20,
+    support: row.support_level,
+    resistance: row.resistance_level
+  }
+}
+
+/**
+ * 技术指标服务 - 定期基于K线计算各周期指标并写入 technical_indicators
+ */
+export class TechnicalIndicatorService {
+  private db: DatabaseManager
+  private isRunning: boolean = false
+  private calculationInterval?: NodeJS.Timeout
+  private upsertStmt: Statement | null = null
+
+  constructor(db: DatabaseManager) {
+    this.db = db
+    logger.info('📐 技术指标服务已初始化')
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return
+    this.isRunning = true
+
+    logger.info('📐 技术指标服务启动')
+
+    await this.calculateAll()
+
+    this.calculationInterval = setInterval(async () => {
+      try {
+        await this.calculateAll()
+      } catch (error) {
+        await enhancedErrorHandler.handleError(
+          error as Error,
+          'calculateAll定时任务'
+        )
+      }
+    }, 60000) // 1分钟
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false
+    if (this.calculationInterval) {
+      clearInterval(this.calculationInterval)
+    }
+    logger.info('📐 技术指标服务停止')
+  }
+
+  /**
+   * 计算并保存代币在某一周期的指标，K线不足时返回 null
+   */
+  calculate(tokenAddress: string, timeframe: IndicatorTimeframe): IndicatorSnapshot | null {
+    const candles = fillCandleGaps(
+      queryCandles(this.db, tokenAddress, timeframe, { limit: CANDLE_WINDOW }),
+      timeframe
+    )
+    const snapshot = calculateIndicatorSnapshot(tokenAddress, timeframe, candles)
+    if (snapshot) {
+      this.persist(snapshot)
+    }
+    return snapshot
+  }
+
+  /**
+   * 为最近有交易的代币计算全部周期的指标
+   */
+  private async calculateAll(): Promise<void> {
+    try {
+      const since = new Date(Date.now() - 15 * 60 * 1000).toISOString()
+      const tokens = this.db.getDb().prepare(`
+        SELECT DISTINCT token_address
+        FROM candles
+        WHERE interval = '1m' AND open_time >= ?
+        LIMIT 200
+      `).all(since) as { token_address: string }[]
+
+      let calculated = 0
+      for (const { token_address } of tokens) {
+        for (const timeframe of INDICATOR_TIMEFRAMES) {
+          if (this.calculate(token_address, timeframe)) calculated++
+        }
+      }
+
+      logger.debug(`📐 技术指标计算完成: ${tokens.length} 个代币, ${calculated} 组指标`)
+    } catch (error) {
+      await enhancedErrorHandler.handleError(
+        error as Error,
+        'calculateAll'
+      )
+    }
+  }
+
+  private persist(snapshot: IndicatorSnapshot): void {
+    // 同一根K线重复计算时覆盖，K线收盘后保留最终值
+    this.upsertStmt ??= this.db.getDb().prepare(`
+      INSERT OR REPLACE INTO technical_indicators (
+        token_address, timeframe, timestamp, close_price, volume,
+        rsi_14, macd_line, macd_signal, macd_histogram,
+        bb_upper, bb_middle, bb_lower,
+        price_sma_20, price_ema_12, price_ema_26, volume_sma_20,
+        support_level, resistance_level
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    this.upsertStmt.run(
+      snapshot.tokenAddress,
+      snapshot.timeframe,
+      snapshot.timestamp.toISOString(),
+      snapshot.close,
+      snapshot.volume,
+      snapshot.rsi14,
+      snapshot.macdLine,
+      snapshot.macdSignal,
+      snapshot.macdHistogram,
+      snapshot.bbUpper,
+      snapshot.bbMiddle,
+      snapshot.bbLower,
+      snapshot.priceSma20,
+      snapshot.priceEma12,
+      snapshot.priceEma26,
+      snapshot.volumeSma20,
+      snapshot.support,
+      snapshot.resistance
+    )
+  }
+}
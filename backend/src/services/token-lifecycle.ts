@@ -0,0 +1,299 @@
+import { DatabaseManager } from '../database/schema.js'
+import { logger } from '../utils/logger.js'
+import { enhancedErrorHandler } from '../utils/enhanced-error-handler.js'
+import { environment } from '../config/environment.js'
+import type { Statement } from 'better-sqlite3'
+import type { LifecycleState, LifecycleTransition } from '../../../shared/types/index.ts'
+import type { Server } from 'socket.io'
+
+// 允许的状态迁移
+const TRANSITIONS: Record<LifecycleState, LifecycleState[]> = {
+  new: ['trading', 'near_graduation', 'graduated', 'dormant'],
+  trading: ['near_graduation', 'graduated', 'dormant'],
+  near_graduation: ['graduated', 'dormant'],
+  graduated: [],
+  dormant: ['trading', 'near_graduation', 'graduated', 'dead'],
+  dead: ['trading', 'near_graduation', 'graduated']
+}
+
+// 不再参与定时扫描的状态
+const INACTIVE_LIFECYCLE_STATES: LifecycleState[] = ['dormant', 'dead']
+// 最后交易时间的批量写入间隔
+const TOUCH_FLUSH_INTERVAL = 1000
+// 内存中缓存的代币状态上限，超出后淘汰最久未访问的代币（需要时从数据库重新读取）
+const MAX_CACHED_STATES = 10000
+
+/**
+ * 代币生命周期管理 - 根据交易活跃度与曲线状态推进代币状态
+ */
+export class TokenLifecycleManager {
+  private db: DatabaseManager
+  private io?: Server
+  private isRunning: boolean = false
+  private checkInterval?: NodeJS.Timeout
+  private states: Map<string, LifecycleState> = new Map() // 按访问顺序排列，最久未访问的在前
+  private pendingTouches: Map<string, string> = new Map() // 代币 -> 尚未写入的最后交易时间
+  private touchTimer?: NodeJS.Timeout
+  private touchStmt: Statement | null = null
+  private latestEventTime = 0 // 已见到的最新交易事件时间
+  private latestEventSeenAt = 0 // 见到该交易时的本地时间
+
+  constructor(db: DatabaseManager) {
+    this.db = db
+    logger.info('♻️ 代币生命周期服务已初始化')
+  }
+
+  setSocketIO(io: Server): void {
+    this.io = io
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return
+    this.isRunning = true
+
+    logger.info('♻️ 代币生命周期服务启动')
+
+    this.touchTimer = setInterval(() => this.flushTouches(), TOUCH_FLUSH_INTERVAL)
+
+    // 启动时还没有交易，以库中最新的交易时间作为事件时钟起点
+    const latest = this.db.getDb().prepare('SELECT MAX(last_trade_at) AS latest FROM tokens')
+      .get() as { latest: string | null }
+    const latestTradeAt = latest.latest ? new Date(latest.latest).getTime() : NaN
+    if (Number.isFinite(latestTradeAt)) {
+      this.latestEventTime = latestTradeAt
+      this.latestEventSeenAt = Date.now()
+    }
+
+    await this.checkInactiveTokens()
+
+    this.checkInterval = setInterval(async () => {
+      try {
+        await this.checkInactiveTokens()
+      } catch (error) {
+        await enhancedErrorHandler.handleError(
+          error as Error,
+          'checkInactiveTokens定时任务'
+        )
+      }
+    }, environment.monitoring.lifecycleCheckInterval)
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval)
+    }
+    if (this.touchTimer) {
+      clearInterval(this.touchTimer)
+    }
+    this.flushTouches()
+    logger.info('♻️ 代币生命周期服务停止')
+  }
+
+  /**
+   * 记录一笔交易：缓存最后交易时间（定时批量写入），并唤醒新建 / 休眠 / 死亡的代币
+   */
+  recordTrade(tokenAddress: string, tradedAt: Date = new Date()): void {
+    try {
+      if (tradedAt.getTime() > this.latestEventTime) {
+        this.latestEventTime = tradedAt.getTime()
+        this.latestEventSeenAt = Date.now()
+      }
+
+      const tradedAtIso = tradedAt.toISOString()
+      const pending = this.pendingTouches.get(tokenAddress)
+      if (!pending || tradedAtIso > pending) {
+        this.pendingTouches.set(tokenAddress, tradedAtIso)
+      }
+
+      const state = this.getState(tokenAddress)
+      if (state === 'new') {
+        this.transition(tokenAddress, this.getActiveState(tokenAddress), '首笔交易')
+      } else if (state === 'dormant' || state === 'dead') {
+        this.transition(tokenAddress, this.getActiveState(tokenAddress), '交易恢复')
+      }
+    } catch (error) {
+      logger.error('记录代币交易活跃度失败:', error)
+    }
+  }
+
+  /**
+   * 将缓存的最后交易时间在单个事务中写入数据库
+   */
+  private flushTouches(): void {
+    if (this.pendingTouches.size === 0) return
+
+    const touches = Array.from(this.pendingTouches)
+    this.pendingTouches.clear()
+
+    try {
+      const db = this.db.getDb()
+      // 乱序到达的旧交易不回退最后交易时间
+      this.touchStmt ??= db.prepare(`
+        UPDATE tokens SET last_trade_at = MAX(COALESCE(last_trade_at, ''), ?) WHERE address = ?
+      `)
+      const stmt = this.touchStmt
+      db.transaction(() => {
+        for (const [tokenAddress, tradedAt] of touches) {
+          stmt.run(tradedAt, tokenAddress)
+        }
+      })()
+    } catch (error) {
+      for (const [tokenAddress, tradedAt] of touches) {
+        const newer = this.pendingTouches.get(tokenAddress)
+        if (!newer || tradedAt > newer) this.pendingTouches.set(tokenAddress, tradedAt)
+      }
+      logger.error('写入代币最后交易时间失败:', error)
+    }
+  }
+
+  /**
+   * 获取代币当前状态（优先内存，其次数据库）
+   */
+  getState(tokenAddress: string): LifecycleState | null {
+    const cached = this.states.get(tokenAddress)
+    if (cached) {
+      this.cacheState(tokenAddress, cached)
+      return cached
+    }
+
+    const row = this.db.getDb()
+      .prepare('SELECT lifecycle_state FROM tokens WHERE address = ?')
+      .get(tokenAddress) as { lifecycle_state: LifecycleState | null } | undefined
+    if (!row) return null
+
+    const state = row.lifecycle_state || 'new'
+    this.cacheState(tokenAddress, state)
+    return state
+  }
+
+  /**
+   * 写入状态缓存并标记为最近访问，超出上限时淘汰最久未访问的代币
+   */
+  private cacheState(tokenAddress: string, state: LifecycleState): void {
+    this.states.delete(tokenAddress)
+    this.states.set(tokenAddress, state)
+
+    while (this.states.size > MAX_CACHED_STATES) {
+      const oldest = this.states.keys().next().value as string
+      this.states.delete(oldest)
+    }
+  }
+
+  /**
+   * 代币恢复交易时应处的状态：按曲线进度判断是否已接近毕业，而不是一律回到 trading
+   */
+  private getActiveState(tokenAddress: string): LifecycleState {
+    const row = this.db.getDb().prepare(`
+      SELECT t.graduation_status, b.progress
+      FROM tokens t
+      LEFT JOIN bonding_curve_state b ON b.token_address = t.address
+      WHERE t.address = ?
+    `).get(tokenAddress) as { graduation_status: string | null, progress: number | null } | undefined
+
+    if (row?.graduation_status === 'graduated' || row?.graduation_status === 'migrated') return 'graduated'
+    if (row?.graduation_status === 'near_graduation' || (row?.progress ?? 0) >= environment.alerts.graduation.nearProgress) {
+      return 'near_graduation'
+    }
+    return 'trading'
+  }
+
+  /**
+   * 迁移代币状态，不允许的迁移会被忽略并返回 false
+   */
+  transition(tokenAddress: string, toState: LifecycleState, reason: string): boolean {
+    const fromState = this.getState(tokenAddress)
+    if (!fromState || fromState === toState) return false
+
+    if (!TRANSITIONS[fromState].includes(toState)) {
+      logger.debug(`♻️ 忽略不允许的状态迁移: ${tokenAddress} ${fromState} -> ${toState}`)
+      return false
+    }
+
+    const transition: LifecycleTransition = {
+      tokenAddress,
+      fromState,
+      toState,
+      reason,
+      timestamp: new Date()
+    }
+
+    const db = this.db.getDb()
+    db.transaction(() => {
+      // 休眠与死亡的代币同时停用，定时任务按 is_active 过滤
+      db.prepare(`
+        UPDATE tokens
+        SET lifecycle_state = ?, is_active = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE address = ?
+      `).run(toState, INACTIVE_LIFECYCLE_STATES.includes(toState) ? 0 : 1, tokenAddress)
+
+      db.prepare(`
+        INSERT INTO token_lifecycle_history (token_address, from_state, to_state, reason, timestamp)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(tokenAddress, fromState, toState, reason, transition.timestamp.toISOString())
+    })()
+
+    this.cacheState(tokenAddress, toState)
+    logger.info(`♻️ 代币状态变更: ${tokenAddress} ${fromState} -> ${toState} (${reason})`)
+
+    this.io?.to(`token:${tokenAddress}`).emit('token_lifecycle', transition)
+    return true
+  }
+
+  /**
+   * 事件时钟：最新交易事件时间加上此后经过的本地时间。
+   * last_trade_at 是事件时间，回放旧数据时按它判断空闲，避免代币在休眠与交易之间反复切换
+   */
+  private now(): number {
+    if (this.latestEventTime === 0) return Date.now()
+    return this.latestEventTime + (Date.now() - this.latestEventSeenAt)
+  }
+
+  /**
+   * 扫描长时间无交易的代币，标记为休眠或死亡
+   */
+  private async checkInactiveTokens(): Promise<void> {
+    try {
+      const { tokenDormantAfter, tokenDeadAfter } = environment.monitoring
+      const now = this.now()
+
+      // 先写入缓存的最后交易时间，避免刚有交易的代币被判定为休眠
+      this.flushTouches()
+
+      const rows = this.db.getDb().prepare(`
+        SELECT address, lifecycle_state, COALESCE(last_trade_at, created_at) AS last_activity
+        FROM tokens
+        WHERE lifecycle_state IN ('new', 'trading', 'near_graduation', 'dormant')
+      `).all() as { address: string, lifecycle_state: LifecycleState, last_activity: string }[]
+
+      let dormant = 0
+      let dead = 0
+
+      for (const row of rows) {
+        // 只刷新已缓存的代币，扫描本身不扩大缓存
+        if (this.states.has(row.address)) this.states.set(row.address, row.lifecycle_state)
+
+        const lastActivity = new Date(row.last_activity).getTime()
+        if (isNaN(lastActivity)) continue
+        const idle = now - lastActivity
+
+        if (row.lifecycle_state === 'dormant') {
+          if (idle > tokenDeadAfter && this.transition(row.address, 'dead', `${Math.round(idle / 3600000)} 小时无交易`)) {
+            dead++
+          }
+        } else if (idle > tokenDormantAfter && this.transition(row.address, 'dormant', `${Math.round(idle / 60000)} 分钟无交易`)) {
+          dormant++
+        }
+      }
+
+      if (dormant > 0 || dead > 0) {
+        logger.info(`♻️ 生命周期检查: ${dormant} 个代币休眠, ${dead} 个代币死亡`)
+      }
+    } catch (error) {
+      await enhancedErrorHandler.handleError(
+        error as Error,
+        'checkInactiveTokens'
+      )
+    }
+  }
+}
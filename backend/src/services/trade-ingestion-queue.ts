@@ -0,0 +1,254 @@
+import { DatabaseManager } from '../database/schema.js'
+import { logger } from '../utils/logger.js'
+import type { Statement } from 'better-sqlite3'
+
+// 待写入 trades 表的一行
+export interface TradeRow {
+  tokenAddress: string
+  signature: string
+  traderAddress: string
+  isBuy: boolean
+  solAmount: number
+  tokenAmount: number
+  pricePerToken: number
+  timestamp: string // 事件时间
+  receivedAt: string // 本地接收时间
+}
+
+export interface TradeIngestionOptions {
+  batchSize: number // 单个事务最多写入的行数
+  flushInterval: number // 定时刷新间隔（毫秒）
+  maxQueueSize: number // 队列上限，超出后丢弃新到的交易
+}
+
+export interface TradeIngestionMetrics {
+  depth: number
+  maxDepth: number
+  lagMs: number // 队首交易已等待的时间
+  enqueued: number
+  inserted: number
+  duplicates: number
+  dropped: number
+  batches: number
+  flushErrors: number
+  backpressureEvents: number
+  backpressure: boolean
+  lastBatchSize: number
+  lastFlushDurationMs: number
+}
+
+interface QueuedTrade {
+  row: TradeRow
+  enqueuedAt: number
+}
+
+/**
+ * 交易写入队列 - 有界内存队列，按批在单个事务中写入数据库
+ */
+export class TradeIngestionQueue {
+  private db: DatabaseManager
+  private options: TradeIngestionOptions
+  private queue: QueuedTrade[] = []
+  private head = 0
+  private insertStmt: Statement | null = null
+  private flushTimer?: NodeJS.Timeout
+  private flushScheduled = false
+  private flushing = false
+  private isRunning = false
+  private highWatermark: number
+  private consecutiveFailures = 0
+
+  private metrics: Omit<TradeIngestionMetrics, 'depth' | 'lagMs'> = {
+    maxDepth: 0,
+    enqueued: 0,
+    inserted: 0,
+    duplicates: 0,
+    dropped: 0,
+    batches: 0,
+    flushErrors: 0,
+    backpressureEvents: 0,
+    backpressure: false,
+    lastBatchSize: 0,
+    lastFlushDurationMs: 0
+  }
+
+  constructor(db: DatabaseManager, options: TradeIngestionOptions) {
+    this.db = db
+    this.options = options
+    // 队列超过 3/4 时视为背压，立即刷新而不等待定时器
+    this.highWatermark = Math.floor(options.maxQueueSize * 0.75)
+  }
+
+  start(): void {
+    if (this.isRunning) return
+    this.isRunning = true
+
+    this.flushTimer = setInterval(() => this.scheduleFlush(), this.options.flushInterval)
+  }
+
+  /**
+   * 停止定时刷新并写入剩余交易
+   */
+  async stop(): Promise<void> {
+    this.isRunning = false
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer)
+    }
+
+    while (this.depth() > 0) {
+      if (!this.flushBatch()) break
+    }
+  }
+
+  /**
+   * 加入队列，队列已满时丢弃并返回 false
+   */
+  enqueue(row: TradeRow): boolean {
+    const depth = this.depth()
+    if (depth >= this.options.maxQueueSize) {
+      this.metrics.dropped++
+      if (this.metrics.dropped % 1000 === 1) {
+        logger.warn(`⚠️ 交易写入队列已满 (${depth})，累计丢弃 ${this.metrics.dropped} 笔交易`)
+      }
+      return false
+    }
+
+    this.queue.push({ row, enqueuedAt: Date.now() })
+    this.metrics.enqueued++
+    this.metrics.maxDepth = Math.max(this.metrics.maxDepth, depth + 1)
+
+    if (depth + 1 >= this.highWatermark) {
+      if (!this.metrics.backpressure) {
+        this.metrics.backpressure = true
+        this.metrics.backpressureEvents++
+        logger.warn(`⚠️ 交易写入队列积压: ${depth + 1}/${this.options.maxQueueSize}`)
+      }
+      this.scheduleFlush()
+    } else if (depth + 1 >= this.options.batchSize) {
+      this.scheduleFlush()
+    }
+
+    return true
+  }
+
+  /**
+   * 获取队列指标
+   */
+  getMetrics(): TradeIngestionMetrics {
+    const oldest = this.queue[this.head]
+    return {
+      ...this.metrics,
+      depth: this.depth(),
+      lagMs: oldest ? Date.now() - oldest.enqueuedAt : 0
+    }
+  }
+
+  private depth(): number {
+    return this.queue.length - this.head
+  }
+
+  /**
+   * 在下一轮事件循环中刷新，批次之间让出事件循环
+   */
+  private scheduleFlush(): void {
+    if (this.flushScheduled || this.flushing || this.depth() === 0) return
+    this.flushScheduled = true
+
+    setImmediate(() => {
+      this.flushScheduled = false
+      if (this.flushBatch() && this.depth() >= this.options.batchSize) {
+        this.scheduleFlush()
+      }
+    })
+  }
+
+  /**
+   * 写入一批交易，返回是否写入成功
+   */
+  private flushBatch(): boolean {
+    const count = Math.min(this.depth(), this.options.batchSize)
+    if (count === 0 || this.flushing) return true
+
+    this.flushing = true
+    const batch = this.queue.slice(this.head, this.head + count)
+    const startedAt = Date.now()
+
+    try {
+      const stmt = this.getInsertStatement()
+      let inserted = 0
+
+      this.db.getDb().transaction((items: QueuedTrade[]) => {
+        for (const { row } of items) {
+          const result = stmt.run(
+            row.tokenAddress,
+            row.signature,
+            row.traderAddress,
+            row.isBuy ? 1 : 0,
+            row.solAmount,
+            row.tokenAmount,
+            row.pricePerToken,
+            row.timestamp,
+            row.receivedAt
+          )
+          inserted += result.changes
+        }
+      })(batch)
+
+      this.head += count
+      this.compact()
+
+      this.metrics.inserted += inserted
+      this.metrics.duplicates += count - inserted
+      this.metrics.batches++
+      this.metrics.lastBatchSize = count
+      this.metrics.lastFlushDurationMs = Date.now() - startedAt
+      this.consecutiveFailures = 0
+
+      if (this.metrics.backpressure && this.depth() < this.highWatermark) {
+        this.metrics.backpressure = false
+        logger.info(`✅ 交易写入队列积压已缓解: ${this.depth()}`)
+      }
+
+      logger.debug(`💾 批量写入交易: ${inserted}/${count} (${this.metrics.lastFlushDurationMs}ms)`)
+      return true
+    } catch (error) {
+      // 整批回滚，保留在队列中等待下次重试；连续失败时丢弃该批，避免阻塞后续交易
+      this.metrics.flushErrors++
+      this.consecutiveFailures++
+      logger.error('❌ 批量写入交易失败:', error)
+
+      if (this.consecutiveFailures >= 3) {
+        this.head += count
+        this.compact()
+        this.metrics.dropped += count
+        this.consecutiveFailures = 0
+        logger.error(`❌ 连续写入失败，丢弃 ${count} 笔交易`)
+      }
+      return false
+    } finally {
+      this.flushing = false
+    }
+  }
+
+  /**
+   * 已写入的部分过多时截断数组，避免队列无限增长
+   */
+  private compact(): void {
+    if (this.head > 0 && (this.head >= this.queue.length || this.head > 10000)) {
+      this.queue = this.queue.slice(this.head)
+      this.head = 0
+    }
+  }
+
+  private getInsertStatement(): Statement {
+    if (!this.insertStmt) {
+      this.insertStmt = this.db.getDb().prepare(`
+        INSERT OR IGNORE INTO trades (
+          token_address, transaction_signature, trader_address,
+          is_buy, sol_amount, token_amount, price_per_token, timestamp, received_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+    }
+    return this.insertStmt
+  }
+}
@@ -0,0 +1,502 @@
+import { DatabaseManager } from '../database/schema.js'
+import { logger } from '../utils/logger.js'
+import { enhancedErrorHandler } from '../utils/enhanced-error-handler.js'
+import { environment } from '../config/environment.js'
+import { getSolPriceProvider } from './sol-price.js'
+import type { Server as SocketIOServer } from 'socket.io'
+import type { Statement } from 'better-sqlite3'
+
+export type MetricsWindow = '1m' | '5m' | '15m' | '1h' | '24h'
+
+// 各滚动窗口的毫秒数
+export const METRICS_WINDOWS: Record<MetricsWindow, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000
+}
+
+const WINDOWS = Object.keys(METRICS_WINDOWS) as MetricsWindow[]
+
+// 1小时内的窗口使用10秒桶，24小时窗口与日环比使用小时桶
+const FINE_BUCKET = 10 * 1000
+const FINE_RETENTION = 65 * 60 * 1000
+const HOUR_BUCKET = 60 * 60 * 1000
+const HOUR_RETENTION = 48 * 60 * 60 * 1000
+
+export interface MetricsTrade {
+  tokenAddress: string
+  trader?: string
+  price: number // SOL/代币
+  solAmount: number
+  isBuy: boolean
+  timestamp: number // 事件时间（毫秒）
+  liquidity?: number // 联合曲线真实 SOL 储备
+}
+
+export interface WindowMetrics {
+  priceChange: number | null // 百分比，窗口起点无价格时为 null
+  volume: number
+  buyVolume: number
+  sellVolume: number
+  txCount: number
+  buyCount: number
+  sellCount: number
+  uniqueTraders: number
+}
+
+export interface TokenMetrics {
+  tokenAddress: string
+  price: number
+  liquidity: number | null
+  volumeChange: number // 24小时交易量较前24小时的变化（%）
+  lastTradeAt: Date
+  windows: Record<MetricsWindow, WindowMetrics>
+}
+
+interface Bucket {
+  start: number
+  volume: number
+  buyVolume: number
+  sellVolume: number
+  buyCount: number
+  sellCount: number
+  close: number
+  closeTime: number
+}
+
+interface TokenState {
+  fine: Bucket[] // 按起点升序
+  hourly: Bucket[]
+  traders: Map<string, number> // 交易者 -> 最近交易时间
+  firstPrice: number
+  firstTradeAt: number
+  price: number
+  lastTradeAt: number
+  liquidity: number | null
+  checkpointLiquidity: number | null
+  checkpointAt: number
+  dirty: boolean
+}
+
+/**
+ * 交易指标引擎 - 在内存中按交易增量维护各滚动窗口的价格变化、交易量、笔数与交易者数，
+ * 定期只为有变化的代币写入 price_data / trading_data，避免反复扫描交易表
+ */
+export class TradeMetricsEngine {
+  private db: DatabaseManager
+  private io: SocketIOServer | null = null
+  private isRunning: boolean = false
+  private checkpointTimer?: NodeJS.Timeout
+  private states: Map<string, TokenState> = new Map()
+  private latestEventTime = 0 // 已见到的最新事件时间
+  private latestEventSeenAt = 0 // 见到该事件时的本地时间
+  private priceStmt: Statement | null = null
+  private tradingStmt: Statement | null = null
+
+  constructor(db: DatabaseManager) {
+    this.db = db
+    logger.info('📊 交易指标引擎已初始化')
+  }
+
+  setSocketIO(io: SocketIOServer): void {
+    this.io = io
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return
+    this.isRunning = true
+
+    logger.info('📊 交易指标引擎启动')
+
+    // 重启后从最近48小时的交易恢复窗口状态，只在启动时扫描一次
+    this.warmUp()
+
+    this.checkpointTimer = setInterval(() => this.checkpoint(), environment.monitoring.metricsCheckpointInterval)
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false
+    if (this.checkpointTimer) {
+      clearInterval(this.checkpointTimer)
+      this.checkpointTimer = undefined
+    }
+    this.checkpoint()
+    logger.info('📊 交易指标引擎停止')
+  }
+
+  /**
+   * 记录一笔交易（迟到的交易按事件时间归入对应的桶）
+   */
+  recordTrade(trade: MetricsTrade): void {
+    const state = this.apply(trade)
+    if (!state) return
+
+    // 现价与窗口起点价格都取成交均价；曲线现价只在交易后的瞬间成立，混用会让涨跌幅系统性偏高
+    if (trade.timestamp >= state.lastTradeAt && trade.liquidity !== undefined) {
+      state.liquidity = trade.liquidity
+    }
+    state.dirty = true
+  }
+
+  /**
+   * 代币当前的窗口指标，未跟踪时返回 null
+   */
+  getMetrics(tokenAddress: string, now: number = this.now()): TokenMetrics | null {
+    const state = this.states.get(tokenAddress)
+    return state ? buildMetrics(tokenAddress, state, now) : null
+  }
+
+  getTrackedCount(): number {
+    return this.states.size
+  }
+
+  /**
+   * 事件时钟：最新事件时间加上此后经过的本地时间。
+   * 实时数据下约等于 Date.now()，回放旧数据时窗口与保留期按数据本身的时间推进
+   */
+  private now(): number {
+    if (this.latestEventTime === 0) return Date.now()
+    return this.latestEventTime + (Date.now() - this.latestEventSeenAt)
+  }
+
+  /**
+   * 将交易计入内存状态，超出保留范围的交易被忽略
+   */
+  private apply(trade: MetricsTrade): TokenState | null {
+    const { tokenAddress, price, timestamp } = trade
+    if (timestamp > this.latestEventTime) {
+      this.latestEventTime = timestamp
+      this.latestEventSeenAt = Date.now()
+    }
+    const now = this.now()
+    if (!(price > 0) || timestamp < now - HOUR_RETENTION) return null
+
+    let state = this.states.get(tokenAddress)
+    if (!state) {
+      state = {
+        fine: [],
+        hourly: [],
+        traders: new Map(),
+        firstPrice: price,
+        firstTradeAt: timestamp,
+        price,
+        lastTradeAt: timestamp,
+        liquidity: null,
+        checkpointLiquidity: null,
+        checkpointAt: 0,
+        dirty: false
+      }
+      this.states.set(tokenAddress, state)
+    }
+
+    if (timestamp < state.firstTradeAt) {
+      state.firstPrice = price
+      state.firstTradeAt = timestamp
+    }
+    if (timestamp >= state.lastTradeAt) {
+      state.price = price
+      state.lastTradeAt = timestamp
+    }
+
+    if (timestamp >= now - FINE_RETENTION) {
+      addToBucket(state.fine, FINE_BUCKET, trade)
+    }
+    addToBucket(state.hourly, HOUR_BUCKET, trade)
+
+    if (trade.trader) {
+      state.traders.set(trade.trader, Math.max(state.traders.get(trade.trader) ?? 0, timestamp))
+    }
+
+    return state
+  }
+
+  /**
+   * 从交易表恢复最近48小时的窗口状态
+   */
+  private warmUp(): void {
+    try {
+      const since = new Date(Date.now() - HOUR_RETENTION).toISOString()
+      const rows = this.db.getDb().prepare(`
+        SELECT t.token_address, t.trader_address, t.sol_amount, t.token_amount, t.price_per_token, t.is_buy, t.timestamp,
+               b.real_sol_reserves
+        FROM trades t
+        LEFT JOIN bonding_curve_state b ON b.token_address = t.token_address
+        WHERE t.timestamp > ?
+        ORDER BY t.timestamp ASC
+      `).iterate(since) as IterableIterator<any>
+
+      let count = 0
+      for (const row of rows) {
+        const state = this.apply({
+          tokenAddress: row.token_address,
+          trader: row.trader_address,
+          price: row.token_amount > 0 ? row.sol_amount / row.token_amount : row.price_per_token,
+          solAmount: row.sol_amount,
+          isBuy: Boolean(row.is_buy),
+          timestamp: new Date(row.timestamp).getTime()
+        })
+        if (!state) continue
+
+        count++
+        if (row.real_sol_reserves !== null) {
+          state.liquidity = row.real_sol_reserves
+          state.checkpointLiquidity = row.real_sol_reserves
+        }
+      }
+
+      // 恢复出的状态与上次写入的数据一致，从现在开始计算是否需要再次写入
+      const now = this.now()
+      this.states.forEach(state => {
+        state.checkpointAt = now
+      })
+
+      logger.info(`📊 已从 ${count} 笔交易恢复 ${this.states.size} 个代币的窗口指标`)
+    } catch (error) {
+      enhancedErrorHandler.handleError(error as Error, 'TradeMetricsEngine.warmUp')
+    }
+  }
+
+  /**
+   * 写入有新交易或窗口刚好滚过最后一笔交易的代币，并淘汰超过48小时无交易的代币
+   */
+  private checkpoint(): void {
+    const now = this.now()
+    const due: [string, TokenState][] = []
+
+    for (const [tokenAddress, state] of this.states) {
+      prune(state, now)
+
+      if (state.dirty || WINDOWS.some(window => isSettling(state, METRICS_WINDOWS[window], now))) {
+        due.push([tokenAddress, state])
+      } else if (state.lastTradeAt < now - HOUR_RETENTION) {
+        this.states.delete(tokenAddress)
+      }
+    }
+
+    if (due.length === 0) return
+
+    try {
+      const db = this.db.getDb()
+      const timestamp = new Date(now).toISOString()
+      const written: TokenMetrics[] = []
+
+      db.transaction(() => {
+        for (const [tokenAddress, state] of due) {
+          const metrics = buildMetrics(tokenAddress, state, now)
+          this.writeMetrics(metrics, state, timestamp)
+          written.push(metrics)
+        }
+      })()
+
+      due.forEach(([, state]) => {
+        state.dirty = false
+        state.checkpointAt = now
+        state.checkpointLiquidity = state.liquidity
+      })
+
+      if (this.io) {
+        const solPrice = getSolPriceProvider()
+        for (const metrics of written) {
+          const rate = solPrice.getPriceAt(metrics.lastTradeAt)
+          this.io.to(`token:${metrics.tokenAddress}`).emit('token_metrics', {
+            ...metrics,
+            priceUsd: metrics.price * rate,
+            liquidityUsd: metrics.liquidity === null ? null : metrics.liquidity * rate,
+            volume24hUsd: metrics.windows['24h'].volume * rate
+          })
+        }
+      }
+
+      logger.debug(`📊 写入 ${due.length} 个代币的窗口指标，内存中跟踪 ${this.states.size} 个代币`)
+    } catch (error) {
+      // 写入失败时保留 dirty 标记，下次重试
+      enhancedErrorHandler.handleError(error as Error, 'TradeMetricsEngine.checkpoint', { tokens: due.length })
+    }
+  }
+
+  private writeMetrics(metrics: TokenMetrics, state: TokenState, timestamp: string): void {
+    const db = this.db.getDb()
+    this.priceStmt ??= db.prepare(`
+      INSERT INTO price_data (
+        token_address, price, price_change_1m, price_change_5m,
+        price_change_15m, price_change_1h, price_change_24h, timestamp
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    this.tradingStmt ??= db.prepare(`
+      INSERT INTO trading_data (
+        token_address, volume_24h, volume_change, tx_count_24h,
+        active_traders, liquidity, liquidity_change, timestamp
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+
+    const { windows } = metrics
+    this.priceStmt.run(
+      metrics.tokenAddress,
+      metrics.price,
+      windows['1m'].priceChange,
+      windows['5m'].priceChange,
+      windows['15m'].priceChange,
+      windows['1h'].priceChange,
+      windows['24h'].priceChange,
+      timestamp
+    )
+
+    const previousLiquidity = state.checkpointLiquidity ?? 0
+    const liquidity = state.liquidity ?? 0
+    const liquidityChange = previousLiquidity > 0 ? ((liquidity - previousLiquidity) / previousLiquidity) * 100 : 0
+
+    this.tradingStmt.run(
+      metrics.tokenAddress,
+      windows['24h'].volume,
+      metrics.volumeChange,
+      windows['24h'].txCount,
+      windows['24h'].uniqueTraders,
+      liquidity,
+      liquidityChange,
+      timestamp
+    )
+  }
+}
+
+/**
+ * 将交易计入桶序列，桶按起点升序，迟到交易插入到对应位置
+ */
+function addToBucket(buckets: Bucket[], size: number, trade: MetricsTrade): void {
+  const start = Math.floor(trade.timestamp / size) * size
+
+  let index = buckets.length - 1
+  while (index >= 0 && buckets[index].start > start) index--
+
+  let bucket = index >= 0 ? buckets[index] : undefined
+  if (!bucket || bucket.start !== start) {
+    bucket = {
+      start,
+      volume: 0,
+      buyVolume: 0,
+      sellVolume: 0,
+      buyCount: 0,
+      sellCount: 0,
+      close: trade.price,
+      closeTime: trade.timestamp
+    }
+    buckets.splice(index + 1, 0, bucket)
+  }
+
+  bucket.volume += trade.solAmount
+  if (trade.isBuy) {
+    bucket.buyVolume += trade.solAmount
+    bucket.buyCount++
+  } else {
+    bucket.sellVolume += trade.solAmount
+    bucket.sellCount++
+  }
+  if (trade.timestamp >= bucket.closeTime) {
+    bucket.close = trade.price
+    bucket.closeTime = trade.timestamp
+  }
+}
+
+/**
+ * 丢弃超出保留范围的桶和交易者
+ */
+function prune(state: TokenState, now: number): void {
+  const fineCutoff = now - FINE_RETENTION
+  const fineIndex = state.fine.findIndex(bucket => bucket.start + FINE_BUCKET > fineCutoff)
+  state.fine.splice(0, fineIndex === -1 ? state.fine.length : fineIndex)
+
+  const hourCutoff = now - HOUR_RETENTION
+  const hourIndex = state.hourly.findIndex(bucket => bucket.start + HOUR_BUCKET > hourCutoff)
+  state.hourly.splice(0, hourIndex === -1 ? state.hourly.length : hourIndex)
+
+  const traderCutoff = now - METRICS_WINDOWS['24h']
+  for (const [trader, lastSeen] of state.traders) {
+    if (lastSeen < traderCutoff) state.traders.delete(trader)
+  }
+}
+
+/**
+ * 上次写入后窗口是否滚过了最后一笔交易（此时窗口数据归零，需要再写一次）
+ */
+function isSettling(state: TokenState, window: number, now: number): boolean {
+  const expiresAt = state.lastTradeAt + window
+  return expiresAt > state.checkpointAt && expiresAt <= now
+}
+
+function buildMetrics(tokenAddress: string, state: TokenState, now: number): TokenMetrics {
+  const windows = {} as Record<MetricsWindow, WindowMetrics>
+  for (const window of WINDOWS) {
+    windows[window] = windowMetrics(state, METRICS_WINDOWS[window], now)
+  }
+
+  // 日环比：小时桶按结束时间划分为最近24小时与前24小时
+  const dayAgo = now - METRICS_WINDOWS['24h']
+  const previousVolume = state.hourly
+    .filter(bucket => bucket.start + HOUR_BUCKET <= dayAgo)
+    .reduce((sum, bucket) => sum + bucket.volume, 0)
+  const volumeChange = previousVolume > 0 ? ((windows['24h'].volume - previousVolume) / previousVolume) * 100 : 0
+
+  return {
+    tokenAddress,
+    price: state.price,
+    liquidity: state.liquidity,
+    volumeChange,
+    lastTradeAt: new Date(state.lastTradeAt),
+    windows
+  }
+}
+
+function windowMetrics(state: TokenState, window: number, now: number): WindowMetrics {
+  const cutoff = now - window
+  const size = window <= METRICS_WINDOWS['1h'] ? FINE_BUCKET : HOUR_BUCKET
+  const buckets = size === FINE_BUCKET ? state.fine : state.hourly
+
+  const result: WindowMetrics = {
+    priceChange: null,
+    volume: 0,
+    buyVolume: 0,
+    sellVolume: 0,
+    txCount: 0,
+    buyCount: 0,
+    sellCount: 0,
+    uniqueTraders: 0
+  }
+
+  // 与窗口起点相交的桶计入窗口，误差不超过一个桶
+  for (const bucket of buckets) {
+    if (bucket.start + size <= cutoff) continue
+    result.volume += bucket.volume
+    result.buyVolume += bucket.buyVolume
+    result.sellVolume += bucket.sellVolume
+    result.buyCount += bucket.buyCount
+    result.sellCount += bucket.sellCount
+  }
+  result.txCount = result.buyCount + result.sellCount
+
+  for (const lastSeen of state.traders.values()) {
+    if (lastSeen > cutoff) result.uniqueTraders++
+  }
+
+  const reference = priceAt(state, cutoff)
+  if (reference > 0) {
+    result.priceChange = ((state.price - reference) / reference) * 100
+  }
+
+  return result
+}
+
+/**
+ * 窗口起点时的价格：起点之前最后一笔成交价；代币晚于起点才开始交易时取首笔成交价
+ */
+function priceAt(state: TokenState, time: number): number {
+  if (state.firstTradeAt > time) return state.firstPrice
+
+  for (const buckets of [state.fine, state.hourly]) {
+    for (let i = buckets.length - 1; i >= 0; i--) {
+      if (buckets[i].closeTime <= time) return buckets[i].close
+    }
+  }
+
+  return state.firstPrice
+}
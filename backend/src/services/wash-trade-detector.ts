@@ -0,0 +1,365 @@
+import { DatabaseManager } from '../database/schema.js'
+import { logger } from '../utils/logger.js'
+import { enhancedErrorHandler } from '../utils/enhanced-error-handler.js'
+import { environment } from '../config/environment.js'
+import type { Statement } from 'better-sqlite3'
+
+export interface WashTrade {
+  wallet: string
+  isBuy: boolean
+  solAmount: number
+  timestamp: number // 毫秒
+}
+
+export interface WashTradeResult {
+  totalVolume: number
+  washVolume: number
+  txCount: number
+  washTxCount: number
+  traderCount: number
+  washWallets: string[] // 参与对倒的钱包
+  selfLoops: number // 同一钱包的买卖往返次数
+  clusterLoops: number // 钱包组之间的买卖往返次数
+}
+
+export interface WashTradeStats extends Omit<WashTradeResult, 'washWallets'> {
+  tokenAddress: string
+  washWalletCount: number
+  authenticity: number // 真实成交额占比 0-1
+  updatedAt: Date
+}
+
+// 买卖金额相差不超过该比例视为相近
+const SIZE_TOLERANCE = 0.2
+// 按金额的对数分桶，相近的金额只会落在相邻的桶中
+const BUCKET_BASE = Math.log(1 / (1 - SIZE_TOLERANCE))
+// 同一钱包至少往返这么多次才算对倒（一次快速买卖可能只是正常短线）
+const MIN_SELF_LOOPS = 2
+// 两个钱包之间至少往返这么多次才算钱包组对倒
+const MIN_CLUSTER_LOOPS = 3
+// 每个代币最多分析最近这么多笔成交
+const MAX_TRADES_PER_TOKEN = 5000
+// 每轮事件循环分析的代币数，分批让出事件循环
+const TOKENS_PER_TICK = 20
+const MAX_TOKENS_PER_RUN = 500
+
+/**
+ * 对倒交易检测 - 识别同一钱包或固定钱包组在短时间内买卖相近金额的往返交易，
+ * 计算代币 24 小时成交额的真实占比，供各项评分剔除虚假成交量
+ */
+export class WashTradeDetector {
+  private db: DatabaseManager
+  private isRunning: boolean = false
+  private analyzing: boolean = false
+  private lastAnalysisAt: string = new Date(0).toISOString() // 上次分析时最新的 last_trade_at
+  private analysisTimer?: NodeJS.Timeout
+  private upsertStmt: Statement | null = null
+
+  constructor(db: DatabaseManager) {
+    this.db = db
+    logger.info('🧼 对倒检测服务已初始化')
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return
+    this.isRunning = true
+
+    logger.info(`🧼 对倒检测服务启动 (往返窗口: ${environment.monitoring.washTradeWindow}ms)`)
+
+    this.analyzeActiveTokens()
+
+    this.analysisTimer = setInterval(() => this.analyzeActiveTokens(), environment.monitoring.washAnalysisInterval)
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false
+    if (this.analysisTimer) {
+      clearInterval(this.analysisTimer)
+    }
+    logger.info('🧼 对倒检测服务停止')
+  }
+
+  /**
+   * 重新分析上次分析以来有新成交的代币，按 last_trade_at 升序分页，超出单轮上限的代币留到下一轮；
+   * 分批执行，每批的结果在一个事务中写入
+   */
+  private analyzeActiveTokens(): void {
+    if (this.analyzing) return
+
+    try {
+      const tokens = this.db.getDb().prepare(`
+        SELECT address, last_trade_at FROM tokens
+        WHERE last_trade_at > ?
+        ORDER BY last_trade_at ASC
+        LIMIT ?
+      `).all(this.lastAnalysisAt, MAX_TOKENS_PER_RUN) as { address: string, last_trade_at: string }[]
+      if (tokens.length === 0) return
+      // 以事件时间为游标，回放历史数据时同样适用
+      this.lastAnalysisAt = tokens[tokens.length - 1].last_trade_at
+
+      this.analyzing = true
+      let flagged = 0
+      const runBatch = (offset: number) => {
+        if (!this.isRunning) {
+          this.analyzing = false
+          return
+        }
+        try {
+          const batch = tokens.slice(offset, offset + TOKENS_PER_TICK)
+          const results = batch
+            .map(token => this.analyze(token.address, new Date(token.last_trade_at).getTime()))
+            .filter((stats): stats is WashTradeStats => stats !== null)
+          this.saveStats(results)
+          flagged += results.filter(stats => stats.authenticity < 0.8).length
+        } catch (error) {
+          enhancedErrorHandler.handleError(error as Error, 'WashTradeDetector.analyzeActiveTokens')
+        }
+
+        if (offset + TOKENS_PER_TICK < tokens.length) {
+          setImmediate(() => runBatch(offset + TOKENS_PER_TICK))
+          return
+        }
+        this.analyzing = false
+        if (flagged > 0) {
+          logger.debug(`🧼 ${flagged}/${tokens.length} 个活跃代币存在明显对倒成交`)
+        }
+      }
+      runBatch(0)
+    } catch (error) {
+      this.analyzing = false
+      enhancedErrorHandler.handleError(error as Error, 'WashTradeDetector.analyzeActiveTokens')
+    }
+  }
+
+  /**
+   * 分析代币截至 until（事件时间，默认当前时间）的 24 小时内（至多最近 MAX_TRADES_PER_TOKEN 笔）的成交，不写入数据库
+   */
+  analyze(tokenAddress: string, until: number = Date.now()): WashTradeStats | null {
+    try {
+      const since = new Date(until - 24 * 60 * 60 * 1000).toISOString()
+      const rows = this.db.getDb().prepare(`
+        SELECT trader_address, is_buy, sol_amount, timestamp FROM trades
+        WHERE token_address = ? AND timestamp > ?
+        ORDER BY timestamp DESC
+        LIMIT ?
+      `).all(tokenAddress, since, MAX_TRADES_PER_TOKEN) as { trader_address: string, is_buy: number, sol_amount: number, timestamp: string }[]
+
+      const result = detectWashTrades(
+        rows.map(row => ({
+          wallet: row.trader_address,
+          isBuy: Boolean(row.is_buy),
+          solAmount: row.sol_amount,
+          timestamp: new Date(row.timestamp).getTime()
+        })),
+        environment.monitoring.washTradeWindow
+      )
+      return toWashTradeStats(tokenAddress, result, new Date())
+    } catch (error) {
+      enhancedErrorHandler.handleError(error as Error, 'WashTradeDetector.analyze', { tokenAddress })
+      return null
+    }
+  }
+
+  private saveStats(results: WashTradeStats[]): void {
+    if (results.length === 0) return
+
+    const db = this.db.getDb()
+    this.upsertStmt ??= db.prepare(`
+      INSERT INTO token_wash_stats (
+        token_address, total_volume, wash_volume, authenticity, tx_count, wash_tx_count,
+        trader_count, wash_wallet_count, self_loops, cluster_loops, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(token_address) DO UPDATE SET
+        total_volume = excluded.total_volume,
+        wash_volume = excluded.wash_volume,
+        authenticity = excluded.authenticity,
+        tx_count = excluded.tx_count,
+        wash_tx_count = excluded.wash_tx_count,
+        trader_count = excluded.trader_count,
+        wash_wallet_count = excluded.wash_wallet_count,
+        self_loops = excluded.self_loops,
+        cluster_loops = excluded.cluster_loops,
+        updated_at = excluded.updated_at
+    `)
+    const stmt = this.upsertStmt
+    db.transaction(() => {
+      for (const stats of results) {
+        stmt.run(
+          stats.tokenAddress,
+          stats.totalVolume,
+          stats.washVolume,
+          stats.authenticity,
+          stats.txCount,
+          stats.washTxCount,
+          stats.traderCount,
+          stats.washWalletCount,
+          stats.selfLoops,
+          stats.clusterLoops,
+          stats.updatedAt.toISOString()
+        )
+      }
+    })()
+  }
+}
+
+/**
+ * 按时间顺序为每笔卖出匹配窗口内金额相近、尚未匹配的买入：优先同一钱包（自成交往返），
+ * 其次最早的其他钱包买入（钱包组往返）；往返次数达到下限的钱包或钱包对，其匹配的成交计为对倒。
+ * 未匹配的买入按金额对数分桶，每笔卖出只需查看相邻的三个桶
+ */
+export function detectWashTrades(trades: WashTrade[], window: number): WashTradeResult {
+  const sorted = [...trades].sort((a, b) => a.timestamp - b.timestamp)
+  const buckets = new Map<number, { buys: (WashTrade & { matched: boolean })[], head: number }>()
+  const selfMatches = new Map<string, { volume: number, count: number }>()
+  const clusterMatches = new Map<string, { wallets: [string, string], volume: number, count: number }>()
+  const similar = (a: number, b: number) => Math.abs(a - b) <= Math.max(a, b) * SIZE_TOLERANCE
+  const bucketOf = (amount: number) => Math.floor(Math.log(amount) / BUCKET_BASE)
+
+  for (const trade of sorted) {
+    if (!(trade.solAmount > 0)) continue
+    const bucketKey = bucketOf(trade.solAmount)
+
+    if (trade.isBuy) {
+      const bucket = buckets.get(bucketKey) ?? { buys: [], head: 0 }
+      bucket.buys.push({ ...trade, matched: false })
+      buckets.set(bucketKey, bucket)
+      continue
+    }
+
+    let selfBuy: (WashTrade & { matched: boolean }) | undefined
+    let earliestBuy: (WashTrade & { matched: boolean }) | undefined
+    for (const key of [bucketKey - 1, bucketKey, bucketKey + 1]) {
+      const bucket = buckets.get(key)
+      if (!bucket) continue
+
+      // 移出窗口外与已匹配的队首买入
+      while (bucket.head < bucket.buys.length &&
+        (bucket.buys[bucket.head].matched || trade.timestamp - bucket.buys[bucket.head].timestamp > window)) {
+        bucket.head++
+      }
+      if (bucket.head > 1000) {
+        bucket.buys = bucket.buys.slice(bucket.head)
+        bucket.head = 0
+      }
+
+      for (let i = bucket.head; i < bucket.buys.length; i++) {
+        const buy = bucket.buys[i]
+        if (buy.matched || !similar(buy.solAmount, trade.solAmount)) continue
+        if (!earliestBuy || buy.timestamp < earliestBuy.timestamp) earliestBuy = buy
+        if (buy.wallet === trade.wallet) {
+          selfBuy ??= buy
+          break
+        }
+      }
+    }
+
+    const buy = selfBuy ?? earliestBuy
+    if (!buy) continue
+    buy.matched = true
+
+    if (buy.wallet === trade.wallet) {
+      const match = selfMatches.get(trade.wallet) ?? { volume: 0, count: 0 }
+      match.volume += buy.solAmount + trade.solAmount
+      match.count++
+      selfMatches.set(trade.wallet, match)
+    } else {
+      const wallets = [buy.wallet, trade.wallet].sort() as [string, string]
+      const key = wallets.join(':')
+      const match = clusterMatches.get(key) ?? { wallets, volume: 0, count: 0 }
+      match.volume += buy.solAmount + trade.solAmount
+      match.count++
+      clusterMatches.set(key, match)
+    }
+  }
+
+  let washVolume = 0
+  let washTxCount = 0
+  let selfLoops = 0
+  let clusterLoops = 0
+  const washWallets = new Set<string>()
+
+  for (const [wallet, match] of selfMatches) {
+    if (match.count < MIN_SELF_LOOPS) continue
+    washVolume += match.volume
+    washTxCount += match.count * 2
+    selfLoops += match.count
+    washWallets.add(wallet)
+  }
+  for (const match of clusterMatches.values()) {
+    if (match.count < MIN_CLUSTER_LOOPS) continue
+    washVolume += match.volume
+    washTxCount += match.count * 2
+    clusterLoops += match.count
+    match.wallets.forEach(wallet => washWallets.add(wallet))
+  }
+
+  const totalVolume = sorted.reduce((total, trade) => total + trade.solAmount, 0)
+
+  return {
+    totalVolume,
+    washVolume: Math.min(washVolume, totalVolume),
+    txCount: sorted.length,
+    washTxCount: Math.min(washTxCount, sorted.length),
+    traderCount: new Set(sorted.map(trade => trade.wallet)).size,
+    washWallets: [...washWallets],
+    selfLoops,
+    clusterLoops
+  }
+}
+
+function toWashTradeStats(tokenAddress: string, result: WashTradeResult, updatedAt: Date): WashTradeStats {
+  const { washWallets, ...counts } = result
+  return {
+    tokenAddress,
+    ...counts,
+    washWalletCount: washWallets.length,
+    authenticity: result.totalVolume > 0 ? Math.max(0, 1 - result.washVolume / result.totalVolume) : 1,
+    updatedAt
+  }
+}
+
+export function queryWashTradeStats(db: DatabaseManager, tokenAddress: string): WashTradeStats | null {
+  const row = db.getDb().prepare('SELECT * FROM token_wash_stats WHERE token_address = ?').get(tokenAddress) as any
+  return row ? rowToWashTradeStats(row) : null
+}
+
+/**
+ * 代币成交额的真实占比（0-1），尚未分析的代币按 1 处理
+ */
+export function queryVolumeAuthenticity(db: DatabaseManager, tokenAddress: string): number {
+  const row = db.getDb().prepare('SELECT authenticity FROM token_wash_stats WHERE token_address = ?')
+    .get(tokenAddress) as { authenticity: number } | undefined
+  return row?.authenticity ?? 1
+}
+
+/**
+ * 批量查询多个代币的成交额真实占比，尚未分析的代币按 1 处理
+ */
+export function queryVolumeAuthenticities(db: DatabaseManager, tokenAddresses: string[]): Map<string, number> {
+  const authenticities = new Map(tokenAddresses.map(tokenAddress => [tokenAddress, 1]))
+  if (tokenAddresses.length === 0) return authenticities
+
+  const rows = db.getDb().prepare(`
+    SELECT token_address, authenticity FROM token_wash_stats
+    WHERE token_address IN (${tokenAddresses.map(() => '?').join(', ')})
+  `).all(...tokenAddresses) as { token_address: string, authenticity: number }[]
+
+  rows.forEach(row => authenticities.set(row.token_address, row.authenticity))
+  return authenticities
+}
+
+export function rowToWashTradeStats(row: any): WashTradeStats {
+  return {
+    tokenAddress: row.token_address,
+    totalVolume: row.total_volume,
+    washVolume: row.wash_volume,
+    authenticity: row.authenticity,
+    txCount: row.tx_count,
+    washTxCount: row.wash_tx_count,
+    traderCount: row.trader_count,
+    washWalletCount: row.wash_wallet_count,
+    selfLoops: row.self_loops,
+    clusterLoops: row.cluster_loops,
+    updatedAt: new Date(row.updated_at)
+  }
+}
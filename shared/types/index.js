@@ -5,7 +5,11 @@ export const AlertType = {
   WATCH_TOKEN: 'watch_token',
   HIGH_RISK: 'high_risk',
   MEDIUM_RISK: 'medium_risk',
-  ABNORMAL_TRADING: 'abnormal_trading'
+  ABNORMAL_TRADING: 'abnormal_trading',
+  NEAR_GRADUATION: 'near_graduation',
+  TOKEN_GRADUATED: 'token_graduated',
+  DEV_SELL: 'dev_sell',
+  COPYCAT_TOKEN: 'copycat_token'
 }
 
 // 默认导出，用于 CommonJS 兼容性
@@ -19,17 +19,23 @@ export interface TokenInfo {
   telegram?: string
   website?: string
   isActive?: boolean  // 添加这个属性
+  description?: string
+  imageUri?: string
+  metadataUri?: string  // 链上元数据 JSON 地址
+  initialMarketCapSol?: number
+  firstSeenAt?: Date  // 本系统首次收到该代币的时间（createdAt 为链上创建时间）
 }
 
 // 价格数据
 export interface PriceData {
   tokenAddress: string
   price: number
-  priceChange1m: number
-  priceChange5m: number
-  priceChange15m: number
-  priceChange1h: number
-  priceChange24h: number
+  // 历史不足以覆盖窗口时为 null
+  priceChange1m: number | null
+  priceChange5m: number | null
+  priceChange15m: number | null
+  priceChange1h: number | null
+  priceChange24h: number | null
   timestamp: Date
 }
 
@@ -45,17 +51,85 @@ export interface TradingData {
   timestamp: Date
 }
 
+// 联合曲线状态（pump.fun bonding curve）
+export interface BondingCurveState {
+  tokenAddress: string
+  virtualSolReserves: number
+  virtualTokenReserves: number
+  realSolReserves: number
+  realTokenReserves: number
+  priceSol: number // 现价（SOL/代币）
+  marketCapSol: number
+  progress: number // 毕业进度 0-100
+  updatedAt: Date
+}
+
+// 毕业状态：曲线交易中 -> 即将毕业 -> 曲线完成 -> 已迁移至 AMM
+export type GraduationStatus = 'bonding' | 'near_graduation' | 'graduated' | 'migrated'
+
+// 代币生命周期：new -> trading -> near_graduation -> graduated，或 -> dormant -> dead
+export type LifecycleState = 'new' | 'trading' | 'near_graduation' | 'graduated' | 'dormant' | 'dead'
+
+// 生命周期状态变更记录
+export interface LifecycleTransition {
+  tokenAddress: string
+  fromState: LifecycleState
+  toState: LifecycleState
+  reason: string
+  timestamp: Date
+}
+
+// K线周期
+export type CandleInterval = '1s' | '1m' | '5m' | '15m' | '1h' | '4h'
+
+// OHLCV K线（价格以 SOL 计价）
+export interface Candle {
+  tokenAddress: string
+  interval: CandleInterval
+  openTime: Date
+  open: number
+  high: number
+  low: number
+  close: number
+  volumeSol: number
+  volumeToken: number
+  buyVolumeSol: number
+  sellVolumeSol: number
+  buyCount: number
+  sellCount: number
+}
+
 // 持币分析
 export interface HolderAnalysis {
   tokenAddress: string
   totalHolders: number
+  newHolders5m: number
   newHolders1h: number
-  holderGrowthRate: number
-  top10HoldingPercentage: number
+  newHolders24h: number
+  holderGrowthRate: number // 最近1小时新增持有人占之前持有人的百分比
+  top10HoldingPercentage: number // 占总供应量（不含联合曲线账户）
+  top20HoldingPercentage: number
+  giniCoefficient: number // 0 为完全平均，趋近 1 为高度集中
   whaleCount: number
+  bondingCurveBalance: number // 联合曲线账户持有的代币数量
+  bondingCurvePercentage: number
   timestamp: Date
 }
 
+// 单个钱包在某代币上的持仓（由交易记录重建）
+export interface TokenHolder {
+  tokenAddress: string
+  walletAddress: string
+  balance: number
+  percentage: number // 占总供应量
+  boughtTokens: number
+  soldTokens: number
+  buyCount: number
+  sellCount: number
+  firstAcquiredAt: Date
+  lastTradeAt: Date
+}
+
 // 预警类型
 export enum AlertType {
   SUPER_GOLDEN_DOG = 'super_golden_dog',
@@ -63,7 +137,11 @@ export enum AlertType {
   WATCH_TOKEN = 'watch_token',
   HIGH_RISK = 'high_risk',
   MEDIUM_RISK = 'medium_risk',
-  ABNORMAL_TRADING = 'abnormal_trading'
+  ABNORMAL_TRADING = 'abnormal_trading',
+  NEAR_GRADUATION = 'near_graduation',
+  TOKEN_GRADUATED = 'token_graduated',
+  DEV_SELL = 'dev_sell',
+  COPYCAT_TOKEN = 'copycat_token'
 }
 
 // 预警数据
@@ -112,13 +190,15 @@ export interface TechnicalIndicators {
   timestamp: Date
 }
 
-// 风险评估
+// 风险评估（各项均为 0-100，越高风险越大）
 export interface RiskAssessment {
   tokenAddress: string
+  // 沿用合约安全的字段名，但 pump.fun 代币合约统一（固定供应、无增发与冻结权限），
+  // 实际填充的是发行方风险：开发者持仓与出货、创建者信誉
   contractSecurity: number
-  liquidityRisk: number
-  whaleRisk: number
-  volatilityRisk: number
+  liquidityRisk: number // 曲线储备不足与市值回撤
+  whaleRisk: number // 持仓集中度、狙击与捆绑钱包持仓
+  volatilityRisk: number // 急跌、交易量萎缩与卖压激增
   overallRisk: number
   riskFactors: string[]
   timestamp: Date